@@ -0,0 +1,46 @@
+-- Migration: 003_generation_job_processing
+-- Description: Per-recipient progress tracking for asynchronous certificate generation jobs
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. EXTEND generation_job_recipients WITH PROCESSING STATE
+-- ============================================================================
+-- The background worker processes recipients one at a time and records the
+-- outcome on each row, so a job interrupted by a crash resumes from the first
+-- recipient that is still 'pending'.
+
+ALTER TABLE generation_job_recipients
+  ADD COLUMN IF NOT EXISTS row_index INTEGER,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'completed', 'failed')),
+  ADD COLUMN IF NOT EXISTS certificate_id UUID REFERENCES certificates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS error TEXT,
+  ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+
+-- Index for fetching the next pending recipients of a job in row order
+CREATE INDEX IF NOT EXISTS idx_job_recipients_job_status
+  ON generation_job_recipients(job_id, status, row_index);
+
+-- ============================================================================
+-- 2. EXTEND certificate_generation_jobs WITH PROGRESS COUNTERS
+-- ============================================================================
+
+ALTER TABLE certificate_generation_jobs
+  ADD COLUMN IF NOT EXISTS total_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS processed_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS failed_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+
+-- Index for the worker claim query (oldest queued job first)
+CREATE INDEX IF NOT EXISTS idx_gen_jobs_status_created
+  ON certificate_generation_jobs(status, created_at)
+  WHERE status IN ('queued', 'running');
+
+-- ============================================================================
+-- 3. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON COLUMN generation_job_recipients.row_index IS 'Zero-based position of the recipient in the submitted data';
+COMMENT ON COLUMN generation_job_recipients.status IS 'Processing state: pending = not yet rendered, completed = certificate issued, failed = see error';
+COMMENT ON COLUMN generation_job_recipients.certificate_id IS 'Certificate issued for this recipient (set when status = completed)';
+COMMENT ON COLUMN certificate_generation_jobs.updated_at IS 'Bumped after every processed recipient; a running job with a stale value is reclaimed by the worker';
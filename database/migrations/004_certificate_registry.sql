@@ -0,0 +1,84 @@
+-- Migration: 004_certificate_registry
+-- Description: Job filter and search indexes for the certificate registry API (GET /certificates)
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. EXPOSE generation_job_id ON v_certificates_list
+-- ============================================================================
+-- Same definition as before with generation_job_id appended, so the registry
+-- can filter certificates by the job that issued them.
+
+CREATE OR REPLACE VIEW v_certificates_list AS
+SELECT cert.id AS certificate_id,
+    cert.organization_id,
+    cert.certificate_number,
+    cert.status,
+    cert.issued_at,
+    cert.expires_at,
+    cert.revoked_at,
+    cert.revoked_reason,
+    cert.recipient_name,
+    cert.recipient_email,
+    cert.recipient_phone,
+    cert.category_id,
+    cat.name AS category_name,
+    cert.subcategory_id,
+    sub.name AS subcategory_name,
+    cert.template_id,
+    t.title AS template_title,
+    cert.template_version_id,
+    cert.certificate_file_id,
+    f1.bucket AS certificate_bucket,
+    f1.path AS certificate_path,
+    cert.certificate_preview_file_id,
+    f2.bucket AS preview_bucket,
+    f2.path AS preview_path,
+    cert.verification_path,
+    cert.qr_payload_url,
+    cert.created_at,
+    cert.generation_job_id
+   FROM (((((certificates cert
+     JOIN certificate_categories cat ON ((cat.id = cert.category_id)))
+     JOIN certificate_subcategories sub ON ((sub.id = cert.subcategory_id)))
+     JOIN certificate_templates t ON ((t.id = cert.template_id)))
+     LEFT JOIN files f1 ON ((f1.id = cert.certificate_file_id)))
+     LEFT JOIN files f2 ON ((f2.id = cert.certificate_preview_file_id)));
+
+-- ============================================================================
+-- 2. INDEXES FOR REGISTRY FILTERS
+-- ============================================================================
+
+-- Query pattern: WHERE organization_id = ? ORDER BY issued_at DESC
+CREATE INDEX IF NOT EXISTS idx_certificates_org_issued
+  ON certificates(organization_id, issued_at DESC);
+
+-- Query pattern: WHERE organization_id = ? AND expires_at BETWEEN ? AND ?
+CREATE INDEX IF NOT EXISTS idx_certificates_org_expires
+  ON certificates(organization_id, expires_at)
+  WHERE expires_at IS NOT NULL;
+
+-- Query pattern: WHERE generation_job_id = ?
+CREATE INDEX IF NOT EXISTS idx_certificates_generation_job
+  ON certificates(generation_job_id);
+
+-- ============================================================================
+-- 3. TRIGRAM INDEXES FOR SEARCH
+-- ============================================================================
+-- Search uses ILIKE '%term%' on recipient name, email and certificate number.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_certificates_recipient_name_search
+  ON certificates USING gin(recipient_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_certificates_recipient_email_search
+  ON certificates USING gin(recipient_email gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_certificates_number_search
+  ON certificates USING gin(certificate_number gin_trgm_ops);
+
+-- ============================================================================
+-- 4. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON VIEW v_certificates_list IS 'Certificate registry listing with category, template and file paths resolved';
@@ -0,0 +1,145 @@
+-- Migration: 005_certificate_reissue
+-- Description: Resolve verification of reissued certificates to the certificate that supersedes them
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. INDEX FOR REISSUE LOOKUPS
+-- ============================================================================
+
+-- Query pattern: WHERE reissued_from_certificate_id = ? (find the replacement of a certificate)
+CREATE INDEX IF NOT EXISTS idx_certificates_reissued_from
+  ON certificates(reissued_from_certificate_id)
+  WHERE reissued_from_certificate_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. UPDATE verify_certificate_enhanced WITH 'superseded' RESULT
+-- ============================================================================
+-- A certificate with status 'reissued' has been replaced by a corrected one.
+-- Its token now returns result 'superseded' plus the replacement's number and
+-- verification path. The return type changes, so the function is recreated.
+
+DROP FUNCTION IF EXISTS public.verify_certificate_enhanced(text);
+
+CREATE FUNCTION public.verify_certificate_enhanced(p_token text)
+RETURNS TABLE(
+  certificate_id uuid,
+  certificate_number text,
+  recipient_name text,
+  recipient_email text,
+  course_name text,
+  category_name text,
+  subcategory_name text,
+  issued_at timestamp with time zone,
+  expires_at timestamp with time zone,
+  status text,
+  revoked_at timestamp with time zone,
+  revoked_reason text,
+  organization_id uuid,
+  organization_name text,
+  organization_slug text,
+  organization_website text,
+  organization_logo_bucket text,
+  organization_logo_path text,
+  preview_bucket text,
+  preview_path text,
+  superseded_by_certificate_id uuid,
+  superseded_by_certificate_number text,
+  superseded_by_verification_path text,
+  result text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token_hash text;
+BEGIN
+  -- Hash the provided token to match against stored hash
+  v_token_hash := encode(sha256(p_token::bytea), 'hex');
+
+  -- Look up certificate by verification token hash
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.certificate_number,
+    c.recipient_name,
+    c.recipient_email,
+    sub.name AS course_name,
+    cat.name AS category_name,
+    sub.name AS subcategory_name,
+    c.issued_at,
+    c.expires_at,
+    c.status::text,
+    c.revoked_at,
+    c.revoked_reason,
+    c.organization_id,
+    o.name AS organization_name,
+    o.slug AS organization_slug,
+    o.website_url AS organization_website,
+    lf.bucket AS organization_logo_bucket,
+    lf.path AS organization_logo_path,
+    pf.bucket AS preview_bucket,
+    pf.path AS preview_path,
+    nc.id AS superseded_by_certificate_id,
+    nc.certificate_number AS superseded_by_certificate_number,
+    nc.verification_path AS superseded_by_verification_path,
+    CASE
+      WHEN c.id IS NULL THEN 'not_found'
+      WHEN c.status = 'revoked' THEN 'revoked'
+      WHEN c.status = 'reissued' THEN 'superseded'
+      WHEN c.expires_at IS NOT NULL AND c.expires_at < NOW() THEN 'expired'
+      ELSE 'valid'
+    END AS result
+  FROM certificates c
+  JOIN organizations o ON o.id = c.organization_id
+  JOIN certificate_categories cat ON cat.id = c.category_id
+  JOIN certificate_subcategories sub ON sub.id = c.subcategory_id
+  LEFT JOIN files lf ON lf.id = o.logo_file_id
+  LEFT JOIN files pf ON pf.id = c.certificate_preview_file_id
+  LEFT JOIN LATERAL (
+    SELECT r.id, r.certificate_number, r.verification_path
+    FROM certificates r
+    WHERE r.reissued_from_certificate_id = c.id
+    ORDER BY r.created_at DESC
+    LIMIT 1
+  ) nc ON true
+  WHERE c.verification_token_hash = v_token_hash
+  LIMIT 1;
+
+  -- If no rows returned, return not_found
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT
+      NULL::uuid,
+      NULL::text,
+      NULL::text,
+      NULL::text,
+      NULL::text,
+      NULL::text,
+      NULL::text,
+      NULL::timestamp with time zone,
+      NULL::timestamp with time zone,
+      NULL::text,
+      NULL::timestamp with time zone,
+      NULL::text,
+      NULL::uuid,
+      NULL::text,
+      NULL::text,
+      NULL::text,
+      NULL::text,
+      NULL::text,
+      NULL::text,
+      NULL::text,
+      NULL::uuid,
+      NULL::text,
+      NULL::text,
+      'not_found'::text;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 3. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON FUNCTION verify_certificate_enhanced IS 'Enhanced verification function that returns full certificate details including org info, preview URL, verification result and, for reissued certificates, the superseding certificate';
+COMMENT ON COLUMN certificates.reissued_from_certificate_id IS 'Certificate this one replaces (the replaced certificate has status reissued)';
@@ -0,0 +1,112 @@
+-- Migration: 006_certificate_expiry
+-- Description: Expiry sweeper support - expiry index and "certificate expires soon" reminder queue
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. INDEX FOR THE EXPIRY SWEEP
+-- ============================================================================
+
+-- Query pattern: WHERE status = 'issued' AND expires_at < now() ORDER BY expires_at
+CREATE INDEX IF NOT EXISTS idx_certificates_issued_expires
+  ON certificates(expires_at)
+  WHERE status = 'issued' AND expires_at IS NOT NULL;
+
+-- ============================================================================
+-- 2. DISTINGUISH REMINDERS FROM CERTIFICATE DELIVERIES
+-- ============================================================================
+
+ALTER TABLE delivery_messages
+  ADD COLUMN IF NOT EXISTS purpose TEXT NOT NULL DEFAULT 'certificate'
+    CHECK (purpose IN ('certificate', 'expiry_reminder'));
+
+-- ============================================================================
+-- 3. CREATE certificate_expiry_reminders TABLE
+-- ============================================================================
+-- One row per (certificate, reminder offset) so each reminder is queued once.
+
+CREATE TABLE IF NOT EXISTS certificate_expiry_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  certificate_id UUID NOT NULL REFERENCES certificates(id) ON DELETE CASCADE,
+  days_before INTEGER NOT NULL CHECK (days_before > 0),
+  delivery_message_id UUID REFERENCES delivery_messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (certificate_id, days_before)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expiry_reminders_org_created
+  ON certificate_expiry_reminders(organization_id, created_at DESC);
+
+ALTER TABLE certificate_expiry_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS expiry_reminders_select_org_members ON certificate_expiry_reminders;
+CREATE POLICY expiry_reminders_select_org_members ON certificate_expiry_reminders
+  FOR SELECT
+  USING (is_member_of_org(organization_id));
+
+-- ============================================================================
+-- 4. CREATE queue_certificate_expiry_reminders FUNCTION
+-- ============================================================================
+-- Queues an email delivery message for up to p_limit issued certificates that
+-- expire within p_days_before days and have not had that reminder yet.
+-- Certificates without a recipient email or generation recipient row are skipped.
+
+CREATE OR REPLACE FUNCTION public.queue_certificate_expiry_reminders(p_days_before integer, p_limit integer)
+RETURNS TABLE(certificate_id uuid, organization_id uuid, delivery_message_id uuid)
+LANGUAGE sql
+AS $$
+  WITH due AS (
+    SELECT
+      c.id AS cert_id,
+      c.organization_id AS org_id,
+      c.generation_job_id AS job_id,
+      r.id AS recipient_id,
+      c.recipient_email
+    FROM certificates c
+    JOIN generation_job_recipients r ON r.certificate_id = c.id
+    WHERE c.status = 'issued'
+      AND c.recipient_email IS NOT NULL
+      AND c.generation_job_id IS NOT NULL
+      AND c.expires_at > now()
+      AND c.expires_at <= now() + make_interval(days => p_days_before)
+      AND NOT EXISTS (
+        SELECT 1 FROM certificate_expiry_reminders er
+        WHERE er.certificate_id = c.id AND er.days_before = p_days_before
+      )
+    ORDER BY c.expires_at
+    LIMIT p_limit
+  ),
+  messages AS (
+    INSERT INTO delivery_messages (organization_id, generation_job_id, recipient_id, channel, status, to_email, purpose)
+    SELECT org_id, job_id, recipient_id, 'email', 'queued', recipient_email, 'expiry_reminder'
+    FROM due
+    RETURNING id, recipient_id
+  ),
+  items AS (
+    INSERT INTO delivery_message_items (message_id, certificate_id)
+    SELECT m.id, d.cert_id
+    FROM messages m
+    JOIN due d ON d.recipient_id = m.recipient_id
+    RETURNING message_id
+  ),
+  reminders AS (
+    INSERT INTO certificate_expiry_reminders (organization_id, certificate_id, days_before, delivery_message_id)
+    SELECT d.org_id, d.cert_id, p_days_before, m.id
+    FROM messages m
+    JOIN due d ON d.recipient_id = m.recipient_id
+    RETURNING certificate_expiry_reminders.certificate_id,
+      certificate_expiry_reminders.organization_id,
+      certificate_expiry_reminders.delivery_message_id
+  )
+  -- Data-modifying CTEs (including items) always run to completion
+  SELECT r.certificate_id, r.organization_id, r.delivery_message_id
+  FROM reminders r;
+$$;
+
+-- ============================================================================
+-- 5. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON TABLE certificate_expiry_reminders IS 'Expiry reminders already queued, one per certificate and reminder offset (days_before)';
+COMMENT ON COLUMN delivery_messages.purpose IS 'certificate = certificate delivery, expiry_reminder = "your certificate expires soon" reminder';
+COMMENT ON FUNCTION queue_certificate_expiry_reminders IS 'Queues expiry reminder emails for certificates expiring within p_days_before days (used by the expiry sweeper)';
@@ -0,0 +1,46 @@
+-- Migration: 007_organization_fonts
+-- Description: Organization font library - uploaded TTF/OTF fonts usable by template fields
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. CREATE organization_fonts TABLE
+-- ============================================================================
+-- One row per uploaded font face. Template fields reference fonts by family
+-- name (style.fontFamily); weight and style pick the face within a family.
+-- Font files live in storage under org_branding/<org_id>/fonts/ and are
+-- registered in files with kind 'other'.
+
+CREATE TABLE IF NOT EXISTS organization_fonts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  family TEXT NOT NULL CHECK (length(btrim(family)) BETWEEN 1 AND 100),
+  weight TEXT NOT NULL DEFAULT 'normal' CHECK (weight IN ('normal', 'bold')),
+  style TEXT NOT NULL DEFAULT 'normal' CHECK (style IN ('normal', 'italic')),
+  file_id UUID NOT NULL REFERENCES files(id),
+  postscript_name TEXT,
+  glyph_count INTEGER,
+  created_by_user_id UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+-- Query pattern: WHERE organization_id = ? AND family IN (...) AND deleted_at IS NULL
+-- Also ensures one active face per (family, weight, style)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_fonts_active_face
+  ON organization_fonts(organization_id, lower(family), weight, style)
+  WHERE deleted_at IS NULL;
+
+ALTER TABLE organization_fonts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS organization_fonts_select_org_members ON organization_fonts;
+CREATE POLICY organization_fonts_select_org_members ON organization_fonts
+  FOR SELECT
+  USING (is_member_of_org(organization_id));
+
+-- ============================================================================
+-- 2. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON TABLE organization_fonts IS 'Organization font library: uploaded TTF/OTF faces embedded (subset) into generated certificates';
+COMMENT ON COLUMN organization_fonts.family IS 'Family name matched case-insensitively against template field style.fontFamily';
+COMMENT ON COLUMN organization_fonts.glyph_count IS 'Number of Unicode code points the font covers (informational)';
@@ -0,0 +1,26 @@
+-- Migration: 008_image_fields
+-- Description: Image template fields (signatures, recipient photos, partner logos)
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. ADD 'image' TO template_field_type
+-- ============================================================================
+-- Image fields draw an organization asset (org_branding/<org_id>/assets/) or a
+-- per-row image named by the mapped column. Placement and scaling live in style:
+-- imageSource ('asset' | 'column'), assetFileId, imageFit ('contain' | 'cover').
+
+ALTER TYPE template_field_type ADD VALUE IF NOT EXISTS 'image';
+
+-- ============================================================================
+-- 2. INDEX FOR IMPORT IMAGE LOOKUPS
+-- ============================================================================
+
+-- Query pattern: WHERE organization_id = ? AND path LIKE 'file_imports/<org>/<import>/images/%' AND original_name = ?
+CREATE INDEX IF NOT EXISTS idx_files_org_original_name
+  ON files(organization_id, original_name);
+
+-- ============================================================================
+-- 3. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON TYPE template_field_type IS 'text, date, qrcode, custom, image (image style: imageSource, assetFileId, imageFit)';
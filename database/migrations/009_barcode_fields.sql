@@ -0,0 +1,18 @@
+-- Migration: 009_barcode_fields
+-- Description: Barcode template fields (Code128, DataMatrix, PDF417, QR)
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. ADD 'barcode' TO template_field_type
+-- ============================================================================
+-- Barcode settings live in style: symbology ('code128' | 'datamatrix' | 'pdf417' | 'qrcode'),
+-- barcodePayload ('token' | 'certificate_number' | 'column'), quietZone (modules),
+-- errorCorrection (QR: L/M/Q/H, PDF417: 0-8).
+
+ALTER TYPE template_field_type ADD VALUE IF NOT EXISTS 'barcode';
+
+-- ============================================================================
+-- 2. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON TYPE template_field_type IS 'text, date, qrcode, custom, image (style: imageSource, assetFileId, imageFit), barcode (style: symbology, barcodePayload, quietZone, errorCorrection)';
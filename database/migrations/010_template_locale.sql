@@ -0,0 +1,21 @@
+-- Migration: 010_template_locale
+-- Description: Per-template locale and timezone for dates and numbers on certificates
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. ADD locale AND timezone TO certificate_templates
+-- ============================================================================
+-- NULL keeps the previous behaviour (en-US month names, UTC).
+
+ALTER TABLE certificate_templates
+  ADD COLUMN IF NOT EXISTS locale TEXT
+    CHECK (locale IS NULL OR char_length(locale) BETWEEN 2 AND 35),
+  ADD COLUMN IF NOT EXISTS timezone TEXT
+    CHECK (timezone IS NULL OR char_length(timezone) BETWEEN 1 AND 64);
+
+-- ============================================================================
+-- 2. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON COLUMN certificate_templates.locale IS 'BCP 47 locale for month/day names and number formatting (e.g. fr, hi-IN); NULL = en-US';
+COMMENT ON COLUMN certificate_templates.timezone IS 'IANA timezone timestamps are shown in (e.g. Asia/Kolkata); NULL = UTC';
@@ -0,0 +1,168 @@
+-- Migration: 011_certificate_numbering
+-- Description: Configurable certificate number patterns per organization and category, with gap-free sequences
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. CREATE certificate_number_schemes TABLE
+-- ============================================================================
+-- One organization default (category_id IS NULL) and optional per-category
+-- overrides. Patterns end with the sequence, e.g. {ORG}-{YYYY}-{SEQ:6}; they
+-- are validated by the API (see src/domains/numbering/pattern.ts).
+-- Organizations without a scheme keep the built-in next_certificate_number.
+
+CREATE TABLE IF NOT EXISTS certificate_number_schemes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES certificate_categories(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL CHECK (length(pattern) BETWEEN 1 AND 64),
+  org_code TEXT CHECK (org_code ~ '^[A-Z0-9]{1,12}$'),
+  created_by_user_id UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One default and one override per category
+CREATE UNIQUE INDEX IF NOT EXISTS idx_number_schemes_org_default
+  ON certificate_number_schemes(organization_id)
+  WHERE category_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_number_schemes_org_category
+  ON certificate_number_schemes(organization_id, category_id)
+  WHERE category_id IS NOT NULL;
+
+ALTER TABLE certificate_number_schemes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS number_schemes_select_org_members ON certificate_number_schemes;
+CREATE POLICY number_schemes_select_org_members ON certificate_number_schemes
+  FOR SELECT
+  USING (is_member_of_org(organization_id));
+
+-- ============================================================================
+-- 2. CREATE SEQUENCE TABLES
+-- ============================================================================
+-- A sequence is keyed by the rendered text before {SEQ} (e.g. 'ACME-2026-'),
+-- so schemes that render the same prefix share one counter and a new year
+-- starts a new sequence. Patterns must put a non-digit right before {SEQ},
+-- which makes the prefix of any number unambiguous: distinct prefixes can
+-- never produce the same certificate number.
+--
+-- Numbers taken by a certificate that failed to issue are released and
+-- handed out again before the counter advances, keeping sequences gap-free.
+
+CREATE TABLE IF NOT EXISTS certificate_number_sequences (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  prefix TEXT NOT NULL,
+  last_value BIGINT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, prefix)
+);
+
+CREATE TABLE IF NOT EXISTS certificate_number_released (
+  organization_id UUID NOT NULL,
+  prefix TEXT NOT NULL,
+  value BIGINT NOT NULL,
+  released_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, prefix, value),
+  FOREIGN KEY (organization_id, prefix)
+    REFERENCES certificate_number_sequences(organization_id, prefix) ON DELETE CASCADE
+);
+
+ALTER TABLE certificate_number_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE certificate_number_released ENABLE ROW LEVEL SECURITY;
+
+-- Certificate numbers are unique per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_org_number
+  ON certificates(organization_id, certificate_number);
+
+-- ============================================================================
+-- 3. CREATE next_certificate_sequence FUNCTION
+-- ============================================================================
+-- Returns the next value for a prefix: the lowest released value, otherwise
+-- the counter + 1. The counter row is locked by the UPDATE, so concurrent
+-- callers are serialized per prefix. A new prefix starts after the highest
+-- number already issued with it (e.g. by the built-in numbering).
+
+CREATE OR REPLACE FUNCTION public.next_certificate_sequence(p_organization_id uuid, p_prefix text)
+RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_value bigint;
+BEGIN
+  DELETE FROM certificate_number_released rel
+  WHERE (rel.organization_id, rel.prefix, rel.value) = (
+    SELECT r.organization_id, r.prefix, r.value
+    FROM certificate_number_released r
+    WHERE r.organization_id = p_organization_id AND r.prefix = p_prefix
+    ORDER BY r.value
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING rel.value INTO v_value;
+
+  IF v_value IS NOT NULL THEN
+    RETURN v_value;
+  END IF;
+
+  UPDATE certificate_number_sequences s
+  SET last_value = s.last_value + 1, updated_at = now()
+  WHERE s.organization_id = p_organization_id AND s.prefix = p_prefix
+  RETURNING s.last_value INTO v_value;
+
+  IF v_value IS NOT NULL THEN
+    RETURN v_value;
+  END IF;
+
+  INSERT INTO certificate_number_sequences (organization_id, prefix, last_value)
+  SELECT p_organization_id, p_prefix, COALESCE(MAX(substr(c.certificate_number, length(p_prefix) + 1)::bigint), 0) + 1
+  FROM certificates c
+  WHERE c.organization_id = p_organization_id
+    AND left(c.certificate_number, length(p_prefix)) = p_prefix
+    AND substr(c.certificate_number, length(p_prefix) + 1) ~ '^[0-9]{1,18}$'
+  ON CONFLICT (organization_id, prefix) DO UPDATE
+    SET last_value = certificate_number_sequences.last_value + 1, updated_at = now()
+  RETURNING last_value INTO v_value;
+
+  RETURN v_value;
+END;
+$$;
+
+-- ============================================================================
+-- 4. CREATE release_certificate_number FUNCTION
+-- ============================================================================
+-- Returns a number to its sequence after the certificate holding it was not
+-- issued (or was discarded). Ignored for numbers from the built-in numbering,
+-- numbers the sequence never reached, and numbers still held by a certificate.
+
+CREATE OR REPLACE FUNCTION public.release_certificate_number(p_organization_id uuid, p_certificate_number text)
+RETURNS void
+LANGUAGE sql
+AS $$
+  INSERT INTO certificate_number_released (organization_id, prefix, value)
+  SELECT s.organization_id, s.prefix, n.value
+  FROM (
+    SELECT
+      regexp_replace(p_certificate_number, '[0-9]+$', '') AS prefix,
+      substring(p_certificate_number from '([0-9]{1,18})$')::bigint AS value
+    WHERE p_certificate_number ~ '(^|[^0-9])[0-9]{1,18}$'
+  ) n
+  JOIN certificate_number_sequences s
+    ON s.organization_id = p_organization_id AND s.prefix = n.prefix AND n.value <= s.last_value
+  WHERE NOT EXISTS (
+    SELECT 1 FROM certificates c
+    WHERE c.organization_id = p_organization_id AND c.certificate_number = p_certificate_number
+  )
+  ON CONFLICT DO NOTHING;
+$$;
+
+-- ============================================================================
+-- 5. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON TABLE certificate_number_schemes IS 'Certificate number patterns: organization default (category_id NULL) and per-category overrides';
+COMMENT ON COLUMN certificate_number_schemes.pattern IS 'Tokens {ORG}, {YYYY}, {YY}, {MM} and a final {SEQ} or {SEQ:n} (zero-padded to n digits)';
+COMMENT ON COLUMN certificate_number_schemes.org_code IS 'Value of {ORG}: uppercase letters and digits';
+COMMENT ON TABLE certificate_number_sequences IS 'Last value handed out per organization and rendered prefix (text before {SEQ})';
+COMMENT ON TABLE certificate_number_released IS 'Values taken by certificates that were not issued, reused before the sequence advances';
+COMMENT ON FUNCTION next_certificate_sequence IS 'Next gap-free sequence value for an organization and number prefix';
+COMMENT ON FUNCTION release_certificate_number IS 'Returns an unused certificate number to its sequence';
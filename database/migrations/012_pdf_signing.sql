@@ -0,0 +1,46 @@
+-- Migration: 012_pdf_signing
+-- Description: Organization signing certificates (PKCS#12 keystores) for PAdES-signed certificate PDFs
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. CREATE organization_signing_keystores TABLE
+-- ============================================================================
+-- One active keystore per organization. The PKCS#12 bytes and their password
+-- are encrypted by the API (AES-256-GCM, PDF_SIGNING_ENCRYPTION_KEY) before
+-- they are stored; certificate details are kept in clear for display.
+-- Organizations without a keystore are signed with the platform keystore,
+-- when one is configured.
+
+CREATE TABLE IF NOT EXISTS organization_signing_keystores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  keystore_encrypted TEXT NOT NULL,
+  password_encrypted TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  issuer TEXT NOT NULL,
+  serial_number TEXT NOT NULL,
+  not_before TIMESTAMPTZ NOT NULL,
+  not_after TIMESTAMPTZ NOT NULL,
+  fingerprint_sha256 TEXT NOT NULL,
+  created_by_user_id UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMPTZ
+);
+
+-- Query pattern: WHERE organization_id = ? AND deleted_at IS NULL
+-- Also ensures one active keystore per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signing_keystores_org_active
+  ON organization_signing_keystores(organization_id)
+  WHERE deleted_at IS NULL;
+
+-- Key material is only read by the API (service role); no member policies
+ALTER TABLE organization_signing_keystores ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON TABLE organization_signing_keystores IS 'Organization X.509 signing certificates used to sign generated certificate PDFs (PAdES)';
+COMMENT ON COLUMN organization_signing_keystores.keystore_encrypted IS 'PKCS#12 keystore, AES-256-GCM encrypted (iv || tag || ciphertext, base64)';
+COMMENT ON COLUMN organization_signing_keystores.password_encrypted IS 'Keystore password, encrypted like keystore_encrypted';
+COMMENT ON COLUMN organization_signing_keystores.not_after IS 'Signing certificate expiry; generation fails once it has passed';
@@ -0,0 +1,55 @@
+-- Migration: 013_verifiable_credentials
+-- Description: Open Badges 3.0 verifiable credentials for certificates, signed with organization keys
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. CREATE organization_credential_keys TABLE
+-- ============================================================================
+-- Ed25519 keys signing the organization's credentials (VC-JWT). Keys are
+-- created by the API on first issuance; rotating retires the active key.
+-- Retired keys stay published in the organization's DID document so that
+-- credentials they signed still verify. Private keys are encrypted by the API
+-- (AES-256-GCM, CREDENTIALS_ENCRYPTION_KEY).
+
+CREATE TABLE IF NOT EXISTS organization_credential_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  key_id TEXT NOT NULL CHECK (key_id ~ '^[A-Za-z0-9_-]{1,64}$'),
+  algorithm TEXT NOT NULL DEFAULT 'EdDSA' CHECK (algorithm IN ('EdDSA')),
+  public_jwk JSONB NOT NULL,
+  private_key_encrypted TEXT NOT NULL,
+  created_by_user_id UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  retired_at TIMESTAMPTZ
+);
+
+-- Key IDs are the DID URL fragments (did:web:...#<key_id>)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credential_keys_org_key_id
+  ON organization_credential_keys(organization_id, key_id);
+
+-- Query pattern: WHERE organization_id = ? AND retired_at IS NULL
+-- Also ensures one active key per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credential_keys_org_active
+  ON organization_credential_keys(organization_id)
+  WHERE retired_at IS NULL;
+
+-- Key material is only read by the API (service role); no member policies
+ALTER TABLE organization_credential_keys ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. ADD credential_jwt TO certificates
+-- ============================================================================
+-- Issued with the certificate; NULL for certificates issued before
+-- credentials were enabled.
+
+ALTER TABLE certificates
+  ADD COLUMN IF NOT EXISTS credential_jwt TEXT;
+
+-- ============================================================================
+-- 3. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON TABLE organization_credential_keys IS 'Organization keys signing Open Badges 3.0 verifiable credentials, published under /api/v1/issuers/:organization_id/did.json';
+COMMENT ON COLUMN organization_credential_keys.private_key_encrypted IS 'PKCS#8 private key, AES-256-GCM encrypted (iv || tag || ciphertext, base64)';
+COMMENT ON COLUMN organization_credential_keys.retired_at IS 'Set on rotation; retired keys verify existing credentials but sign no new ones';
+COMMENT ON COLUMN certificates.credential_jwt IS 'Open Badges 3.0 credential (VC-JWT) issued with the certificate';
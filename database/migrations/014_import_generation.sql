@@ -0,0 +1,26 @@
+-- Migration: 014_import_generation
+-- Description: Link import jobs to the generation job issuing certificates from their stored rows
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. ADD generation_job_id TO file_import_jobs
+-- ============================================================================
+-- Set by POST /import-jobs/:id/generate. An import can be generated again;
+-- the column then points at the latest generation job, and success_count /
+-- failed_count report that job's outcome.
+
+ALTER TABLE file_import_jobs
+  ADD COLUMN IF NOT EXISTS generation_job_id UUID REFERENCES certificate_generation_jobs(id) ON DELETE SET NULL;
+
+-- Query pattern: UPDATE file_import_jobs ... WHERE generation_job_id = ? (job completion)
+CREATE INDEX IF NOT EXISTS idx_file_import_jobs_generation_job
+  ON file_import_jobs(generation_job_id)
+  WHERE generation_job_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON COLUMN file_import_jobs.generation_job_id IS 'Latest generation job issuing certificates from this import''s stored rows';
+COMMENT ON COLUMN file_import_jobs.success_count IS 'Certificates issued by the latest generation job';
+COMMENT ON COLUMN file_import_jobs.failed_count IS 'Rows that failed in the latest generation job';
@@ -0,0 +1,19 @@
+-- Migration: 015_certificate_file_checksums
+-- Description: Look up certificate files by SHA-256 for verification by upload
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. INDEX files.checksum_sha256 FOR CERTIFICATE FILES
+-- ============================================================================
+-- POST /verification/verify-file hashes the uploaded file and looks for the
+-- certificate file with that checksum.
+-- Query pattern: WHERE checksum_sha256 = ? AND kind = 'certificate_pdf'
+
+CREATE INDEX IF NOT EXISTS idx_files_certificate_checksum
+  ON files(checksum_sha256)
+  WHERE kind = 'certificate_pdf';
+
+-- Query pattern: WHERE certificate_file_id IN (...)
+CREATE INDEX IF NOT EXISTS idx_certificates_certificate_file
+  ON certificates(certificate_file_id)
+  WHERE certificate_file_id IS NOT NULL;
@@ -0,0 +1,29 @@
+-- Migration: 016_verification_methods
+-- Description: Record how each certificate was verified (token, credential, file, certificate number)
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. ADD method TO certificate_verification_events
+-- ============================================================================
+-- Existing rows were all verified by token (QR code / verification URL).
+-- Lookups by certificate number are also logged when the second factor
+-- (recipient last name or date of birth) does not match, with result
+-- 'second_factor_mismatch', so repeated guessing shows up per certificate.
+
+ALTER TABLE certificate_verification_events
+  ADD COLUMN IF NOT EXISTS method TEXT NOT NULL DEFAULT 'token'
+    CHECK (method IN ('token', 'credential', 'file', 'certificate_number'));
+
+-- ============================================================================
+-- 2. INDEX certificates.certificate_number FOR PUBLIC LOOKUPS
+-- ============================================================================
+-- Query pattern: WHERE certificate_number = ? (across organizations)
+
+CREATE INDEX IF NOT EXISTS idx_certificates_certificate_number
+  ON certificates(certificate_number);
+
+-- ============================================================================
+-- 3. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON COLUMN certificate_verification_events.method IS 'How the certificate was verified: token, credential, file or certificate_number';
@@ -0,0 +1,70 @@
+-- Migration: 017_bulk_verification
+-- Description: Bulk certificate verification jobs for API clients, and verifier attribution on verification events
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. CREATE bulk_verification_jobs
+-- ============================================================================
+-- Batches too large to answer in the request are queued here and processed by
+-- the bulk verification worker. items holds the submitted tokens / certificate
+-- numbers, results the outcome of each item processed so far (a resumed job
+-- continues after them); the finished report is a CSV in storage (report_path).
+-- updated_at doubles as the worker heartbeat (stale running jobs are resumed).
+
+CREATE TABLE IF NOT EXISTS bulk_verification_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  application_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  items JSONB NOT NULL,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total_count INTEGER NOT NULL CHECK (total_count > 0),
+  processed_count INTEGER NOT NULL DEFAULT 0,
+  valid_count INTEGER NOT NULL DEFAULT 0,
+  report_path TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+-- Query pattern: worker polling for the oldest queued job
+CREATE INDEX IF NOT EXISTS idx_bulk_verification_jobs_queued
+  ON bulk_verification_jobs(created_at)
+  WHERE status = 'queued';
+
+-- Query pattern: stale running jobs (WHERE status = 'running' AND updated_at < ?)
+CREATE INDEX IF NOT EXISTS idx_bulk_verification_jobs_running
+  ON bulk_verification_jobs(updated_at)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_bulk_verification_jobs_organization
+  ON bulk_verification_jobs(organization_id, created_at DESC);
+
+-- ============================================================================
+-- 2. ATTRIBUTE verification events TO the verifying organization
+-- ============================================================================
+-- Events stay owned by the certificate's organization (organization_id); bulk
+-- verification also records which API client asked, and the job it ran in.
+
+ALTER TABLE certificate_verification_events
+  ADD COLUMN IF NOT EXISTS verifier_organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS bulk_verification_job_id UUID REFERENCES bulk_verification_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_verification_events_verifier_organization
+  ON certificate_verification_events(verifier_organization_id)
+  WHERE verifier_organization_id IS NOT NULL;
+
+-- ============================================================================
+-- 3. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON TABLE bulk_verification_jobs IS 'Queued bulk certificate verifications submitted with an API key';
+COMMENT ON COLUMN bulk_verification_jobs.application_id IS 'Application ID of the API key that submitted the job';
+COMMENT ON COLUMN bulk_verification_jobs.items IS 'Submitted items: { token } or { certificate_number, last_name | date_of_birth }, each with an optional reference';
+COMMENT ON COLUMN bulk_verification_jobs.results IS 'Results of the items processed so far, in submission order; saved after every item';
+COMMENT ON COLUMN bulk_verification_jobs.report_path IS 'Storage path of the CSV report (exports/<organization_id>/verifications/<job_id>.csv)';
+COMMENT ON COLUMN certificate_verification_events.verifier_organization_id IS 'Organization whose API key requested the verification (bulk verification only)';
+COMMENT ON COLUMN certificate_verification_events.bulk_verification_job_id IS 'Bulk verification job the event was recorded in (queued batches only)';
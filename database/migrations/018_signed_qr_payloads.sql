@@ -0,0 +1,25 @@
+-- Migration: 018_signed_qr_payloads
+-- Description: Offline-verifiable signed QR payloads (generation option signed_qr)
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. ALLOW method 'signed_qr' ON certificate_verification_events
+-- ============================================================================
+-- Signed QR payloads are checked against the organization credential keys
+-- (organization_credential_keys, published at /api/v1/issuers/:id/jwks.json)
+-- and can also be submitted online to POST /api/v1/verification/verify.
+-- Payload lookups use idx_certificates_org_number (organization_id, certificate_number).
+
+ALTER TABLE certificate_verification_events
+  DROP CONSTRAINT IF EXISTS certificate_verification_events_method_check;
+
+ALTER TABLE certificate_verification_events
+  ADD CONSTRAINT certificate_verification_events_method_check
+    CHECK (method IN ('token', 'credential', 'file', 'certificate_number', 'signed_qr'));
+
+-- ============================================================================
+-- 2. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON COLUMN certificate_verification_events.method IS 'How the certificate was verified: token, credential, file, certificate_number or signed_qr';
+COMMENT ON COLUMN certificates.qr_payload_url IS 'QR code content: the verification URL, followed by #<signed payload> when generated with signed_qr';
@@ -0,0 +1,73 @@
+-- Migration: 019_certificate_status_feed
+-- Description: Track when certificates are revoked, reinstated or reissued, for the public revocation feed
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. ADD status_changed_at TO certificates
+-- ============================================================================
+-- Set whenever a certificate enters or leaves 'revoked' / 'reissued'
+-- (revocation, reinstatement, reissue). Expiry is not tracked: relying parties
+-- already have expires_at. NULL for certificates whose status never changed.
+
+ALTER TABLE certificates
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+-- Backfill: revoked certificates changed when they were revoked, reissued
+-- certificates when their replacement was created
+UPDATE certificates
+SET status_changed_at = revoked_at
+WHERE status = 'revoked'
+  AND status_changed_at IS NULL;
+
+UPDATE certificates AS original
+SET status_changed_at = replacement.created_at
+FROM certificates AS replacement
+WHERE replacement.reissued_from_certificate_id = original.id
+  AND original.status = 'reissued'
+  AND original.status_changed_at IS NULL;
+
+UPDATE certificates
+SET status_changed_at = NOW()
+WHERE status IN ('revoked', 'reissued')
+  AND status_changed_at IS NULL;
+
+-- ============================================================================
+-- 2. CREATE TRIGGER maintaining status_changed_at
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_certificate_status_changed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND (NEW.status IN ('revoked', 'reissued') OR OLD.status IN ('revoked', 'reissued')) THEN
+    NEW.status_changed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_certificates_status_changed_at ON certificates;
+
+CREATE TRIGGER trg_certificates_status_changed_at
+  BEFORE UPDATE OF status ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_certificate_status_changed_at();
+
+-- ============================================================================
+-- 3. INDEX FOR THE FEED
+-- ============================================================================
+-- Query pattern: WHERE organization_id = ? AND status_changed_at >= ?
+--                ORDER BY status_changed_at, id (keyset pagination)
+
+CREATE INDEX IF NOT EXISTS idx_certificates_status_changed
+  ON certificates(organization_id, status_changed_at, id)
+  WHERE status_changed_at IS NOT NULL;
+
+-- ============================================================================
+-- 4. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON COLUMN certificates.status_changed_at IS 'Last revocation, reinstatement or reissue; published in /api/v1/issuers/:organization_id/revocations';
@@ -0,0 +1,36 @@
+-- Migration: 020_generation_job_ownership
+-- Description: Claim generation job recipients before rendering them, so a reclaimed job is never processed twice,
+--              and let time-limited workers hand a job on between recipients
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. ALLOW recipient status 'processing'
+-- ============================================================================
+-- The worker claims each recipient ('pending' → 'processing') before rendering
+-- it, and only while it still holds the job (its last heartbeat is the job's
+-- updated_at). A worker that reclaims a stale job returns the previous
+-- holder's 'processing' recipients to 'pending' before resuming.
+
+ALTER TABLE generation_job_recipients
+  DROP CONSTRAINT IF EXISTS generation_job_recipients_status_check;
+
+ALTER TABLE generation_job_recipients
+  ADD CONSTRAINT generation_job_recipients_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed'));
+
+-- ============================================================================
+-- 2. ADD yielded_at TO certificate_generation_jobs
+-- ============================================================================
+-- Set when a worker with a time limit (GET /api/v1/cron/jobs) stops between
+-- recipients. The job stays 'running' with a fresh heartbeat, and the next
+-- worker poll resumes it at once instead of waiting for it to go stale.
+
+ALTER TABLE certificate_generation_jobs
+  ADD COLUMN IF NOT EXISTS yielded_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- 3. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON COLUMN generation_job_recipients.status IS 'Processing state: pending = not yet rendered, processing = claimed by the worker, completed = certificate issued, failed = see error';
+COMMENT ON COLUMN certificate_generation_jobs.yielded_at IS 'Set when a time-limited worker stopped between recipients; the job is resumed by the next worker poll';
@@ -0,0 +1,36 @@
+-- Migration: 021_certificate_expiry_function
+-- Description: Expire certificates with a single set-based update, so the expiry sweeper no longer sends the
+--              IDs of a whole batch back in the request URL
+-- Date: 2026-10-19
+
+-- ============================================================================
+-- 1. CREATE expire_certificates FUNCTION
+-- ============================================================================
+-- Marks up to p_limit issued certificates whose expires_at is before
+-- p_expired_before as expired, oldest first. Rows locked by a concurrent
+-- revoke or reissue are skipped and picked up by the next batch.
+
+CREATE OR REPLACE FUNCTION public.expire_certificates(p_expired_before timestamptz, p_limit integer)
+RETURNS TABLE(id uuid, organization_id uuid)
+LANGUAGE sql
+AS $$
+  UPDATE certificates c
+  SET status = 'expired'
+  WHERE c.id IN (
+    SELECT due.id
+    FROM certificates due
+    WHERE due.status = 'issued'
+      AND due.expires_at < p_expired_before
+    ORDER BY due.expires_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+    AND c.status = 'issued'
+  RETURNING c.id, c.organization_id;
+$$;
+
+-- ============================================================================
+-- 2. ADD comments for documentation
+-- ============================================================================
+
+COMMENT ON FUNCTION expire_certificates IS 'Marks up to p_limit issued certificates that expired before p_expired_before as expired (used by the expiry sweeper)';
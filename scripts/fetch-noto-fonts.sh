@@ -0,0 +1,49 @@
+#!/usr/bin/env sh
+# Download the Noto fallback fonts used for characters the certificate field
+# font lacks (see FALLBACK_FONT_FILES in src/domains/certificates/fonts.ts).
+#
+# Usage: scripts/fetch-noto-fonts.sh [target-dir]   (default: assets/fonts/noto)
+# Fonts are licensed under the SIL Open Font License 1.1.
+
+set -eu
+
+TARGET_DIR="${1:-${FONT_FALLBACK_DIR:-assets/fonts/noto}}"
+NOTO_BASE="https://github.com/notofonts/notofonts.github.io/raw/main/fonts"
+CJK_BASE="https://github.com/notofonts/noto-cjk/raw/main/Sans/SubsetOTF"
+
+mkdir -p "$TARGET_DIR"
+
+fetch() {
+  url="$1"
+  file="$TARGET_DIR/$(basename "$url")"
+
+  if [ -s "$file" ]; then
+    echo "exists  $file"
+    return
+  fi
+
+  echo "fetch   $file"
+  curl -fsSL --retry 3 -o "$file.tmp" "$url"
+  mv "$file.tmp" "$file"
+}
+
+for family in \
+  NotoSans \
+  NotoSansDevanagari \
+  NotoSansBengali \
+  NotoSansTamil \
+  NotoSansTelugu \
+  NotoSansKannada \
+  NotoSansMalayalam \
+  NotoSansGujarati \
+  NotoSansGurmukhi \
+  NotoSansOriya \
+  NotoSansArabic \
+  NotoSansHebrew \
+  NotoSansThai
+do
+  fetch "$NOTO_BASE/$family/hinted/ttf/$family-Regular.ttf"
+done
+
+fetch "$CJK_BASE/SC/NotoSansSC-Regular.otf"
+fetch "$CJK_BASE/KR/NotoSansKR-Regular.otf"
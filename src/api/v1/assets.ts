@@ -0,0 +1,123 @@
+/**
+ * ASSETS API
+ *
+ * RESTful API endpoints for organization image assets (signatures, logos).
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import type { FastifyRequest } from 'fastify';
+import { authMiddleware } from '../../lib/auth/middleware.js';
+import { contextMiddleware } from '../../lib/middleware/context.js';
+import { AssetRepository } from '../../domains/assets/repository.js';
+import { AssetService } from '../../domains/assets/service.js';
+import { uuidSchema } from '../../lib/utils/validation.js';
+import { sendSuccess, sendError } from '../../lib/utils/response.js';
+import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { uploadRateLimitConfig } from '../../lib/security/rate-limit-presets.js';
+import { config } from '../../lib/config/env.js';
+
+/**
+ * Register asset routes
+ */
+export async function registerAssetRoutes(app: FastifyInstance): Promise<void> {
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', contextMiddleware);
+
+  /**
+   * GET /api/v1/assets
+   * List the organization's image assets
+   */
+  app.get(
+    '/assets',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const service = new AssetService(new AssetRepository(getSupabaseClient()));
+
+        const assets = await service.list(request.context!.organizationId);
+
+        sendSuccess(reply, assets);
+      } catch (error) {
+        request.log.error(error, 'Failed to list assets');
+        sendError(reply, 'INTERNAL_ERROR', 'Failed to list assets', 500);
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/assets
+   * Upload a PNG/JPEG/WebP image asset
+   *
+   * Request: multipart/form-data with a single file
+   */
+  app.post(
+    '/assets',
+    {
+      config: {
+        rateLimit: config.RATE_LIMIT_ENABLED ? uploadRateLimitConfig : false,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const data = await request.file();
+
+        if (!data) {
+          sendError(reply, 'VALIDATION_ERROR', 'File is required', 400);
+          return;
+        }
+
+        const buffer = await data.toBuffer();
+
+        const service = new AssetService(new AssetRepository(getSupabaseClient()));
+
+        const asset = await service.upload(
+          request.context!.organizationId,
+          request.context!.userId,
+          {
+            buffer,
+            mimetype: data.mimetype ?? 'application/octet-stream',
+            originalname: data.filename ?? 'asset',
+          }
+        );
+
+        sendSuccess(reply, asset, 201);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else {
+          request.log.error(error, 'Failed to upload asset');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to upload asset', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/assets/:id
+   * Delete an image asset
+   */
+  app.delete(
+    '/assets/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+
+        const service = new AssetService(new AssetRepository(getSupabaseClient()));
+
+        await service.delete(id, request.context!.organizationId);
+
+        sendSuccess(reply, { id, deleted: true });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to delete asset');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to delete asset', 500);
+        }
+      }
+    }
+  );
+}
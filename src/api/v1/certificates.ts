@@ -1,7 +1,8 @@
 /**
  * CERTIFICATES API
  *
- * RESTful API endpoints for certificate generation.
+ * RESTful API endpoints for the certificate registry, certificate generation
+ * and generation jobs.
  */
 
 import type { FastifyInstance, FastifyReply } from 'fastify';
@@ -10,11 +11,23 @@ import { authMiddleware } from '../../lib/auth/middleware.js';
 import { contextMiddleware } from '../../lib/middleware/context.js';
 import { idempotencyPreHandler } from '../../lib/middleware/idempotency.js';
 import { TemplateRepository } from '../../domains/templates/repository.js';
+import { CertificateRepository } from '../../domains/certificates/repository.js';
 import { CertificateService } from '../../domains/certificates/service.js';
-import { generateCertificatesSchema } from '../../domains/certificates/types.js';
-import { sendSuccess, sendError } from '../../lib/utils/response.js';
+import { CredentialRepository } from '../../domains/credentials/repository.js';
+import { CredentialService } from '../../domains/credentials/service.js';
+import {
+  generateCertificatesSchema,
+  validateGenerationSchema,
+  listCertificatesQuerySchema,
+  listGenerationJobsQuerySchema,
+  revokeCertificateSchema,
+  bulkRevokeCertificatesSchema,
+  reissueCertificateSchema,
+} from '../../domains/certificates/types.js';
+import { parsePagination, uuidSchema } from '../../lib/utils/validation.js';
+import { sendSuccess, sendPaginated, sendError } from '../../lib/utils/response.js';
 import { getSupabaseClient } from '../../lib/supabase/client.js';
-import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../lib/errors/handler.js';
 
 /**
  * Register certificate routes
@@ -24,6 +37,51 @@ export async function registerCertificateRoutes(app: FastifyInstance): Promise<v
   app.addHook('preHandler', authMiddleware);
   app.addHook('preHandler', contextMiddleware);
 
+  /**
+   * GET /api/v1/certificates
+   * List issued certificates
+   * Filters: status, template_id, category_id, subcategory_id, job_id,
+   * issued_from/issued_to, expires_from/expires_to; search matches recipient
+   * name, email and certificate number
+   */
+  app.get(
+    '/certificates',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { page, limit, sort_order } = parsePagination(request.query);
+        const query = listCertificatesQuerySchema.parse(request.query);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const { certificates, total } = await certificateService.listCertificates(
+          request.context!.organizationId,
+          query,
+          { page, limit, sortOrder: sort_order }
+        );
+
+        sendPaginated(reply, {
+          items: certificates,
+          pagination: {
+            page: page ?? 1,
+            limit: limit ?? 20,
+            total,
+            total_pages: Math.ceil(total / (limit ?? 20)),
+          },
+        });
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to list certificates');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to list certificates', 500);
+        }
+      }
+    }
+  );
+
   /**
    * POST /api/v1/certificates/generate
    * Generate certificates from template and data
@@ -39,7 +97,10 @@ export async function registerCertificateRoutes(app: FastifyInstance): Promise<v
         const body = generateCertificatesSchema.parse(request.body);
 
         const templateRepository = new TemplateRepository(getSupabaseClient());
-        const certificateService = new CertificateService(templateRepository);
+        const certificateService = new CertificateService(
+          templateRepository,
+          new CertificateRepository(getSupabaseClient())
+        );
 
         const appUrl = process.env.APP_URL ?? process.env.FRONTEND_URL ?? 'http://localhost:3001';
 
@@ -50,8 +111,8 @@ export async function registerCertificateRoutes(app: FastifyInstance): Promise<v
           appUrl
         );
 
-        if (result.status === 'pending' && result.job_id) {
-          // Async job - return 202 Accepted
+        if (result.status === 'queued' && result.job_id) {
+          // Async job (processed by the generation worker) - return 202 Accepted
           sendSuccess(reply, result, 202);
         } else {
           // Synchronous completion - return 200 OK
@@ -71,4 +132,441 @@ export async function registerCertificateRoutes(app: FastifyInstance): Promise<v
       }
     }
   );
+
+  /**
+   * POST /api/v1/certificates/generate/validate
+   * Dry run of POST /certificates/generate: per-row problems and rendered samples
+   * Nothing is stored and no certificate numbers are taken.
+   */
+  app.post(
+    '/certificates/generate/validate',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const body = validateGenerationSchema.parse(request.body);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const appUrl = process.env.APP_URL ?? process.env.FRONTEND_URL ?? 'http://localhost:3001';
+
+        const result = await certificateService.validateGeneration(
+          request.context!.organizationId,
+          body,
+          appUrl
+        );
+
+        sendSuccess(reply, result);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to validate certificate generation');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to validate certificate generation', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/certificates/jobs
+   * List generation jobs with progress counters
+   */
+  app.get(
+    '/certificates/jobs',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { page, limit } = parsePagination(request.query);
+        const { status } = listGenerationJobsQuerySchema.parse(request.query);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const { jobs, total } = await certificateService.listJobs(request.context!.organizationId, {
+          status,
+          page,
+          limit,
+        });
+
+        sendPaginated(reply, {
+          items: jobs,
+          pagination: {
+            page: page ?? 1,
+            limit: limit ?? 20,
+            total,
+            total_pages: Math.ceil(total / (limit ?? 20)),
+          },
+        });
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to list generation jobs');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to list generation jobs', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/certificates/jobs/:id
+   * Get generation job status, progress and per-recipient errors
+   */
+  app.get(
+    '/certificates/jobs/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const job = await certificateService.getJob(id, request.context!.organizationId);
+
+        sendSuccess(reply, job);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid job ID', 400);
+        } else {
+          request.log.error(error, 'Failed to get generation job');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to get generation job', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/certificates/jobs/:id/download
+   * Get a signed URL for the job's certificate ZIP
+   * Only available once the job has completed
+   */
+  app.get(
+    '/certificates/jobs/:id/download',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const download = await certificateService.getJobDownload(
+          id,
+          request.context!.organizationId
+        );
+
+        sendSuccess(reply, download);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid job ID', 400);
+        } else if (error instanceof ConflictError) {
+          sendError(reply, (error.details?.code as string) || 'CONFLICT', error.message, 409, error.details);
+        } else {
+          request.log.error(error, 'Failed to get generation job download');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to get generation job download', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/certificates/jobs/:id/cancel
+   * Cancel a queued or running generation job
+   * Running jobs stop before their next recipient; issued certificates are kept
+   */
+  app.post(
+    '/certificates/jobs/:id/cancel',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const job = await certificateService.cancelJob(id, request.context!.organizationId);
+
+        sendSuccess(reply, job);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid job ID', 400);
+        } else if (error instanceof ConflictError) {
+          sendError(reply, (error.details?.code as string) || 'CONFLICT', error.message, 409, error.details);
+        } else {
+          request.log.error(error, 'Failed to cancel generation job');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to cancel generation job', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/certificates/jobs/:id/retry
+   * Re-queue a finished generation job, re-rendering only its failed recipients
+   * A repeated request gets 409 once the job is queued again
+   */
+  app.post(
+    '/certificates/jobs/:id/retry',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const job = await certificateService.retryJob(id, request.context!.organizationId);
+
+        // Processed by the generation worker - return 202 Accepted
+        sendSuccess(reply, job, 202);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid job ID', 400);
+        } else if (error instanceof ConflictError) {
+          sendError(reply, (error.details?.code as string) || 'CONFLICT', error.message, 409, error.details);
+        } else {
+          request.log.error(error, 'Failed to retry generation job');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to retry generation job', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/certificates/:id
+   * Get certificate by ID with signed PDF and preview URLs
+   */
+  app.get(
+    '/certificates/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const certificate = await certificateService.getCertificate(id, request.context!.organizationId);
+
+        sendSuccess(reply, certificate);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid certificate ID', 400);
+        } else {
+          request.log.error(error, 'Failed to get certificate');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to get certificate', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/certificates/:id/credential
+   * Download the certificate's Open Badges 3.0 credential (VC-JWT)
+   */
+  app.get(
+    '/certificates/:id/credential',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+
+        const service = new CredentialService(new CredentialRepository(getSupabaseClient()));
+
+        const credential = await service.getCertificateCredential(id, request.context!.organizationId);
+
+        reply
+          .type('application/vc+jwt')
+          .header('Content-Disposition', `attachment; filename="credential-${id}.jwt"`)
+          .send(credential);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid certificate ID', 400);
+        } else {
+          request.log.error(error, 'Failed to get certificate credential');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to get certificate credential', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/certificates/bulk-revoke
+   * Revoke certificates by ID list or by generation job (reason required)
+   */
+  app.post(
+    '/certificates/bulk-revoke',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const body = bulkRevokeCertificatesSchema.parse(request.body);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const result = await certificateService.bulkRevokeCertificates(
+          request.context!.organizationId,
+          request.context!.userId,
+          body
+        );
+
+        sendSuccess(reply, result);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to bulk revoke certificates');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to revoke certificates', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/certificates/:id/revoke
+   * Revoke a certificate (reason required)
+   */
+  app.post(
+    '/certificates/:id/revoke',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+        const body = revokeCertificateSchema.parse(request.body);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const certificate = await certificateService.revokeCertificate(
+          id,
+          request.context!.organizationId,
+          request.context!.userId,
+          body.reason
+        );
+
+        sendSuccess(reply, certificate);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ConflictError) {
+          sendError(reply, (error.details?.code as string) || 'CONFLICT', error.message, 409, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to revoke certificate');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to revoke certificate', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/certificates/:id/reinstate
+   * Undo a revocation
+   */
+  app.post(
+    '/certificates/:id/reinstate',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const certificate = await certificateService.reinstateCertificate(
+          id,
+          request.context!.organizationId,
+          request.context!.userId
+        );
+
+        sendSuccess(reply, certificate);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ConflictError) {
+          sendError(reply, (error.details?.code as string) || 'CONFLICT', error.message, 409, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to reinstate certificate');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to reinstate certificate', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/certificates/:id/reissue
+   * Replace a certificate with a corrected one (e.g. misspelled name)
+   * The original is marked 'reissued' and its verification resolves to the replacement
+   */
+  app.post(
+    '/certificates/:id/reissue',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+        const body = reissueCertificateSchema.parse(request.body);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const appUrl = process.env.APP_URL ?? process.env.FRONTEND_URL ?? 'http://localhost:3001';
+
+        const certificate = await certificateService.reissueCertificate(
+          id,
+          request.context!.organizationId,
+          request.context!.userId,
+          body,
+          appUrl
+        );
+
+        sendSuccess(reply, certificate, 201);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ConflictError) {
+          sendError(reply, (error.details?.code as string) || 'CONFLICT', error.message, 409, error.details);
+        } else if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to reissue certificate');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to reissue certificate', 500);
+        }
+      }
+    }
+  );
 }
@@ -0,0 +1,73 @@
+/**
+ * CREDENTIAL KEYS API
+ *
+ * RESTful API endpoints for the keys signing the organization's verifiable credentials.
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import type { FastifyRequest } from 'fastify';
+import { authMiddleware } from '../../lib/auth/middleware.js';
+import { contextMiddleware } from '../../lib/middleware/context.js';
+import { CredentialRepository } from '../../domains/credentials/repository.js';
+import { CredentialService } from '../../domains/credentials/service.js';
+import { sendSuccess, sendError } from '../../lib/utils/response.js';
+import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { ValidationError } from '../../lib/errors/handler.js';
+
+/**
+ * Register credential key routes
+ */
+export async function registerCredentialRoutes(app: FastifyInstance): Promise<void> {
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', contextMiddleware);
+
+  /**
+   * GET /api/v1/credential-keys
+   * List the organization's credential signing keys (public keys only)
+   */
+  app.get(
+    '/credential-keys',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const service = new CredentialService(new CredentialRepository(getSupabaseClient()));
+
+        const keys = await service.listKeys(request.context!.organizationId);
+
+        sendSuccess(reply, keys);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else {
+          request.log.error(error, 'Failed to list credential keys');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to list credential keys', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/credential-keys/rotate
+   * Retire the active signing key and create a new one
+   * Credentials signed with retired keys keep verifying.
+   */
+  app.post(
+    '/credential-keys/rotate',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const service = new CredentialService(new CredentialRepository(getSupabaseClient()));
+
+        const key = await service.rotateKey(request.context!.organizationId, request.context!.userId);
+
+        sendSuccess(reply, key, 201);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else {
+          request.log.error(error, 'Failed to rotate credential key');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to rotate credential key', 500);
+        }
+      }
+    }
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * CRON API
+ *
+ * Scheduled job endpoints for serverless deployments (Vercel), where the
+ * background workers started by index.ts never run. vercel.json schedules
+ * them; each call does the work of one worker poll cycle.
+ *
+ * Protected by CRON_SECRET ("Authorization: Bearer <CRON_SECRET>", as Vercel
+ * Cron sends it); without it the endpoints are disabled.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { runGenerationWorkerOnce } from '../../jobs/generation-worker.js';
+import { runBulkVerificationWorkerOnce } from '../../jobs/bulk-verification-worker.js';
+import { runExpirySweepOnce } from '../../jobs/expiry-sweeper.js';
+import { sendSuccess, sendError } from '../../lib/utils/response.js';
+import { config } from '../../lib/config/env.js';
+
+/**
+ * Register cron routes
+ */
+export async function registerCronRoutes(app: FastifyInstance): Promise<void> {
+  app.addHook('preHandler', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!config.CRON_SECRET) {
+      sendError(reply, 'NOT_FOUND', 'Scheduled jobs are not enabled', 404);
+      return reply;
+    }
+
+    if (!isCronSecret(request.headers.authorization, config.CRON_SECRET)) {
+      sendError(reply, 'UNAUTHORIZED', 'Invalid cron secret', 401);
+      return reply;
+    }
+  });
+
+  /**
+   * GET /api/v1/cron/jobs
+   * Process queued generation and bulk verification jobs for up to CRON_TIME_BUDGET seconds
+   *
+   * Generation jobs stop between recipients at the deadline and are resumed
+   * by the next call.
+   */
+  app.get(
+    '/cron/jobs',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const deadline = Date.now() + config.CRON_TIME_BUDGET * 1000;
+        let generationJobs = 0;
+        let bulkVerificationJobs = 0;
+
+        while (Date.now() < deadline) {
+          if (await runGenerationWorkerOnce(request.log, deadline)) {
+            generationJobs++;
+          } else if (await runBulkVerificationWorkerOnce(request.log)) {
+            bulkVerificationJobs++;
+          } else {
+            break;
+          }
+        }
+
+        sendSuccess(reply, { generation_jobs: generationJobs, bulk_verification_jobs: bulkVerificationJobs });
+      } catch (error) {
+        request.log.error(error, 'Failed to process scheduled jobs');
+        sendError(reply, 'INTERNAL_ERROR', 'Failed to process scheduled jobs', 500);
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/cron/expiry-sweep
+   * Run one certificate expiry sweep
+   */
+  app.get(
+    '/cron/expiry-sweep',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        await runExpirySweepOnce(request.log);
+
+        sendSuccess(reply, { swept: true });
+      } catch (error) {
+        request.log.error(error, 'Failed to run expiry sweep');
+        sendError(reply, 'INTERNAL_ERROR', 'Failed to run expiry sweep', 500);
+      }
+    }
+  );
+}
+
+function isCronSecret(authorization: string | undefined, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const provided = Buffer.from(authorization ?? '');
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
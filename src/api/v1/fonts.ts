@@ -0,0 +1,143 @@
+/**
+ * FONTS API
+ *
+ * RESTful API endpoints for the organization font library.
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import type { FastifyRequest } from 'fastify';
+import { authMiddleware } from '../../lib/auth/middleware.js';
+import { contextMiddleware } from '../../lib/middleware/context.js';
+import { FontRepository } from '../../domains/fonts/repository.js';
+import { FontService } from '../../domains/fonts/service.js';
+import { uploadFontSchema } from '../../domains/fonts/types.js';
+import { uuidSchema } from '../../lib/utils/validation.js';
+import { sendSuccess, sendError } from '../../lib/utils/response.js';
+import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { uploadRateLimitConfig } from '../../lib/security/rate-limit-presets.js';
+import { config } from '../../lib/config/env.js';
+
+/**
+ * Register font routes
+ */
+export async function registerFontRoutes(app: FastifyInstance): Promise<void> {
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', contextMiddleware);
+
+  /**
+   * GET /api/v1/fonts
+   * List the organization's fonts
+   */
+  app.get(
+    '/fonts',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const service = new FontService(new FontRepository(getSupabaseClient()));
+
+        const fonts = await service.list(request.context!.organizationId);
+
+        sendSuccess(reply, fonts);
+      } catch (error) {
+        request.log.error(error, 'Failed to list fonts');
+        sendError(reply, 'INTERNAL_ERROR', 'Failed to list fonts', 500);
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/fonts
+   * Upload a TTF/OTF font
+   *
+   * Request: multipart/form-data
+   * - file: font file
+   * - family (optional): family name used by template fields, defaults to the name in the font
+   * - weight (optional): normal | bold
+   * - style (optional): normal | italic
+   */
+  app.post(
+    '/fonts',
+    {
+      config: {
+        rateLimit: config.RATE_LIMIT_ENABLED ? uploadRateLimitConfig : false,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const data = await request.file();
+
+        if (!data) {
+          sendError(reply, 'VALIDATION_ERROR', 'File is required', 400);
+          return;
+        }
+
+        // Collect plain form fields sent alongside the file
+        const fields: Record<string, string> = {};
+        for (const name of ['family', 'weight', 'style']) {
+          const field = data.fields?.[name];
+          if (field && !Array.isArray(field) && 'value' in field && typeof field.value === 'string' && field.value !== '') {
+            fields[name] = field.value;
+          }
+        }
+
+        const dto = uploadFontSchema.parse(fields);
+        const buffer = await data.toBuffer();
+
+        const service = new FontService(new FontRepository(getSupabaseClient()));
+
+        const font = await service.upload(
+          request.context!.organizationId,
+          request.context!.userId,
+          dto,
+          {
+            buffer,
+            mimetype: data.mimetype ?? 'application/octet-stream',
+            originalname: data.filename ?? 'font',
+          }
+        );
+
+        sendSuccess(reply, font, 201);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else if (error instanceof ConflictError) {
+          sendError(reply, (error.details?.code as string) || 'CONFLICT', error.message, 409, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to upload font');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to upload font', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/fonts/:id
+   * Remove a font from the library
+   */
+  app.delete(
+    '/fonts/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const id = uuidSchema.parse(request.params.id);
+
+        const service = new FontService(new FontRepository(getSupabaseClient()));
+
+        await service.delete(id, request.context!.organizationId);
+
+        sendSuccess(reply, { id, deleted: true });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to delete font');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to delete font', 500);
+        }
+      }
+    }
+  );
+}
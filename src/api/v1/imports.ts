@@ -8,13 +8,18 @@ import type { FastifyInstance, FastifyReply } from 'fastify';
 import type { FastifyRequest } from 'fastify';
 import { authMiddleware } from '../../lib/auth/middleware.js';
 import { contextMiddleware } from '../../lib/middleware/context.js';
+import { idempotencyPreHandler } from '../../lib/middleware/idempotency.js';
 import { ImportRepository } from '../../domains/imports/repository.js';
 import { ImportService } from '../../domains/imports/service.js';
 import { createImportJobSchema } from '../../domains/imports/types.js';
+import { TemplateRepository } from '../../domains/templates/repository.js';
+import { CertificateRepository } from '../../domains/certificates/repository.js';
+import { CertificateService } from '../../domains/certificates/service.js';
+import { generateFromImportSchema } from '../../domains/certificates/types.js';
 import { parsePagination } from '../../lib/utils/validation.js';
 import { sendSuccess, sendPaginated, sendError } from '../../lib/utils/response.js';
 import { getSupabaseClient } from '../../lib/supabase/client.js';
-import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../lib/errors/handler.js';
 import { uploadRateLimitConfig } from '../../lib/security/rate-limit-presets.js';
 import { config } from '../../lib/config/env.js';
 
@@ -206,6 +211,112 @@ export async function registerImportRoutes(app: FastifyInstance): Promise<void>
     }
   );
 
+  /**
+   * POST /api/v1/import-jobs/:id/images
+   * Upload images (PNG/JPEG/WebP) referenced by file name from the import's rows
+   *
+   * Request: multipart/form-data with one or more files
+   */
+  app.post(
+    '/import-jobs/:id/images',
+    {
+      config: {
+        rateLimit: config.RATE_LIMIT_ENABLED ? uploadRateLimitConfig : false,
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const { id } = request.params;
+
+        const repository = new ImportRepository(getSupabaseClient());
+        const service = new ImportService(repository);
+
+        // Each file stream must be consumed before the next part is read
+        const images = [];
+        for await (const part of request.files()) {
+          const buffer = await part.toBuffer();
+          images.push(
+            await service.uploadImage(
+              id,
+              request.context!.organizationId,
+              request.context!.userId,
+              {
+                buffer,
+                mimetype: part.mimetype ?? 'application/octet-stream',
+                originalname: part.filename ?? 'image',
+              }
+            )
+          );
+        }
+
+        if (images.length === 0) {
+          sendError(reply, 'VALIDATION_ERROR', 'At least one image file is required', 400);
+          return;
+        }
+
+        sendSuccess(reply, images, 201);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else {
+          request.log.error(error, 'Failed to upload import images');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to upload import images', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/import-jobs/:id/generate
+   * Generate certificates from the import's stored rows
+   *
+   * Body: template_id, field_mappings and options as for POST /certificates/generate (without data)
+   */
+  app.post(
+    '/import-jobs/:id/generate',
+    {
+      preHandler: idempotencyPreHandler,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as { id: string };
+        const body = generateFromImportSchema.parse(request.body);
+
+        const certificateService = new CertificateService(
+          new TemplateRepository(getSupabaseClient()),
+          new CertificateRepository(getSupabaseClient())
+        );
+
+        const appUrl = process.env.APP_URL ?? process.env.FRONTEND_URL ?? 'http://localhost:3001';
+
+        const result = await certificateService.generateFromImport(
+          request.context!.organizationId,
+          request.context!.userId,
+          id,
+          body,
+          appUrl
+        );
+
+        sendSuccess(reply, result, result.status === 'queued' ? 202 : 200);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ConflictError) {
+          sendError(reply, 'CONFLICT', error.message, 409, error.details);
+        } else if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to generate certificates from import');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to generate certificates from import', 500);
+        }
+      }
+    }
+  );
+
   /**
    * GET /api/v1/import-jobs/:id/download
    * Get signed URL for import file download
@@ -16,6 +16,13 @@ import { registerOrganizationRoutes } from './organizations.js';
 import { registerUserRoutes } from './users.js';
 import { registerAuthRoutes } from './auth.js';
 import { registerCatalogRoutes } from './catalog.js';
+import { registerFontRoutes } from './fonts.js';
+import { registerAssetRoutes } from './assets.js';
+import { registerNumberingRoutes } from './numbering.js';
+import { registerSigningRoutes } from './signing.js';
+import { registerCredentialRoutes } from './credentials.js';
+import { registerIssuerRoutes } from './issuers.js';
+import { registerCronRoutes } from './cron.js';
 
 export async function registerV1Routes(app: FastifyInstance): Promise<void> {
   // Register auth routes (no auth middleware)
@@ -32,4 +39,11 @@ export async function registerV1Routes(app: FastifyInstance): Promise<void> {
   await app.register(registerOrganizationRoutes);
   await app.register(registerUserRoutes);
   await app.register(registerCatalogRoutes);
+  await app.register(registerFontRoutes);
+  await app.register(registerAssetRoutes);
+  await app.register(registerNumberingRoutes);
+  await app.register(registerSigningRoutes);
+  await app.register(registerCredentialRoutes);
+  await app.register(registerIssuerRoutes);
+  await app.register(registerCronRoutes);
 }
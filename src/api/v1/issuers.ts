@@ -0,0 +1,164 @@
+/**
+ * ISSUERS API
+ *
+ * Public issuer profiles, did:web DID documents and JWKS of organizations, used to
+ * verify the Open Badges credentials and signed QR payloads they issue, and
+ * their signed revocation feeds.
+ */
+
+import crypto from 'node:crypto';
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { CredentialRepository } from '../../domains/credentials/repository.js';
+import { CredentialService } from '../../domains/credentials/service.js';
+import { revocationFeedQuerySchema } from '../../domains/credentials/types.js';
+import { uuidSchema } from '../../lib/utils/validation.js';
+import { sendError } from '../../lib/utils/response.js';
+import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+
+/**
+ * Register issuer routes
+ */
+export async function registerIssuerRoutes(app: FastifyInstance): Promise<void> {
+  // Issuer documents are public (no auth required) and returned unwrapped,
+  // as DID resolvers and badge verifiers expect
+
+  /**
+   * GET /api/v1/issuers/:organizationId
+   * Open Badges issuer profile
+   */
+  app.get(
+    '/issuers/:organizationId',
+    async (request: FastifyRequest<{ Params: { organizationId: string } }>, reply: FastifyReply) => {
+      try {
+        const organizationId = uuidSchema.parse(request.params.organizationId);
+
+        const service = new CredentialService(new CredentialRepository(getSupabaseClient()));
+
+        const profile = await service.getIssuerProfile(organizationId);
+
+        reply.type('application/ld+json').send(profile);
+      } catch (error) {
+        handleIssuerError(request, reply, error, 'Failed to get issuer profile');
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/issuers/:organizationId/did.json
+   * DID document (did:web) listing the issuer's credential keys
+   */
+  app.get(
+    '/issuers/:organizationId/did.json',
+    async (request: FastifyRequest<{ Params: { organizationId: string } }>, reply: FastifyReply) => {
+      try {
+        const organizationId = uuidSchema.parse(request.params.organizationId);
+
+        const service = new CredentialService(new CredentialRepository(getSupabaseClient()));
+
+        const document = await service.getDidDocument(organizationId);
+
+        reply.type('application/did+json').send(document);
+      } catch (error) {
+        handleIssuerError(request, reply, error, 'Failed to get DID document');
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/issuers/:organizationId/jwks.json
+   * Issuer's credential keys as a JWKS, for checking signed QR payloads offline
+   */
+  app.get(
+    '/issuers/:organizationId/jwks.json',
+    async (request: FastifyRequest<{ Params: { organizationId: string } }>, reply: FastifyReply) => {
+      try {
+        const organizationId = uuidSchema.parse(request.params.organizationId);
+
+        const service = new CredentialService(new CredentialRepository(getSupabaseClient()));
+
+        const jwks = await service.getJwks(organizationId);
+
+        reply.type('application/jwk-set+json').send(jwks);
+      } catch (error) {
+        handleIssuerError(request, reply, error, 'Failed to get issuer keys');
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/issuers/:organizationId/revocations
+   * Revocation feed: certificates revoked, reinstated or reissued since a time
+   *
+   * Query: since (ISO 8601, inclusive), cursor (next_cursor of the previous page), limit (max 1000)
+   * Returns a JWT signed with the issuer's credential key (application/jwt).
+   * Supports If-None-Match; partners sync with ?since=<next_since of their last sync>.
+   */
+  app.get(
+    '/issuers/:organizationId/revocations',
+    async (request: FastifyRequest<{ Params: { organizationId: string } }>, reply: FastifyReply) => {
+      let organizationId: string;
+      try {
+        organizationId = uuidSchema.parse(request.params.organizationId);
+      } catch (error) {
+        handleIssuerError(request, reply, error, 'Failed to get revocation feed');
+        return;
+      }
+
+      try {
+        const query = revocationFeedQuerySchema.parse(request.query);
+
+        const service = new CredentialService(new CredentialRepository(getSupabaseClient()));
+
+        const feed = await service.getRevocationFeed(organizationId, query);
+        const etag = `"${crypto.createHash('sha256').update(feed).digest('base64url').slice(0, 32)}"`;
+
+        reply.header('ETag', etag);
+        reply.header('Cache-Control', 'public, max-age=300');
+
+        if (matchesIfNoneMatch(request.headers['if-none-match'], etag)) {
+          reply.code(304).send();
+          return;
+        }
+
+        reply.type('application/jwt').send(feed);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid query parameters', 400);
+        } else if (error instanceof ValidationError && error.details?.code === 'INVALID_CURSOR') {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400);
+        } else {
+          handleIssuerError(request, reply, error, 'Failed to get revocation feed');
+        }
+      }
+    }
+  );
+}
+
+/**
+ * Whether an If-None-Match header matches the ETag: "*", or any entry of its
+ * comma-separated list compared weakly (W/ prefixes ignored)
+ */
+function matchesIfNoneMatch(header: string | undefined, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+
+  if (header.trim() === '*') {
+    return true;
+  }
+
+  return header.split(',').some((candidate) => candidate.trim().replace(/^W\//, '') === etag);
+}
+
+function handleIssuerError(request: FastifyRequest, reply: FastifyReply, error: unknown, message: string): void {
+  if (error instanceof NotFoundError || (error instanceof Error && error.name === 'ZodError')) {
+    sendError(reply, 'NOT_FOUND', 'Issuer not found', 404);
+  } else if (error instanceof ValidationError) {
+    // Credentials are not enabled on this deployment
+    sendError(reply, 'NOT_FOUND', error.message, 404);
+  } else {
+    request.log.error(error, message);
+    sendError(reply, 'INTERNAL_ERROR', message, 500);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * CERTIFICATE NUMBERING API
+ *
+ * RESTful API endpoints for certificate number schemes.
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import type { FastifyRequest } from 'fastify';
+import { authMiddleware } from '../../lib/auth/middleware.js';
+import { contextMiddleware } from '../../lib/middleware/context.js';
+import { NumberingRepository } from '../../domains/numbering/repository.js';
+import { NumberingService } from '../../domains/numbering/service.js';
+import { updateNumberSchemeSchema } from '../../domains/numbering/types.js';
+import { uuidSchema } from '../../lib/utils/validation.js';
+import { sendSuccess, sendError } from '../../lib/utils/response.js';
+import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+
+/**
+ * Register certificate numbering routes
+ */
+export async function registerNumberingRoutes(app: FastifyInstance): Promise<void> {
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', contextMiddleware);
+
+  /**
+   * GET /api/v1/certificate-numbering
+   * List the organization default and category overrides
+   */
+  app.get(
+    '/certificate-numbering',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const service = new NumberingService(new NumberingRepository(getSupabaseClient()));
+
+        const schemes = await service.list(request.context!.organizationId);
+
+        sendSuccess(reply, schemes);
+      } catch (error) {
+        request.log.error(error, 'Failed to list number schemes');
+        sendError(reply, 'INTERNAL_ERROR', 'Failed to list number schemes', 500);
+      }
+    }
+  );
+
+  /**
+   * PUT /api/v1/certificate-numbering
+   * Set the organization default scheme
+   *
+   * Request body:
+   * - pattern: e.g. {ORG}-{YYYY}-{SEQ:6}
+   * - org_code: value of {ORG} (required when the pattern uses it)
+   */
+  app.put(
+    '/certificate-numbering',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const dto = updateNumberSchemeSchema.parse(request.body);
+
+        const service = new NumberingService(new NumberingRepository(getSupabaseClient()));
+
+        const scheme = await service.setScheme(request.context!.organizationId, null, request.context!.userId, dto);
+
+        sendSuccess(reply, scheme);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to set number scheme');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to set number scheme', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/certificate-numbering
+   * Remove the default scheme (back to the built-in numbering)
+   */
+  app.delete(
+    '/certificate-numbering',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const service = new NumberingService(new NumberingRepository(getSupabaseClient()));
+
+        await service.deleteScheme(request.context!.organizationId, null);
+
+        sendSuccess(reply, { deleted: true });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to delete number scheme');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to delete number scheme', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * PUT /api/v1/certificate-numbering/categories/:categoryId
+   * Set a category's scheme (overrides the default)
+   */
+  app.put(
+    '/certificate-numbering/categories/:categoryId',
+    async (request: FastifyRequest<{ Params: { categoryId: string } }>, reply: FastifyReply) => {
+      try {
+        const categoryId = uuidSchema.parse(request.params.categoryId);
+        const dto = updateNumberSchemeSchema.parse(request.body);
+
+        const service = new NumberingService(new NumberingRepository(getSupabaseClient()));
+
+        const scheme = await service.setScheme(request.context!.organizationId, categoryId, request.context!.userId, dto);
+
+        sendSuccess(reply, scheme);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to set number scheme');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to set number scheme', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/certificate-numbering/categories/:categoryId
+   * Remove a category's scheme (back to the default)
+   */
+  app.delete(
+    '/certificate-numbering/categories/:categoryId',
+    async (request: FastifyRequest<{ Params: { categoryId: string } }>, reply: FastifyReply) => {
+      try {
+        const categoryId = uuidSchema.parse(request.params.categoryId);
+
+        const service = new NumberingService(new NumberingRepository(getSupabaseClient()));
+
+        await service.deleteScheme(request.context!.organizationId, categoryId);
+
+        sendSuccess(reply, { category_id: categoryId, deleted: true });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to delete number scheme');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to delete number scheme', 500);
+        }
+      }
+    }
+  );
+}
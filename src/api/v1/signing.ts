@@ -0,0 +1,127 @@
+/**
+ * PDF SIGNING API
+ *
+ * RESTful API endpoints for the organization's PDF signing certificate.
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import type { FastifyRequest } from 'fastify';
+import { authMiddleware } from '../../lib/auth/middleware.js';
+import { contextMiddleware } from '../../lib/middleware/context.js';
+import { SigningRepository } from '../../domains/signing/repository.js';
+import { SigningService } from '../../domains/signing/service.js';
+import { uploadSigningKeystoreSchema } from '../../domains/signing/types.js';
+import { sendSuccess, sendError } from '../../lib/utils/response.js';
+import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { uploadRateLimitConfig } from '../../lib/security/rate-limit-presets.js';
+import { config } from '../../lib/config/env.js';
+
+/**
+ * Register PDF signing routes
+ */
+export async function registerSigningRoutes(app: FastifyInstance): Promise<void> {
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', contextMiddleware);
+
+  /**
+   * GET /api/v1/signing-certificate
+   * Which certificate signs the organization's PDFs
+   */
+  app.get(
+    '/signing-certificate',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const service = new SigningService(new SigningRepository(getSupabaseClient()));
+
+        const status = await service.getStatus(request.context!.organizationId);
+
+        sendSuccess(reply, status);
+      } catch (error) {
+        request.log.error(error, 'Failed to get signing certificate');
+        sendError(reply, 'INTERNAL_ERROR', 'Failed to get signing certificate', 500);
+      }
+    }
+  );
+
+  /**
+   * PUT /api/v1/signing-certificate
+   * Upload the organization's signing certificate, replacing the current one
+   *
+   * Request: multipart/form-data
+   * - file: PKCS#12 keystore (.p12 / .pfx) with the private key and certificate chain
+   * - password (optional): keystore password
+   */
+  app.put(
+    '/signing-certificate',
+    {
+      config: {
+        rateLimit: config.RATE_LIMIT_ENABLED ? uploadRateLimitConfig : false,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const data = await request.file();
+
+        if (!data) {
+          sendError(reply, 'VALIDATION_ERROR', 'File is required', 400);
+          return;
+        }
+
+        const fields: Record<string, string> = {};
+        const password = data.fields?.password;
+        if (password && !Array.isArray(password) && 'value' in password && typeof password.value === 'string') {
+          fields.password = password.value;
+        }
+
+        const dto = uploadSigningKeystoreSchema.parse(fields);
+        const buffer = await data.toBuffer();
+
+        const service = new SigningService(new SigningRepository(getSupabaseClient()));
+
+        const certificate = await service.upload(
+          request.context!.organizationId,
+          request.context!.userId,
+          dto,
+          { buffer }
+        );
+
+        sendSuccess(reply, certificate);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to upload signing certificate');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to upload signing certificate', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/signing-certificate
+   * Remove the organization's signing certificate
+   */
+  app.delete(
+    '/signing-certificate',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const service = new SigningService(new SigningRepository(getSupabaseClient()));
+
+        await service.delete(request.context!.organizationId);
+
+        sendSuccess(reply, { deleted: true });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else {
+          request.log.error(error, 'Failed to delete signing certificate');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to delete signing certificate', 500);
+        }
+      }
+    }
+  );
+}
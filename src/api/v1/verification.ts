@@ -6,26 +6,61 @@
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { VerificationService } from '../../domains/verification/service.js';
-import { verifyCertificateSchema } from '../../domains/verification/types.js';
+import {
+  verifyCertificateSchema,
+  verifyByNumberSchema,
+  bulkVerifySchema,
+} from '../../domains/verification/types.js';
 import { sendSuccess, sendError } from '../../lib/utils/response.js';
 import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { uuidSchema } from '../../lib/utils/validation.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { apiKeyAuthMiddleware } from '../../lib/auth/api-key.js';
+import {
+  bulkVerificationRateLimitConfig,
+  bulkVerificationClientRateLimitConfig,
+  uploadRateLimitConfig,
+  verificationLookupRateLimitConfig,
+} from '../../lib/security/rate-limit-presets.js';
+import { config } from '../../lib/config/env.js';
 
 /**
  * Register verification routes
  */
 export async function registerVerificationRoutes(app: FastifyInstance): Promise<void> {
-  // Verification is public (no auth required)
+  // Verification is public (no auth required), except bulk verification (API key)
+
+  // Per-client bulk verification limit, checked once the API key is authenticated
+  const bulkVerificationClientLimit = config.RATE_LIMIT_ENABLED
+    ? app.createRateLimit(bulkVerificationClientRateLimitConfig)
+    : null;
+
+  const bulkVerificationClientRateLimit = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!bulkVerificationClientLimit) {
+      return;
+    }
+
+    const limit = await bulkVerificationClientLimit(request);
+    if (!limit.isAllowed && limit.isExceeded) {
+      reply.header('retry-after', limit.ttlInSeconds);
+      sendError(reply, 'RATE_LIMIT_EXCEEDED', 'Bulk verification limit reached. Please try again later.', 429, {
+        retryAfter: limit.ttlInSeconds,
+      });
+      return reply;
+    }
+  };
 
   /**
    * POST /api/v1/verification/verify
-   * Verify certificate by token (public endpoint)
+   * Verify certificate by token, Open Badges credential or signed QR payload (public endpoint)
+   *
+   * Request body: { token }, { credential } (VC-JWT) or { payload } (signed QR payload or QR text)
    */
   app.post(
     '/verification/verify',
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
         const body = verifyCertificateSchema.parse(request.body);
-        const token = body.token;
 
         const service = new VerificationService(getSupabaseClient());
 
@@ -33,10 +68,16 @@ export async function registerVerificationRoutes(app: FastifyInstance): Promise<
         const ip = request.ip ?? request.headers['x-forwarded-for'] ?? undefined;
         const userAgent = request.headers['user-agent'] ?? undefined;
 
-        const result = await service.verifyCertificate(token, {
+        const requestInfo = {
           ip: typeof ip === 'string' ? ip : undefined,
           userAgent,
-        });
+        };
+
+        const result = body.credential
+          ? await service.verifyCredential(body.credential, requestInfo)
+          : body.payload
+            ? await service.verifyQrPayload(body.payload, requestInfo)
+            : await service.verifyCertificate(body.token!, requestInfo);
 
         sendSuccess(reply, result);
       } catch (error) {
@@ -49,4 +90,169 @@ export async function registerVerificationRoutes(app: FastifyInstance): Promise<
       }
     }
   );
+
+  /**
+   * POST /api/v1/verification/verify-number
+   * Verify certificate by its number and the recipient's last name or date of birth (public endpoint)
+   *
+   * Request body: { certificate_number, last_name } or { certificate_number, date_of_birth }
+   * Returns a reduced result (no certificate ID, recipient email or preview).
+   */
+  app.post(
+    '/verification/verify-number',
+    {
+      config: {
+        rateLimit: config.RATE_LIMIT_ENABLED ? verificationLookupRateLimitConfig : false,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const body = verifyByNumberSchema.parse(request.body);
+
+        const service = new VerificationService(getSupabaseClient());
+
+        const ip = request.ip ?? request.headers['x-forwarded-for'] ?? undefined;
+        const userAgent = request.headers['user-agent'] ?? undefined;
+
+        const result = await service.verifyByNumber(body, {
+          ip: typeof ip === 'string' ? ip : undefined,
+          userAgent,
+        });
+
+        sendSuccess(reply, result);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to verify certificate number');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to verify certificate number', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/verification/verify-file
+   * Verify certificate by uploading its PDF or image (public endpoint)
+   *
+   * Request: multipart/form-data with a single file
+   * Only the exact issued file verifies; a PDF changed after issuance returns result 'modified'.
+   */
+  app.post(
+    '/verification/verify-file',
+    {
+      config: {
+        rateLimit: config.RATE_LIMIT_ENABLED ? uploadRateLimitConfig : false,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const data = await request.file();
+
+        if (!data) {
+          sendError(reply, 'VALIDATION_ERROR', 'File is required', 400);
+          return;
+        }
+
+        const buffer = await data.toBuffer();
+
+        const service = new VerificationService(getSupabaseClient());
+
+        const ip = request.ip ?? request.headers['x-forwarded-for'] ?? undefined;
+        const userAgent = request.headers['user-agent'] ?? undefined;
+
+        const result = await service.verifyFile(
+          { buffer, mimetype: data.mimetype },
+          { ip: typeof ip === 'string' ? ip : undefined, userAgent }
+        );
+
+        sendSuccess(reply, result);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          sendError(reply, 'VALIDATION_ERROR', error.message, 400, error.details);
+        } else {
+          request.log.error(error, 'Failed to verify certificate file');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to verify certificate file', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/verification/bulk
+   * Verify up to 500 tokens or certificate numbers (API key: X-Application-ID / X-API-Key)
+   *
+   * Request body: { items: [{ token } | { certificate_number, last_name | date_of_birth }], async? }
+   * Each item may carry a reference, echoed back in its result.
+   * Returns per-item results, or 202 with a job whose CSV report is downloadable when
+   * it completes (more than 50 items, or async: true).
+   */
+  app.post(
+    '/verification/bulk',
+    {
+      preHandler: [apiKeyAuthMiddleware, bulkVerificationClientRateLimit],
+      config: {
+        rateLimit: config.RATE_LIMIT_ENABLED ? bulkVerificationRateLimitConfig : false,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const body = bulkVerifySchema.parse(request.body);
+
+        const service = new VerificationService(getSupabaseClient());
+
+        const ip = request.ip ?? request.headers['x-forwarded-for'] ?? undefined;
+        const userAgent = request.headers['user-agent'] ?? undefined;
+
+        const result = await service.verifyBulk(request.apiClient!, body, {
+          ip: typeof ip === 'string' ? ip : undefined,
+          userAgent,
+        });
+
+        if (result.status === 'queued') {
+          // Processed by the bulk verification worker - return 202 Accepted
+          sendSuccess(reply, result, 202);
+        } else {
+          sendSuccess(reply, result);
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid request data', 400);
+        } else {
+          request.log.error(error, 'Failed to verify certificates in bulk');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to verify certificates in bulk', 500);
+        }
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/verification/bulk/:jobId
+   * Bulk verification job status and CSV report URL (API key)
+   */
+  app.get(
+    '/verification/bulk/:jobId',
+    {
+      preHandler: apiKeyAuthMiddleware,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const jobId = uuidSchema.parse((request.params as { jobId: string }).jobId);
+
+        const service = new VerificationService(getSupabaseClient());
+        const job = await service.getBulkJob(jobId, request.apiClient!.organizationId);
+
+        sendSuccess(reply, job);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          sendError(reply, 'NOT_FOUND', error.message, 404);
+        } else if (error instanceof Error && error.name === 'ZodError') {
+          sendError(reply, 'VALIDATION_ERROR', 'Invalid job ID', 400);
+        } else {
+          request.log.error(error, 'Failed to get bulk verification job');
+          sendError(reply, 'INTERNAL_ERROR', 'Failed to get bulk verification job', 500);
+        }
+      }
+    }
+  );
 }
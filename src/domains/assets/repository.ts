@@ -0,0 +1,113 @@
+/**
+ * ASSET REPOSITORY
+ *
+ * Data access layer for organization image assets.
+ * Assets are files rows stored under org_branding/<org_id>/assets/.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AssetEntity } from './types.js';
+
+const ASSET_COLUMNS = 'id, organization_id, path, original_name, mime_type, size_bytes, created_by_user_id, created_at';
+
+/**
+ * Storage folder holding an organization's assets
+ */
+export function getAssetFolder(organizationId: string): string {
+  return `org_branding/${organizationId}/assets`;
+}
+
+export class AssetRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Find all assets for an organization, newest first
+   */
+  async findAll(organizationId: string): Promise<AssetEntity[]> {
+    const { data, error } = await this.supabase
+      .from('files')
+      .select(ASSET_COLUMNS)
+      .eq('organization_id', organizationId)
+      .eq('bucket', 'authentix')
+      .like('path', `${getAssetFolder(organizationId)}/%`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to find assets: ${error.message}`);
+    }
+
+    return (data ?? []) as AssetEntity[];
+  }
+
+  /**
+   * Find asset by file ID
+   */
+  async findById(id: string, organizationId: string): Promise<AssetEntity | null> {
+    const { data, error } = await this.supabase
+      .from('files')
+      .select(ASSET_COLUMNS)
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .eq('bucket', 'authentix')
+      .like('path', `${getAssetFolder(organizationId)}/%`)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find asset: ${error.message}`);
+    }
+
+    return data as AssetEntity | null;
+  }
+
+  /**
+   * Create asset file registry entry
+   */
+  async create(
+    organizationId: string,
+    userId: string,
+    fileData: {
+      path: string;
+      original_name: string;
+      mime_type: string;
+      size_bytes: number;
+      checksum_sha256: string;
+    }
+  ): Promise<AssetEntity> {
+    const { data, error } = await this.supabase
+      .from('files')
+      .insert({
+        organization_id: organizationId,
+        bucket: 'authentix',
+        path: fileData.path,
+        kind: 'other',
+        original_name: fileData.original_name,
+        mime_type: fileData.mime_type,
+        size_bytes: fileData.size_bytes,
+        checksum_sha256: fileData.checksum_sha256,
+        created_by_user_id: userId,
+      } as any)
+      .select(ASSET_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create asset: ${error.message}`);
+    }
+
+    return data as AssetEntity;
+  }
+
+  /**
+   * Delete asset file registry entry
+   */
+  async delete(id: string, organizationId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('files')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', organizationId);
+
+    if (error) {
+      throw new Error(`Failed to delete asset: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * ASSET SERVICE
+ *
+ * Business logic for organization image assets.
+ *
+ * Assets (authorised signatory signatures, partner logos, seals) are drawn by
+ * image fields whose style.imageSource is 'asset' (style.assetFileId).
+ */
+
+import type { AssetRepository } from './repository.js';
+import { getAssetFolder } from './repository.js';
+import type { AssetEntity } from './types.js';
+import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { validateFileUpload } from '../../lib/uploads/validator.js';
+import { generateSecureFilename, sanitizeClientFilename } from '../../lib/uploads/filename.js';
+import { computeSHA256 } from '../../lib/uploads/checksum.js';
+import { validateStoragePath } from '../../lib/storage/path-validator.js';
+import { getCachedSignedUrl, setCachedSignedUrl } from '../../lib/cache/signed-url-cache.js';
+
+/**
+ * Image types accepted for assets
+ */
+export const ASSET_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'] as const;
+
+const MAX_ASSET_FILE_SIZE = 10 * 1024 * 1024;
+
+export class AssetService {
+  constructor(private readonly repository: AssetRepository) {}
+
+  /**
+   * List the organization's assets with signed URLs for display
+   */
+  async list(organizationId: string): Promise<AssetEntity[]> {
+    const assets = await this.repository.findAll(organizationId);
+
+    return Promise.all(
+      assets.map(async (asset) => ({ ...asset, url: await this.getSignedUrl(asset.path) }))
+    );
+  }
+
+  /**
+   * Get asset by ID
+   */
+  async getById(id: string, organizationId: string): Promise<AssetEntity> {
+    const asset = await this.repository.findById(id, organizationId);
+
+    if (!asset) {
+      throw new NotFoundError('Asset not found');
+    }
+
+    return { ...asset, url: await this.getSignedUrl(asset.path) };
+  }
+
+  /**
+   * Upload an image asset
+   * Uses magic byte validation for security (OWASP compliant)
+   */
+  async upload(
+    organizationId: string,
+    userId: string,
+    file: { buffer: Buffer; mimetype: string; originalname: string }
+  ): Promise<AssetEntity> {
+    if (file.buffer.length > MAX_ASSET_FILE_SIZE) {
+      throw new ValidationError('Image is too large', {
+        size_bytes: file.buffer.length,
+        max_size_bytes: MAX_ASSET_FILE_SIZE,
+      });
+    }
+
+    const validationResult = await validateFileUpload(file.buffer, file.mimetype, ASSET_MIME_TYPES);
+    const validatedMimetype = validationResult.detectedType;
+
+    const supabase = getSupabaseClient();
+    const storagePath = `${getAssetFolder(organizationId)}/${generateSecureFilename(validatedMimetype)}`;
+    validateStoragePath(storagePath, 'org_branding');
+
+    const { error: uploadError } = await supabase.storage
+      .from('authentix')
+      .upload(storagePath, file.buffer, {
+        contentType: validatedMimetype,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload asset: ${uploadError.message}`);
+    }
+
+    try {
+      const asset = await this.repository.create(organizationId, userId, {
+        path: storagePath,
+        original_name: sanitizeClientFilename(file.originalname),
+        mime_type: validatedMimetype,
+        size_bytes: file.buffer.length,
+        checksum_sha256: computeSHA256(file.buffer),
+      });
+
+      return { ...asset, url: await this.getSignedUrl(asset.path) };
+    } catch (error) {
+      await supabase.storage.from('authentix').remove([storagePath]);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an asset
+   * Image fields still pointing at it fail generation until they are updated.
+   */
+  async delete(id: string, organizationId: string): Promise<void> {
+    const asset = await this.getById(id, organizationId);
+
+    await this.repository.delete(id, organizationId);
+
+    const { error } = await getSupabaseClient().storage.from('authentix').remove([asset.path]);
+    if (error) {
+      console.warn('[AssetService] Failed to remove asset from storage (non-fatal):', asset.path, error.message);
+    }
+  }
+
+  private async getSignedUrl(path: string): Promise<string | null> {
+    const cached = getCachedSignedUrl(path);
+    if (cached) {
+      return cached;
+    }
+
+    const { data, error } = await getSupabaseClient()
+      .storage
+      .from('authentix')
+      .createSignedUrl(path, 3600);
+
+    if (error || !data?.signedUrl) {
+      console.warn('[AssetService] Failed to sign asset URL:', path, error?.message);
+      return null;
+    }
+
+    setCachedSignedUrl(path, data.signedUrl, 3600);
+
+    return data.signedUrl;
+  }
+}
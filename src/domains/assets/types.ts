@@ -0,0 +1,20 @@
+/**
+ * ASSET TYPES
+ *
+ * Domain types for organization image assets (signatures, logos) used by image fields.
+ */
+
+/**
+ * Organization image asset (a files row under org_branding/<org_id>/assets/)
+ */
+export interface AssetEntity {
+  id: string;
+  organization_id: string;
+  path: string;
+  original_name: string | null;
+  mime_type: string | null;
+  size_bytes: number | null;
+  created_by_user_id: string | null;
+  created_at: string;
+  url?: string | null;
+}
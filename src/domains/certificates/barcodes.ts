@@ -0,0 +1,188 @@
+/**
+ * BARCODES
+ *
+ * Encodes barcode fields (Code128, DataMatrix, PDF417, QR) into their modules and
+ * draws them as vector paths: drawSvgPath in PDFs, SVG paths in image output.
+ *
+ * Symbols are scaled into the field box:
+ * - Code128 (linear) stretches across the box, bars taking its full height
+ * - DataMatrix, PDF417 and QR keep square modules and are centred
+ * The quiet zone (blank margin readers need) is counted in modules.
+ */
+
+import bwipjs from 'bwip-js';
+import QRCode from 'qrcode';
+
+export type BarcodeSymbology = 'code128' | 'datamatrix' | 'pdf417' | 'qrcode';
+
+export const BARCODE_SYMBOLOGIES: readonly BarcodeSymbology[] = ['code128', 'datamatrix', 'pdf417', 'qrcode'];
+
+/**
+ * What a barcode field encodes:
+ * - token: the verification URL (as the QR code field)
+ * - certificate_number: the certificate number
+ * - column: the mapped column's value
+ */
+export type BarcodePayload = 'token' | 'certificate_number' | 'column';
+
+export const BARCODE_PAYLOADS: readonly BarcodePayload[] = ['token', 'certificate_number', 'column'];
+
+/**
+ * Error correction levels per symbology (Code128 and DataMatrix have none to configure)
+ */
+export const BARCODE_ERROR_CORRECTION_LEVELS: Partial<Record<BarcodeSymbology, readonly string[]>> = {
+  qrcode: ['L', 'M', 'Q', 'H'],
+  pdf417: ['0', '1', '2', '3', '4', '5', '6', '7', '8'],
+};
+
+/**
+ * Minimum quiet zones from the symbology specifications, in modules
+ */
+const DEFAULT_QUIET_ZONE: Record<BarcodeSymbology, number> = {
+  code128: 10,
+  datamatrix: 1,
+  pdf417: 2,
+  qrcode: 4,
+};
+
+export interface BarcodeOptions {
+  symbology: BarcodeSymbology;
+  quietZone?: number;
+  errorCorrection?: string;
+}
+
+/**
+ * Encoded symbol: dark modules on a grid of columns x rows (quiet zone excluded)
+ * Linear symbols have a single row; PDF417 rows are several modules high.
+ */
+interface BarcodeSymbol {
+  columns: number;
+  rows: number;
+  rowHeight: number;
+  isDark: (column: number, row: number) => boolean;
+}
+
+/**
+ * Encode text and draw it into a box as an SVG path
+ * The path is relative to the box's top-left corner, in the box's units.
+ * @param snapToPixels - use whole-unit modules where the box allows (crisp bars in raster output)
+ * @throws Error when the text cannot be encoded in the symbology
+ */
+export function renderBarcodePath(
+  text: string,
+  options: BarcodeOptions,
+  box: { width: number; height: number },
+  snapToPixels = false
+): string {
+  const symbol = encodeBarcode(text, options);
+  const quietZone = options.quietZone ?? DEFAULT_QUIET_ZONE[options.symbology];
+  const linear = options.symbology === 'code128';
+
+  const totalColumns = symbol.columns + quietZone * 2;
+  const totalRows = linear ? 1 : symbol.rows * symbol.rowHeight + quietZone * 2;
+
+  let moduleWidth = box.width / totalColumns;
+  let moduleHeight = linear ? box.height : Math.min(moduleWidth, box.height / totalRows);
+  if (!linear) {
+    moduleWidth = moduleHeight;
+  }
+  if (snapToPixels && moduleWidth >= 1) {
+    moduleWidth = Math.floor(moduleWidth);
+    moduleHeight = linear ? moduleHeight : moduleWidth;
+  }
+
+  // Centre the symbol, quiet zone included
+  const originX = (box.width - moduleWidth * totalColumns) / 2 + quietZone * moduleWidth;
+  const originY = (box.height - moduleHeight * totalRows) / 2 + (linear ? 0 : quietZone * moduleHeight);
+
+  // One rectangle per horizontal run of dark modules
+  const commands: string[] = [];
+  for (let row = 0; row < symbol.rows; row++) {
+    let column = 0;
+    while (column < symbol.columns) {
+      if (!symbol.isDark(column, row)) {
+        column++;
+        continue;
+      }
+
+      const start = column;
+      while (column < symbol.columns && symbol.isDark(column, row)) {
+        column++;
+      }
+
+      const x = round(originX + start * moduleWidth);
+      const y = round(originY + row * symbol.rowHeight * moduleHeight);
+      const width = round((column - start) * moduleWidth);
+      commands.push(`M${x} ${y}h${width}v${round(symbol.rowHeight * moduleHeight)}h${-width}Z`);
+    }
+  }
+
+  return commands.join('');
+}
+
+function encodeBarcode(text: string, options: BarcodeOptions): BarcodeSymbol {
+  if (!text) {
+    throw new Error('Barcode content is empty');
+  }
+
+  if (options.symbology === 'qrcode') {
+    const qr = QRCode.create(text, {
+      errorCorrectionLevel: (options.errorCorrection ?? 'M') as QRCode.QRCodeErrorCorrectionLevel,
+    });
+    const size = qr.modules.size;
+    return {
+      columns: size,
+      rows: size,
+      rowHeight: 1,
+      isDark: (column, row) => qr.modules.get(row, column) === 1,
+    };
+  }
+
+  const bwippOptions = options.symbology === 'pdf417' && options.errorCorrection !== undefined
+    ? `eclevel=${options.errorCorrection}`
+    : '';
+
+  let encoded;
+  try {
+    encoded = bwipjs.raw(options.symbology, text, bwippOptions)[0];
+  } catch (error) {
+    throw new Error(
+      `Cannot encode "${text}" as ${options.symbology}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  if (!encoded) {
+    throw new Error(`Cannot encode "${text}" as ${options.symbology}`);
+  }
+
+  if ('pixs' in encoded) {
+    // pixy is the symbol height in modules; PDF417 repeats each row (pixs holds one per row)
+    const { pixs, pixx, pixy } = encoded;
+    const rows = pixs.length / pixx;
+    return {
+      columns: pixx,
+      rows,
+      rowHeight: pixy / rows,
+      isDark: (column, row) => pixs[row * pixx + column] === 1,
+    };
+  }
+
+  // Linear symbols are alternating bar / space widths, starting with a bar
+  const dark: boolean[] = [];
+  encoded.sbs.forEach((width, index) => {
+    for (let i = 0; i < width; i++) {
+      dark.push(index % 2 === 0);
+    }
+  });
+
+  return {
+    columns: dark.length,
+    rows: 1,
+    rowHeight: 1,
+    isDark: (column) => dark[column] === true,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,223 @@
+/**
+ * DATE FORMATTING
+ *
+ * Parses date values from import rows and formats them in the template's locale
+ * (month and day names, e.g. "15 janvier 2025", "15 जनवरी 2025") and timezone.
+ *
+ * Input values are read as:
+ * - style.dateInputFormat when set (date-fns tokens, e.g. dd/MM/yyyy, or 'excel')
+ * - Excel serial dates (e.g. 45672) when the spreadsheet cell was a date
+ * - Calendar dates (2025-01-15), drawn as-is whatever the timezone
+ * - Timestamps (2025-01-15T18:30:00Z), converted to the template's timezone
+ */
+
+import { format, isValid, parse, type Locale } from 'date-fns';
+import * as dateLocales from 'date-fns/locale';
+
+export const DEFAULT_LOCALE = 'en-US';
+export const DEFAULT_TIME_ZONE = 'UTC';
+export const DEFAULT_DATE_FORMAT = 'MMMM dd, yyyy';
+
+/**
+ * Default for other locales: the locale's long date (e.g. "15 janvier 2025")
+ */
+const LOCALIZED_DATE_FORMAT = 'PPP';
+
+/**
+ * dateInputFormat value for Excel serial dates
+ */
+export const EXCEL_DATE_INPUT_FORMAT = 'excel';
+
+export interface DateFormatOptions {
+  /** Output format (date-fns tokens); defaults to the locale's long date */
+  format?: string;
+  /** Input format (date-fns tokens or 'excel'); detected when absent */
+  inputFormat?: string;
+  /** BCP 47 locale tag, e.g. 'fr', 'hi-IN' */
+  locale?: string | null;
+  /** IANA timezone, e.g. 'Asia/Kolkata' */
+  timeZone?: string | null;
+}
+
+/**
+ * Serial numbers Excel uses for dates between 1927 and 2173 (shorter numbers are not assumed to be dates)
+ */
+const EXCEL_SERIAL = /^\d{5}(\.\d+)?$/;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const CALENDAR_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Text naming a time of day or a UTC offset, i.e. an instant rather than a calendar date
+ */
+const TIME_OR_OFFSET = /\d:\d{2}|\dZ$|\b(?:GMT|UTC)\b/i;
+
+/**
+ * date-fns locale for a BCP 47 tag (region-specific first, then the language)
+ * Returns null when date-fns has no matching locale.
+ */
+export function resolveDateLocale(tag: string | null | undefined): Locale | null {
+  const [language, region] = (tag || DEFAULT_LOCALE).split(/[-_]/);
+  if (!language) {
+    return null;
+  }
+
+  const locales = dateLocales as Record<string, Locale>;
+  const candidates = [
+    region ? `${language.toLowerCase()}${region.toUpperCase()}` : null,
+    language.toLowerCase(),
+    language.toLowerCase() === 'en' ? 'enUS' : null,
+  ];
+
+  for (const key of candidates) {
+    if (key && Object.prototype.hasOwnProperty.call(locales, key)) {
+      return locales[key]!;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a locale tag is valid and has localized date names
+ */
+export function isSupportedLocale(tag: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(tag).length === 1 && resolveDateLocale(tag) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a string is an IANA timezone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a date-fns format string (output, or input when parsing)
+ * @returns the date-fns error message, or null when the format is usable
+ */
+export function getDateFormatError(pattern: string, direction: 'input' | 'output'): string | null {
+  if (direction === 'input' && pattern === EXCEL_DATE_INPUT_FORMAT) {
+    return null;
+  }
+
+  try {
+    if (direction === 'input') {
+      parse('', pattern, new Date());
+    } else {
+      format(new Date(), pattern);
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid date format';
+  }
+}
+
+/**
+ * Parse a row value into a date whose local fields are the wall-clock date to draw
+ * Returns null when the value is not a date in the expected format.
+ */
+export function parseDateValue(value: string, options: DateFormatOptions = {}): Date | null {
+  const text = value.trim();
+  if (!text) {
+    return null;
+  }
+
+  const { inputFormat } = options;
+
+  if (inputFormat === EXCEL_DATE_INPUT_FORMAT || (!inputFormat && EXCEL_SERIAL.test(text))) {
+    const serial = Number(text);
+    return Number.isFinite(serial) ? fromExcelSerial(serial) : null;
+  }
+
+  if (inputFormat) {
+    const parsed = parse(text, inputFormat, new Date(2000, 0, 1), {
+      locale: resolveDateLocale(options.locale) ?? undefined,
+    });
+    return isValid(parsed) ? parsed : null;
+  }
+
+  const calendarDate = CALENDAR_DATE.exec(text);
+  if (calendarDate) {
+    const date = new Date(Number(calendarDate[1]), Number(calendarDate[2]) - 1, Number(calendarDate[3]));
+    return isValid(date) ? date : null;
+  }
+
+  const instant = new Date(text);
+  if (!isValid(instant)) {
+    return null;
+  }
+
+  // Date-only text ("01/15/2025", "January 15, 2025") is parsed as server-local
+  // midnight: its local fields are already the calendar date, with no timezone to apply
+  if (!TIME_OR_OFFSET.test(text)) {
+    return new Date(instant.getFullYear(), instant.getMonth(), instant.getDate());
+  }
+
+  return toWallClock(instant, options.timeZone || DEFAULT_TIME_ZONE);
+}
+
+/**
+ * Format a row value as a date
+ * Values that cannot be read as a date are returned unchanged.
+ */
+export function formatDateValue(value: string, options: DateFormatOptions = {}): string {
+  const date = parseDateValue(value, options);
+  if (!date) {
+    console.warn('[DateFormat] Value is not a date in the expected format; drawn as-is:', {
+      value,
+      input_format: options.inputFormat ?? null,
+    });
+    return value;
+  }
+
+  const locale = resolveDateLocale(options.locale);
+  const pattern = options.format || (!locale || locale === dateLocales.enUS ? DEFAULT_DATE_FORMAT : LOCALIZED_DATE_FORMAT);
+
+  return format(date, pattern, { locale: locale ?? undefined });
+}
+
+/**
+ * Excel serial date (days since 1899-12-30, fraction = time of day) as a wall-clock date
+ */
+function fromExcelSerial(serial: number): Date {
+  const utc = new Date(Math.round((EXCEL_EPOCH + serial * MS_PER_DAY) / 1000) * 1000);
+  return new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds()
+  );
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function toWallClock(instant: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return new Date(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+}
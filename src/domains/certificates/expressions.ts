@@ -0,0 +1,646 @@
+/**
+ * FIELD EXPRESSIONS
+ *
+ * A small, sandboxed expression language for computed field values (style.expression)
+ * and conditional fields (style.condition, the field is hidden when it is false).
+ *
+ * Expressions only read the row's columns and call the functions below; there is no
+ * property access, assignment or looping, so evaluation is bounded by the expression size.
+ *
+ *   first_name & " " & upper(last_name)
+ *   if score >= 90 then "with Distinction" else ""
+ *   format_number([Total Hours], 1) & " hours"
+ *
+ * - Columns: bare names (letters, digits, _) or [Any Column Name]
+ * - Literals: "text" or 'text', numbers, true, false, null
+ * - Operators: & (concatenate), + - * / %, = == != < <= > >=, and, or, not
+ * - Conditionals: if <condition> then <value> [else <value>]
+ *
+ * Numeric text ("92") compares and calculates as a number. Missing columns are null.
+ * Numbers and dates are formatted in the template's locale and timezone.
+ */
+
+import { DEFAULT_LOCALE, formatDateValue } from './date-format.js';
+
+export type ExpressionValue = string | number | boolean | null;
+
+/**
+ * Template settings used by formatting functions
+ */
+export interface ExpressionContext {
+  locale?: string | null;
+  timeZone?: string | null;
+}
+
+/**
+ * Expression syntax or evaluation error
+ * position is the offset in the source, when known.
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type BinaryOperator = '&' | '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'column'; name: string }
+  | { type: 'unary'; operator: '-' | 'not'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode | null }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'column'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_NESTING_DEPTH = 32;
+const MAX_RESULT_LENGTH = 10000;
+
+const KEYWORDS = new Set(['if', 'then', 'else', 'and', 'or', 'not', 'true', 'false', 'null']);
+
+const OPERATORS = ['==', '!=', '<=', '>=', '<', '>', '=', '&', '+', '-', '*', '/', '%', '(', ')', ','];
+
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  call: (args: ExpressionValue[], context: ExpressionContext) => ExpressionValue;
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  upper: { minArgs: 1, maxArgs: 1, call: ([value]) => toText(value).toUpperCase() },
+  lower: { minArgs: 1, maxArgs: 1, call: ([value]) => toText(value).toLowerCase() },
+  title: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) =>
+      toText(value)
+        .toLowerCase()
+        .replace(/(^|[\s\-'(])(\p{L})/gu, (_match, separator: string, letter: string) => separator + letter.toUpperCase()),
+  },
+  trim: { minArgs: 1, maxArgs: 1, call: ([value]) => toText(value).trim() },
+  len: { minArgs: 1, maxArgs: 1, call: ([value]) => Array.from(toText(value)).length },
+  concat: { minArgs: 1, maxArgs: 20, call: (args) => args.map(toText).join('') },
+  coalesce: { minArgs: 1, maxArgs: 20, call: (args) => args.find((arg) => toText(arg) !== '') ?? null },
+  contains: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([text, search]) => toText(text).toLowerCase().includes(toText(search).toLowerCase()),
+  },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, decimals]) => {
+      const factor = 10 ** toDecimals(decimals);
+      return Math.round(toNumber(value) * factor) / factor;
+    },
+  },
+  format_number: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, decimals], context) => {
+      const digits = toDecimals(decimals);
+      return new Intl.NumberFormat(context.locale || DEFAULT_LOCALE, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).format(toNumber(value));
+    },
+  },
+  format_date: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, pattern], context) => {
+      try {
+        return formatDateValue(toText(value), {
+          format: pattern === undefined ? undefined : toText(pattern),
+          locale: context.locale,
+          timeZone: context.timeZone,
+        });
+      } catch (error) {
+        throw new ExpressionError(`format_date(): ${error instanceof Error ? error.message : 'invalid format'}`);
+      }
+    },
+  },
+};
+
+/**
+ * Parsed expressions, by source
+ */
+const compiled = new Map<string, ExpressionNode>();
+const MAX_COMPILED_EXPRESSIONS = 500;
+
+/**
+ * Check an expression's syntax, function names and argument counts
+ * @throws ExpressionError describing the first problem
+ */
+export function validateExpression(source: string): void {
+  compile(source);
+}
+
+/**
+ * Evaluate an expression against a data row
+ * @throws ExpressionError on syntax errors or invalid values (e.g. arithmetic on text)
+ */
+export function evaluateExpression(
+  source: string,
+  row: Record<string, unknown>,
+  context: ExpressionContext = {}
+): ExpressionValue {
+  const result = evaluate(compile(source), row, context);
+
+  if (typeof result === 'string' && result.length > MAX_RESULT_LENGTH) {
+    throw new ExpressionError(`Expression result exceeds ${MAX_RESULT_LENGTH} characters`);
+  }
+
+  return result;
+}
+
+/**
+ * Text of an expression value (null is empty)
+ */
+export function toText(value: ExpressionValue | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : '';
+  }
+  return String(value);
+}
+
+/**
+ * Whether a value counts as true in conditions
+ * null, false, 0 and empty text are false.
+ */
+export function isTruthy(value: ExpressionValue): boolean {
+  if (typeof value === 'string') {
+    return value.trim() !== '';
+  }
+  if (typeof value === 'number') {
+    return value !== 0 && !Number.isNaN(value);
+  }
+  return value === true;
+}
+
+function compile(source: string): ExpressionNode {
+  let node = compiled.get(source);
+  if (!node) {
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+      throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+
+    node = new Parser(tokenize(source)).parse();
+
+    if (compiled.size >= MAX_COMPILED_EXPRESSIONS) {
+      compiled.clear();
+    }
+    compiled.set(source, node);
+  }
+  return node;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index]!;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const position = index;
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] ?? ''))) {
+      const match = /^(?:\d+(?:\.\d*)?|\.\d+)/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: Number(match[0]), position });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          index++;
+        }
+        value += source[index];
+        index++;
+      }
+      if (index >= source.length) {
+        throw new ExpressionError('Unterminated text literal', position);
+      }
+      index++;
+      tokens.push({ type: 'string', value, position });
+      continue;
+    }
+
+    if (char === '[') {
+      const end = source.indexOf(']', index);
+      if (end === -1) {
+        throw new ExpressionError('Unterminated [column] reference', position);
+      }
+      const name = source.slice(index + 1, end).trim();
+      if (!name) {
+        throw new ExpressionError('Empty [column] reference', position);
+      }
+      tokens.push({ type: 'column', value: name, position });
+      index = end + 1;
+      continue;
+    }
+
+    const nameMatch = /^[\p{L}_][\p{L}\p{N}_]*/u.exec(source.slice(index));
+    if (nameMatch) {
+      tokens.push({ type: 'name', value: nameMatch[0], position });
+      index += nameMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator === '=' ? '==' : operator, position });
+      index += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}"`, position);
+  }
+
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, lowest precedence first:
+ * if/then/else, or, and, not, comparison, &, + -, * / %, unary -, primary
+ */
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.expression();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new ExpressionError(`Unexpected ${describe(next)}`, next.position);
+    }
+    return node;
+  }
+
+  private expression(): ExpressionNode {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply', this.peek().position);
+    }
+
+    let node: ExpressionNode;
+    if (this.matchKeyword('if')) {
+      const test = this.expression();
+      this.expectKeyword('then');
+      const consequent = this.expression();
+      const alternate = this.matchKeyword('else') ? this.expression() : null;
+      node = { type: 'conditional', test, consequent, alternate };
+    } else {
+      node = this.or();
+    }
+
+    this.depth--;
+    return node;
+  }
+
+  private or(): ExpressionNode {
+    let node = this.and();
+    while (this.matchKeyword('or')) {
+      node = { type: 'binary', operator: 'or', left: node, right: this.and() };
+    }
+    return node;
+  }
+
+  private and(): ExpressionNode {
+    let node = this.not();
+    while (this.matchKeyword('and')) {
+      node = { type: 'binary', operator: 'and', left: node, right: this.not() };
+    }
+    return node;
+  }
+
+  private not(): ExpressionNode {
+    if (this.matchKeyword('not')) {
+      return { type: 'unary', operator: 'not', operand: this.not() };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): ExpressionNode {
+    const node = this.concatenation();
+    const operator = this.matchOperator('==', '!=', '<', '<=', '>', '>=');
+    return operator ? { type: 'binary', operator, left: node, right: this.concatenation() } : node;
+  }
+
+  private concatenation(): ExpressionNode {
+    let node = this.additive();
+    while (this.matchOperator('&')) {
+      node = { type: 'binary', operator: '&', left: node, right: this.additive() };
+    }
+    return node;
+  }
+
+  private additive(): ExpressionNode {
+    let node = this.multiplicative();
+    let operator: BinaryOperator | null;
+    while ((operator = this.matchOperator('+', '-'))) {
+      node = { type: 'binary', operator, left: node, right: this.multiplicative() };
+    }
+    return node;
+  }
+
+  private multiplicative(): ExpressionNode {
+    let node = this.unary();
+    let operator: BinaryOperator | null;
+    while ((operator = this.matchOperator('*', '/', '%'))) {
+      node = { type: 'binary', operator, left: node, right: this.unary() };
+    }
+    return node;
+  }
+
+  private unary(): ExpressionNode {
+    if (this.matchOperator('-')) {
+      return { type: 'unary', operator: '-', operand: this.unary() };
+    }
+    return this.primary();
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'column':
+        return { type: 'column', name: token.value };
+      case 'name': {
+        const keyword = token.value.toLowerCase();
+        if (keyword === 'true' || keyword === 'false') {
+          return { type: 'literal', value: keyword === 'true' };
+        }
+        if (keyword === 'null') {
+          return { type: 'literal', value: null };
+        }
+        if (KEYWORDS.has(keyword)) {
+          throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+        }
+        if (this.matchOperator('(')) {
+          return this.call(token.value, token.position);
+        }
+        return { type: 'column', name: token.value };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.expression();
+          this.expectOperator(')');
+          return node;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+      case 'end':
+        throw new ExpressionError('Unexpected end of expression', token.position);
+    }
+  }
+
+  private call(name: string, position: number): ExpressionNode {
+    const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, name.toLowerCase())
+      ? FUNCTIONS[name.toLowerCase()]
+      : undefined;
+    if (!fn) {
+      throw new ExpressionError(
+        `Unknown function "${name}" (available: ${Object.keys(FUNCTIONS).join(', ')})`,
+        position
+      );
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.matchOperator(')')) {
+      do {
+        args.push(this.expression());
+      } while (this.matchOperator(','));
+      this.expectOperator(')');
+    }
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+      throw new ExpressionError(`${name}() takes ${expected} argument(s), got ${args.length}`, position);
+    }
+
+    return { type: 'call', name: name.toLowerCase(), args, position };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'name' && token.value.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchOperator<T extends string>(...operators: T[]): T | null {
+    const token = this.peek();
+    if (token.type === 'operator' && (operators as string[]).includes(token.value)) {
+      this.index++;
+      return token.value as T;
+    }
+    return null;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.matchKeyword(keyword)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected "${keyword}" but found ${describe(token)}`, token.position);
+    }
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.matchOperator(operator)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected "${operator}" but found ${describe(token)}`, token.position);
+    }
+  }
+}
+
+function evaluate(node: ExpressionNode, row: Record<string, unknown>, context: ExpressionContext): ExpressionValue {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'column':
+      return readColumn(row, node.name);
+    case 'unary':
+      return node.operator === 'not'
+        ? !isTruthy(evaluate(node.operand, row, context))
+        : -toNumber(evaluate(node.operand, row, context));
+    case 'conditional':
+      if (isTruthy(evaluate(node.test, row, context))) {
+        return evaluate(node.consequent, row, context);
+      }
+      return node.alternate ? evaluate(node.alternate, row, context) : null;
+    case 'call':
+      return FUNCTIONS[node.name]!.call(node.args.map((arg) => evaluate(arg, row, context)), context);
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, row, context);
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  row: Record<string, unknown>,
+  context: ExpressionContext
+): ExpressionValue {
+  // and / or short-circuit
+  if (operator === 'and') {
+    return isTruthy(evaluate(leftNode, row, context)) && isTruthy(evaluate(rightNode, row, context));
+  }
+  if (operator === 'or') {
+    return isTruthy(evaluate(leftNode, row, context)) || isTruthy(evaluate(rightNode, row, context));
+  }
+
+  const left = evaluate(leftNode, row, context);
+  const right = evaluate(rightNode, row, context);
+
+  switch (operator) {
+    case '&':
+      return toText(left) + toText(right);
+    case '+':
+      return toNumber(left) + toNumber(right);
+    case '-':
+      return toNumber(left) - toNumber(right);
+    case '*':
+      return toNumber(left) * toNumber(right);
+    case '/':
+    case '%': {
+      const divisor = toNumber(right);
+      if (divisor === 0) {
+        throw new ExpressionError('Division by zero');
+      }
+      return operator === '/' ? toNumber(left) / divisor : toNumber(left) % divisor;
+    }
+    default:
+      return compare(operator, left, right);
+  }
+}
+
+/**
+ * Compare as numbers when both sides are numeric, otherwise as text
+ */
+function compare(operator: '==' | '!=' | '<' | '<=' | '>' | '>=', left: ExpressionValue, right: ExpressionValue): boolean {
+  const leftNumber = asNumber(left);
+  const rightNumber = asNumber(right);
+  const numeric = leftNumber !== null && rightNumber !== null;
+
+  const a: number | string = numeric ? leftNumber : toText(left);
+  const b: number | string = numeric ? rightNumber : toText(right);
+
+  switch (operator) {
+    case '==':
+      return a === b;
+    case '!=':
+      return a !== b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+function readColumn(row: Record<string, unknown>, name: string): ExpressionValue {
+  // Own properties only: expressions never reach the prototype chain
+  if (!Object.prototype.hasOwnProperty.call(row, name)) {
+    return null;
+  }
+
+  const value = row[name];
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * Numeric value of numbers and numeric text; null otherwise
+ */
+function asNumber(value: ExpressionValue | undefined): number | null {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value.trim());
+    return Number.isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+function toNumber(value: ExpressionValue | undefined): number {
+  const number = asNumber(value);
+  if (number === null) {
+    throw new ExpressionError(`Expected a number but got ${toText(value) === '' ? 'an empty value' : `"${toText(value)}"`}`);
+  }
+  return number;
+}
+
+function toDecimals(value: ExpressionValue | undefined): number {
+  if (value === undefined) {
+    return 0;
+  }
+  const decimals = toNumber(value);
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 10) {
+    throw new ExpressionError('Decimals must be a whole number from 0 to 10');
+  }
+  return decimals;
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'end':
+      return 'end of expression';
+    case 'string':
+      return `"${token.value}"`;
+    case 'column':
+      return `[${token.value}]`;
+    default:
+      return `"${token.value}"`;
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * FIELD IMAGES
+ *
+ * Loads the images drawn by image fields (signatures, photos, logos):
+ * - asset: an organization asset (style.assetFileId), loaded once per template
+ * - column: per row, from the mapped column's value, which may be
+ *   - a files ID of the organization
+ *   - a storage path in one of the organization's folders (e.g. file_imports/<org_id>/...)
+ *   - the name of an image uploaded to the import (POST /import-jobs/:id/images)
+ *
+ * An empty column skips the field; a value that cannot be resolved fails the recipient.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FieldMapping } from './types.js';
+import { findFieldMapping, isImageField, type GeneratorField } from './pdf-generator.js';
+import { AssetRepository } from '../assets/repository.js';
+import { getImportImageFolder } from '../imports/repository.js';
+import { ValidationError } from '../../lib/errors/handler.js';
+import { ALLOWED_STORAGE_ROOTS } from '../../lib/storage/path-validator.js';
+import { sanitizeClientFilename } from '../../lib/uploads/filename.js';
+
+export type ImageSource = 'asset' | 'column';
+
+export const IMAGE_SOURCES: readonly ImageSource[] = ['asset', 'column'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Where an image field takes its image from (asset when it names one, otherwise its column)
+ */
+export function getImageSource(field: GeneratorField): ImageSource {
+  return field.imageSource ?? (field.assetFileId ? 'asset' : 'column');
+}
+
+/**
+ * Download the asset images of a template's image fields, keyed by field ID
+ * @throws ValidationError naming the field when its asset no longer exists
+ */
+export async function loadAssetImages(
+  supabase: SupabaseClient,
+  organizationId: string,
+  fields: GeneratorField[]
+): Promise<Map<string, Uint8Array>> {
+  const images = new Map<string, Uint8Array>();
+  const assets = new AssetRepository(supabase);
+
+  for (const field of fields) {
+    if (!isImageField(field) || getImageSource(field) !== 'asset') {
+      continue;
+    }
+
+    const asset = field.assetFileId ? await assets.findById(field.assetFileId, organizationId) : null;
+    if (!asset) {
+      throw new ValidationError(`Image field "${getFieldName(field)}" references an asset that no longer exists`, {
+        field_id: field.id,
+        asset_file_id: field.assetFileId ?? null,
+      });
+    }
+
+    images.set(field.id, await download(supabase, 'authentix', asset.path));
+  }
+
+  return images;
+}
+
+/**
+ * Images for one row, keyed by field ID
+ * Asset images come from the template context; column images are resolved from the row.
+ */
+export async function resolveFieldImages(params: {
+  supabase: SupabaseClient;
+  organizationId: string;
+  fields: GeneratorField[];
+  fieldMappings: FieldMapping[];
+  rowData: Record<string, unknown>;
+  assetImages: Map<string, Uint8Array>;
+  importJobId?: string;
+}): Promise<Map<string, Uint8Array>> {
+  const { supabase, organizationId, fields, fieldMappings, rowData, assetImages, importJobId } = params;
+  const images = new Map<string, Uint8Array>();
+
+  for (const field of fields) {
+    if (!isImageField(field)) {
+      continue;
+    }
+
+    if (getImageSource(field) === 'asset') {
+      const asset = assetImages.get(field.id);
+      if (asset) {
+        images.set(field.id, asset);
+      }
+      continue;
+    }
+
+    const mapping = findFieldMapping(field, fieldMappings);
+    const value = mapping ? String(rowData[mapping.columnName] ?? '').trim() : '';
+    if (!value) {
+      continue;
+    }
+
+    images.set(field.id, await resolveImageReference(supabase, organizationId, value, importJobId, field));
+  }
+
+  return images;
+}
+
+/**
+ * Download the image a row value refers to
+ */
+async function resolveImageReference(
+  supabase: SupabaseClient,
+  organizationId: string,
+  value: string,
+  importJobId: string | undefined,
+  field: GeneratorField
+): Promise<Uint8Array> {
+  // Files ID
+  if (UUID_PATTERN.test(value)) {
+    const { data, error } = await supabase
+      .from('files')
+      .select('bucket, path')
+      .eq('id', value)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find image file: ${error.message}`);
+    }
+
+    const file = data as { bucket: string; path: string } | null;
+    if (file) {
+      return download(supabase, file.bucket, file.path);
+    }
+  }
+
+  // Storage path, only within the organization's own folders
+  if (value.includes('/')) {
+    const path = value.replace(/^\/+/, '');
+    const inOrganization = ALLOWED_STORAGE_ROOTS.some((root) => path.startsWith(`${root}/${organizationId}/`));
+
+    if (!inOrganization || path.split('/').includes('..')) {
+      throw new Error(`Image field "${getFieldName(field)}": "${value}" is not a storage path of this organization`);
+    }
+
+    return download(supabase, 'authentix', path);
+  }
+
+  // File name of an image uploaded to the import
+  if (importJobId) {
+    const { data, error } = await supabase
+      .from('files')
+      .select('bucket, path')
+      .eq('organization_id', organizationId)
+      .eq('original_name', sanitizeClientFilename(value))
+      .like('path', `${getImportImageFolder(organizationId, importJobId)}/%`)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find import image: ${error.message}`);
+    }
+
+    const file = data as { bucket: string; path: string } | null;
+    if (file) {
+      return download(supabase, file.bucket, file.path);
+    }
+  }
+
+  throw new Error(`Image field "${getFieldName(field)}": image "${value}" not found`);
+}
+
+async function download(supabase: SupabaseClient, bucket: string, path: string): Promise<Uint8Array> {
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+
+  if (error || !data) {
+    throw new Error(`Failed to download image ${path}: ${error?.message || 'Unknown error'}`);
+  }
+
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+function getFieldName(field: GeneratorField): string {
+  return field.label ?? field.field_key ?? field.id;
+}
@@ -0,0 +1,364 @@
+/**
+ * CERTIFICATE FONTS
+ *
+ * Picks the fonts used to draw field text:
+ * - Organization fonts (font library) when the field's fontFamily names one, embedded subset
+ * - Standard PDF fonts (Helvetica, Times, Courier) otherwise
+ * - Bundled Noto fonts as a per-glyph fallback for characters the field font lacks
+ *   (Devanagari, Tamil, Arabic, CJK, ...)
+ *
+ * Text is split into runs, each drawn with the first font in the chain that has
+ * its glyphs. PDF output draws runs with embedded fonts; image output draws them
+ * as glyph outlines, so both formats use the same fonts and metrics.
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import fontkit, { type Font } from '@pdf-lib/fontkit';
+import { StandardFonts, type PDFDocument, type PDFFont } from 'pdf-lib';
+import { config } from '../../lib/config/env.js';
+import type { FontFaceData } from '../fonts/types.js';
+import { ELLIPSIS } from './text-layout.js';
+
+/**
+ * Fallback fonts in FONT_FALLBACK_DIR, tried in this order
+ * Fetched at build time by scripts/fetch-noto-fonts.sh
+ */
+export const FALLBACK_FONT_FILES = [
+  'NotoSans-Regular.ttf', // Latin, Greek, Cyrillic
+  'NotoSansDevanagari-Regular.ttf', // Hindi, Marathi, Nepali, Sanskrit
+  'NotoSansBengali-Regular.ttf',
+  'NotoSansTamil-Regular.ttf',
+  'NotoSansTelugu-Regular.ttf',
+  'NotoSansKannada-Regular.ttf',
+  'NotoSansMalayalam-Regular.ttf',
+  'NotoSansGujarati-Regular.ttf',
+  'NotoSansGurmukhi-Regular.ttf',
+  'NotoSansOriya-Regular.ttf',
+  'NotoSansArabic-Regular.ttf', // Arabic, Urdu, Persian
+  'NotoSansHebrew-Regular.ttf',
+  'NotoSansThai-Regular.ttf',
+  'NotoSansSC-Regular.otf', // Chinese, Japanese kana and kanji
+  'NotoSansKR-Regular.otf', // Korean
+] as const;
+
+/**
+ * Field properties that select a font
+ */
+export interface FontSelection {
+  fontFamily: string;
+  fontWeight?: string;
+  fontStyle?: string;
+}
+
+/**
+ * A stretch of text drawn with one font
+ */
+export interface TextRun<F> {
+  text: string;
+  font: F;
+}
+
+/**
+ * A font in a fallback chain
+ */
+interface ChainFont<F> {
+  font: F;
+  covers: (codePoint: number) => boolean;
+}
+
+const STANDARD_FONT_MAP: Record<string, keyof typeof StandardFonts> = {
+  Arial: 'Helvetica',
+  Helvetica: 'Helvetica',
+  'Times New Roman': 'TimesRoman',
+  Times: 'TimesRoman',
+  Courier: 'Courier',
+  'Courier New': 'Courier',
+};
+
+/**
+ * Combining marks and joiners stay with the preceding run when its font has them,
+ * so scripts like Devanagari are shaped as a whole
+ */
+const JOINING_CHAR = /[\p{M}\u200C\u200D]/u;
+
+/**
+ * Standard PDF font for a fontFamily (Helvetica when unknown)
+ */
+export function getStandardFont(fontFamily: string): StandardFonts {
+  return StandardFonts[STANDARD_FONT_MAP[fontFamily] ?? 'Helvetica'];
+}
+
+/**
+ * Organization font face matching the field's family, weight and style
+ * Falls back to another face of the same family; null when the family is not in the library.
+ */
+export function findFontFace(faces: FontFaceData[], selection: FontSelection): FontFaceData | null {
+  const family = selection.fontFamily.trim().toLowerCase();
+  const candidates = faces.filter((face) => face.family.toLowerCase() === family);
+
+  const weight = selection.fontWeight === 'bold' || Number(selection.fontWeight) >= 600 ? 'bold' : 'normal';
+  const style = selection.fontStyle === 'italic' ? 'italic' : 'normal';
+
+  return (
+    candidates.find((face) => face.weight === weight && face.style === style) ??
+    candidates.find((face) => face.weight === weight) ??
+    candidates.find((face) => face.weight === 'normal' && face.style === 'normal') ??
+    candidates[0] ??
+    null
+  );
+}
+
+/**
+ * Text measured and split into runs over a font chain
+ */
+export class TextFonts<F> {
+  constructor(
+    private readonly chain: ChainFont<F>[],
+    private readonly measure: (font: F, text: string, fontSize: number) => number
+  ) {}
+
+  /**
+   * Split text into runs by font
+   * @throws Error naming the character when no font in the chain has it
+   */
+  runs(text: string): TextRun<F>[] {
+    const runs: TextRun<F>[] = [];
+    let current: TextRun<F> | null = null;
+    let currentEntry: ChainFont<F> | null = null;
+
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      let entry: ChainFont<F> | null;
+      if (codePoint < 0x20) {
+        // Control characters (line breaks) are not drawn; keep them in the current run
+        entry = currentEntry ?? this.chain[0] ?? null;
+      } else if (currentEntry && JOINING_CHAR.test(char) && currentEntry.covers(codePoint)) {
+        entry = currentEntry;
+      } else {
+        entry = firstCovering(this.chain, codePoint);
+      }
+
+      if (!entry) {
+        throw new Error(
+          `No font can render "${char}" (U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}). ` +
+          'Upload a font that supports it or install the fallback fonts.'
+        );
+      }
+
+      if (current && entry === currentEntry) {
+        current.text += char;
+      } else {
+        current = { text: char, font: entry.font };
+        currentEntry = entry;
+        runs.push(current);
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Width of text at a font size (sum of its runs)
+   */
+  widthOfTextAtSize(text: string, fontSize: number): number {
+    return this.runs(text).reduce((width, run) => width + this.measure(run.font, run.text, fontSize), 0);
+  }
+}
+
+/**
+ * Fonts embedded into one PDF document
+ * Each font is embedded once per document, custom fonts with subsetting.
+ *
+ * With embedStandardFonts (PDF/A, which requires every font to be embedded),
+ * fields using a standard font are drawn with the first Latin fallback font
+ * (Noto Sans) instead.
+ */
+export class PdfFontSet {
+  private readonly embedded = new Map<Uint8Array | StandardFonts, Promise<PDFFont>>();
+
+  constructor(
+    private readonly pdfDoc: PDFDocument,
+    private readonly customFonts: FontFaceData[],
+    private readonly fallbackFonts: Uint8Array[],
+    private readonly options: { embedStandardFonts?: boolean } = {}
+  ) {
+    pdfDoc.registerFontkit(fontkit);
+  }
+
+  /**
+   * Font chain for a field, with every font the text needs embedded
+   */
+  async forText(selection: FontSelection, text: string): Promise<TextFonts<PDFFont>> {
+    const customBytes = findFontFace(this.customFonts, selection)?.bytes
+      ?? (this.options.embedStandardFonts ? this.getStandardFontSubstitute() : undefined);
+    const primaryKey = customBytes ?? getStandardFont(selection.fontFamily);
+
+    let primaryCovers: (codePoint: number) => boolean;
+    if (customBytes) {
+      primaryCovers = (codePoint) => parseFont(customBytes).charset.has(codePoint);
+    } else {
+      const charset = new Set((await this.embed(primaryKey)).getCharacterSet());
+      primaryCovers = (codePoint) => charset.has(codePoint);
+    }
+
+    const chain: ChainFont<Uint8Array | StandardFonts>[] = [
+      { font: primaryKey, covers: primaryCovers },
+      ...this.fallbackFonts.map((bytes) => ({
+        font: bytes,
+        covers: (codePoint: number) => parseFont(bytes).charset.has(codePoint),
+      })),
+    ];
+
+    // Embed only the fonts the text (or an ellipsis added by layout) actually uses.
+    // Runs over any part of the text resolve to fonts from this set.
+    const needed = new Set<Uint8Array | StandardFonts>([primaryKey]);
+    for (const char of `${text}${ELLIPSIS}`) {
+      const entry = firstCovering(chain, char.codePointAt(0)!);
+      if (entry) {
+        needed.add(entry.font);
+      }
+    }
+
+    const resolved: ChainFont<PDFFont>[] = [];
+    for (const entry of chain) {
+      if (needed.has(entry.font)) {
+        resolved.push({ font: await this.embed(entry.font), covers: entry.covers });
+      }
+    }
+
+    return new TextFonts(resolved, (font, runText, fontSize) => font.widthOfTextAtSize(runText, fontSize));
+  }
+
+  /**
+   * @throws Error when no fallback font covers Latin text
+   */
+  private getStandardFontSubstitute(): Uint8Array {
+    const substitute = this.fallbackFonts.find((bytes) => parseFont(bytes).charset.has(0x41));
+    if (!substitute) {
+      throw new Error('PDF/A output needs an embeddable font: upload one or install the fallback fonts.');
+    }
+    return substitute;
+  }
+
+  private embed(key: Uint8Array | StandardFonts): Promise<PDFFont> {
+    let font = this.embedded.get(key);
+    if (!font) {
+      font = typeof key === 'string'
+        ? this.pdfDoc.embedFont(key)
+        : this.pdfDoc.embedFont(key, { subset: true });
+      this.embedded.set(key, font);
+    }
+    return font;
+  }
+}
+
+/**
+ * Outline font chain for image output
+ * Returns null when the field uses a standard font and the text is within its
+ * character set, so it can be drawn as plain SVG text.
+ */
+export function getOutlineTextFonts(
+  selection: FontSelection,
+  text: string,
+  customFonts: FontFaceData[],
+  fallbackFonts: Uint8Array[],
+  standardCharset: Set<number>
+): TextFonts<Font> | null {
+  const custom = findFontFace(customFonts, selection);
+
+  if (!custom && Array.from(text).every((char) => standardCharset.has(char.codePointAt(0)!))) {
+    return null;
+  }
+
+  const chain = [...(custom ? [custom.bytes] : []), ...fallbackFonts].map((bytes) => ({
+    font: parseFont(bytes).font,
+    covers: (codePoint: number) => parseFont(bytes).charset.has(codePoint),
+  }));
+
+  return new TextFonts(chain, (font, runText, fontSize) =>
+    (font.layout(runText).advanceWidth * fontSize) / font.unitsPerEm
+  );
+}
+
+/**
+ * Draw text as SVG glyph outlines starting at x on the given baseline
+ */
+export function textRunsToSvg(runs: TextRun<Font>[], x: number, baseline: number, fontSize: number): string {
+  const groups: string[] = [];
+  let penX = x;
+
+  for (const run of runs) {
+    const scale = fontSize / run.font.unitsPerEm;
+    const glyphRun = run.font.layout(run.text);
+    const paths: string[] = [];
+    let advance = 0;
+
+    glyphRun.glyphs.forEach((glyph, index) => {
+      const position = glyphRun.positions[index];
+      const d = glyph.path.toSVG();
+      if (d) {
+        paths.push(`<path transform="translate(${advance + (position?.xOffset ?? 0)} ${position?.yOffset ?? 0})" d="${d}"/>`);
+      }
+      advance += position?.xAdvance ?? glyph.advanceWidth;
+    });
+
+    // Font units are y-up; flip onto the SVG baseline
+    groups.push(`<g transform="translate(${penX} ${baseline}) scale(${scale} ${-scale})">${paths.join('')}</g>`);
+    penX += advance * scale;
+  }
+
+  return groups.join('');
+}
+
+/**
+ * Read the bundled fallback fonts (once per process)
+ * Missing files are skipped with a warning; text needing them then fails with a clear error.
+ */
+let fallbackFontsPromise: Promise<Uint8Array[]> | null = null;
+
+export function loadFallbackFonts(): Promise<Uint8Array[]> {
+  fallbackFontsPromise ??= (async () => {
+    const dir = path.resolve(config.FONT_FALLBACK_DIR);
+    const fonts: Uint8Array[] = [];
+    const missing: string[] = [];
+
+    for (const file of FALLBACK_FONT_FILES) {
+      try {
+        fonts.push(new Uint8Array(await readFile(path.join(dir, file))));
+      } catch {
+        missing.push(file);
+      }
+    }
+
+    if (missing.length > 0) {
+      console.warn('[CertificateFonts] Fallback fonts missing; characters only they cover cannot be rendered:', {
+        dir,
+        missing,
+      });
+    }
+
+    return fonts;
+  })();
+
+  return fallbackFontsPromise;
+}
+
+/**
+ * Parsed fonts and their character sets, cached per font buffer
+ */
+const parsedFonts = new WeakMap<Uint8Array, { font: Font; charset: Set<number> }>();
+
+function parseFont(bytes: Uint8Array): { font: Font; charset: Set<number> } {
+  let parsed = parsedFonts.get(bytes);
+  if (!parsed) {
+    const font = fontkit.create(bytes);
+    parsed = { font, charset: new Set(font.characterSet) };
+    parsedFonts.set(bytes, parsed);
+  }
+  return parsed;
+}
+
+function firstCovering<F>(chain: ChainFont<F>[], codePoint: number): ChainFont<F> | null {
+  return chain.find((entry) => entry.covers(codePoint)) ?? null;
+}
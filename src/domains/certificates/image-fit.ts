@@ -0,0 +1,93 @@
+/**
+ * IMAGE FIT
+ *
+ * Scales images for image fields into their field box, for PDF and image output:
+ * - contain: whole image, scaled to fit and centred (may leave empty space)
+ * - cover: fills the box, cropping the overflowing edges around the centre
+ *
+ * The source resolution is kept so images stay sharp when the PDF is zoomed or printed.
+ */
+
+import sharp from 'sharp';
+
+export type ImageFitMode = 'contain' | 'cover';
+
+export const IMAGE_FIT_MODES: readonly ImageFitMode[] = ['contain', 'cover'];
+
+/**
+ * Image ready to draw, positioned relative to the field box's top-left corner
+ */
+export interface FittedImage {
+  bytes: Buffer;
+  format: 'png' | 'jpeg';
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Fit an image into a box
+ * Applies EXIF orientation; JPEG stays JPEG, other formats become PNG (keeps transparency).
+ */
+export async function fitImage(
+  source: Uint8Array,
+  box: { width: number; height: number },
+  fit: ImageFitMode = 'contain'
+): Promise<FittedImage> {
+  const oriented = await sharp(source).rotate().toBuffer({ resolveWithObject: true });
+  const { width: sourceWidth, height: sourceHeight, format: sourceFormat } = oriented.info;
+
+  if (!sourceWidth || !sourceHeight) {
+    throw new Error('Image has no dimensions');
+  }
+
+  const format = sourceFormat === 'jpeg' ? 'jpeg' : 'png';
+  let image = sharp(oriented.data);
+
+  if (fit === 'cover') {
+    // Crop the source to the box's aspect ratio, then draw it over the whole box
+    const boxRatio = box.width / box.height;
+    let cropWidth = sourceWidth;
+    let cropHeight = sourceHeight;
+
+    if (sourceWidth / sourceHeight > boxRatio) {
+      cropWidth = Math.max(1, Math.round(sourceHeight * boxRatio));
+    } else {
+      cropHeight = Math.max(1, Math.round(sourceWidth / boxRatio));
+    }
+
+    image = image.extract({
+      left: Math.floor((sourceWidth - cropWidth) / 2),
+      top: Math.floor((sourceHeight - cropHeight) / 2),
+      width: cropWidth,
+      height: cropHeight,
+    });
+
+    return {
+      bytes: await toFormat(image, format),
+      format,
+      offsetX: 0,
+      offsetY: 0,
+      width: box.width,
+      height: box.height,
+    };
+  }
+
+  const scale = Math.min(box.width / sourceWidth, box.height / sourceHeight);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+
+  return {
+    bytes: await toFormat(image, format),
+    format,
+    offsetX: (box.width - width) / 2,
+    offsetY: (box.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+function toFormat(image: sharp.Sharp, format: FittedImage['format']): Promise<Buffer> {
+  return format === 'jpeg' ? image.jpeg({ quality: 90 }).toBuffer() : image.png().toBuffer();
+}
@@ -0,0 +1,390 @@
+/**
+ * PDF METADATA AND ARCHIVAL OUTPUT
+ *
+ * Writes certificate details into generated PDFs as document info and XMP
+ * metadata (authentix: namespace), so archives and document management systems
+ * can index them without parsing the page content.
+ *
+ * With a conformance level the PDF is also made PDF/A-2b or PDF/A-3b:
+ * - XMP with the PDF/A identification and an extension schema for authentix: properties
+ * - sRGB output intent (field colors and images are device RGB)
+ * - document ID in the trailer
+ * - PDF/A-3b only: the certificate's Open Badges credential (VC-JWT) as an attachment
+ *
+ * Fonts must be embedded as well (see PdfFontSet). Content already in a PDF
+ * template is kept as is, so templates must themselves be PDF/A-compatible
+ * (e.g. exported as PDF/A by the design tool) for the output to conform.
+ *
+ * readCertificateMetadata reads the authentix: properties back, to identify
+ * the certificate an uploaded (possibly modified) PDF was issued as.
+ */
+
+import crypto from 'node:crypto';
+import sharp from 'sharp';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFString,
+  decodePDFRawStream,
+  type PDFObject,
+  type PDFRef,
+} from 'pdf-lib';
+
+export type PdfConformance = 'pdfa-2b' | 'pdfa-3b';
+
+/**
+ * Certificate details written into the PDF
+ */
+export interface CertificateMetadata {
+  certificateNumber: string;
+  issuerName: string;
+  recipientName: string;
+  issuedAt: Date;
+  expiresAt: Date | null;
+  verificationUrl: string | null;
+}
+
+export interface ArchivalOptions {
+  conformance: PdfConformance;
+  /** Open Badges credential (VC-JWT) to attach as credential.jwt (PDF/A-3b only) */
+  credentialJwt?: string | null;
+}
+
+const PRODUCER = 'Authentix';
+
+const AUTHENTIX_NS = 'https://authentix.com/ns/certificate/1.0/';
+
+/**
+ * authentix: XMP properties, described in the PDF/A extension schema
+ */
+const AUTHENTIX_PROPERTIES = [
+  { name: 'CertificateNumber', valueType: 'Text', description: 'Certificate number' },
+  { name: 'IssuerName', valueType: 'Text', description: 'Name of the issuing organization' },
+  { name: 'RecipientName', valueType: 'Text', description: 'Name of the certificate recipient' },
+  { name: 'IssuedAt', valueType: 'Date', description: 'Issue date' },
+  { name: 'ExpiresAt', valueType: 'Date', description: 'Expiry date' },
+  { name: 'VerificationURL', valueType: 'URL', description: 'URL verifying the certificate online' },
+] as const;
+
+/**
+ * Write certificate metadata, and make the document PDF/A when requested
+ * Call after the page content is final.
+ */
+export async function writeCertificateMetadata(
+  pdfDoc: PDFDocument,
+  metadata: CertificateMetadata,
+  archival?: ArchivalOptions | null
+): Promise<void> {
+  // XMP dates carry no milliseconds; keep both dates identical to the info dictionary
+  const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const title = `Certificate ${metadata.certificateNumber}`;
+  const subject = `Issued to ${metadata.recipientName}`;
+
+  pdfDoc.setTitle(title);
+  pdfDoc.setAuthor(metadata.issuerName);
+  pdfDoc.setSubject(subject);
+  pdfDoc.setKeywords([metadata.certificateNumber]);
+  pdfDoc.setProducer(PRODUCER);
+  pdfDoc.setCreator(PRODUCER);
+  pdfDoc.setCreationDate(now);
+  pdfDoc.setModificationDate(now);
+
+  const xmp = buildXmp({ title, subject, date: now, metadata, conformance: archival?.conformance ?? null });
+  const metadataStream = pdfDoc.context.stream(Buffer.from(xmp, 'utf8'), {
+    Type: 'Metadata',
+    Subtype: 'XML',
+  });
+  pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(metadataStream));
+
+  if (!archival) {
+    return;
+  }
+
+  await addOutputIntent(pdfDoc);
+  addDocumentId(pdfDoc);
+
+  if (archival.credentialJwt && archival.conformance === 'pdfa-3b') {
+    attachCredential(pdfDoc, archival.credentialJwt, now);
+  }
+}
+
+/**
+ * Read the authentix: XMP properties of a PDF
+ * @returns null when the file is not a readable PDF or carries no certificate metadata
+ */
+export async function readCertificateMetadata(
+  pdfBytes: Uint8Array
+): Promise<{ certificateNumber: string | null; verificationUrl: string | null } | null> {
+  let xmp: string;
+  try {
+    const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+    const stream = pdfDoc.catalog.lookup(PDFName.of('Metadata'));
+    if (!(stream instanceof PDFRawStream)) {
+      return null;
+    }
+    xmp = Buffer.from(decodePDFRawStream(stream).decode()).toString('utf8');
+  } catch {
+    return null;
+  }
+
+  if (!xmp.includes(AUTHENTIX_NS)) {
+    return null;
+  }
+
+  return {
+    certificateNumber: readXmpProperty(xmp, 'CertificateNumber'),
+    verificationUrl: readXmpProperty(xmp, 'VerificationURL'),
+  };
+}
+
+/**
+ * sRGB profile (from libvips), read once per process
+ */
+let srgbProfilePromise: Promise<Buffer> | null = null;
+
+function loadSrgbProfile(): Promise<Buffer> {
+  srgbProfilePromise ??= (async () => {
+    const jpeg = await sharp({ create: { width: 1, height: 1, channels: 3, background: '#ffffff' } })
+      .withIccProfile('srgb')
+      .jpeg()
+      .toBuffer();
+    const { icc } = await sharp(jpeg).metadata();
+    if (!icc) {
+      throw new Error('sRGB ICC profile is not available');
+    }
+    return icc;
+  })();
+
+  return srgbProfilePromise;
+}
+
+/**
+ * Declare sRGB as the output intent, unless the template already declares one
+ */
+async function addOutputIntent(pdfDoc: PDFDocument): Promise<void> {
+  if (pdfDoc.catalog.has(PDFName.of('OutputIntents'))) {
+    return;
+  }
+
+  const context = pdfDoc.context;
+  const profile = context.register(context.flateStream(await loadSrgbProfile(), { N: 3 }));
+
+  const outputIntent = context.register(context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of('sRGB IEC61966-2.1'),
+    Info: PDFString.of('sRGB IEC61966-2.1'),
+    DestOutputProfile: profile,
+  }));
+
+  pdfDoc.catalog.set(PDFName.of('OutputIntents'), context.obj([outputIntent]));
+}
+
+/**
+ * PDF/A requires a document ID; templates that have one keep it
+ */
+function addDocumentId(pdfDoc: PDFDocument): void {
+  const context = pdfDoc.context;
+  if (context.trailerInfo.ID) {
+    return;
+  }
+
+  const id = crypto.randomBytes(16).toString('hex');
+  context.trailerInfo.ID = context.obj([PDFHexString.of(id), PDFHexString.of(id)]);
+}
+
+/**
+ * Attach the signed credential as credential.jwt (associated file, relationship Data)
+ * Verifiable on its own, like GET /certificates/:id/credential.
+ */
+function attachCredential(pdfDoc: PDFDocument, credentialJwt: string, date: Date): void {
+  const context = pdfDoc.context;
+  const fileName = 'credential.jwt';
+  const bytes = Buffer.from(credentialJwt, 'utf8');
+
+  const embeddedFile = context.register(context.flateStream(bytes, {
+    Type: 'EmbeddedFile',
+    Subtype: 'application/vc+jwt',
+    Params: { Size: bytes.length, ModDate: PDFString.fromDate(date) },
+  }));
+
+  const fileSpec = context.register(context.obj({
+    Type: 'Filespec',
+    F: PDFString.of(fileName),
+    UF: PDFHexString.fromText(fileName),
+    EF: { F: embeddedFile, UF: embeddedFile },
+    Desc: PDFHexString.fromText('Open Badges credential (VC-JWT)'),
+    AFRelationship: 'Data',
+  }));
+
+  addToNameTree(pdfDoc, fileName, fileSpec);
+
+  const associatedFiles = pdfDoc.catalog.lookupMaybe(PDFName.of('AF'), PDFArray);
+  if (associatedFiles) {
+    associatedFiles.push(fileSpec);
+  } else {
+    pdfDoc.catalog.set(PDFName.of('AF'), context.obj([fileSpec]));
+  }
+}
+
+/**
+ * Add a file to the catalog's EmbeddedFiles name tree
+ * Template attachments are kept when the tree is a single flat Names array.
+ */
+function addToNameTree(pdfDoc: PDFDocument, name: string, fileSpec: PDFRef): void {
+  const context = pdfDoc.context;
+
+  let names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  if (!names) {
+    names = context.obj({});
+    pdfDoc.catalog.set(PDFName.of('Names'), names);
+  }
+
+  const existing = names.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict)?.lookupMaybe(PDFName.of('Names'), PDFArray);
+  const entries: [string, PDFObject][] = [];
+  if (existing) {
+    for (let i = 0; i + 1 < existing.size(); i += 2) {
+      const key = existing.lookup(i);
+      if (key instanceof PDFString || key instanceof PDFHexString) {
+        entries.push([key.decodeText(), existing.get(i + 1)]);
+      }
+    }
+  }
+  entries.push([name, fileSpec]);
+
+  // Name tree keys are sorted
+  entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const array = context.obj([]);
+  for (const [key, value] of entries) {
+    array.push(PDFString.of(key));
+    array.push(value);
+  }
+  names.set(PDFName.of('EmbeddedFiles'), context.obj({ Names: array }));
+}
+
+/**
+ * XMP packet mirroring the info dictionary, plus the authentix: properties
+ */
+function buildXmp(params: {
+  title: string;
+  subject: string;
+  date: Date;
+  metadata: CertificateMetadata;
+  conformance: PdfConformance | null;
+}): string {
+  const { title, subject, date, metadata, conformance } = params;
+  const xmpDate = date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const certificateProperties = [
+    ['CertificateNumber', metadata.certificateNumber],
+    ['IssuerName', metadata.issuerName],
+    ['RecipientName', metadata.recipientName],
+    ['IssuedAt', metadata.issuedAt.toISOString()],
+    ['ExpiresAt', metadata.expiresAt?.toISOString() ?? null],
+    ['VerificationURL', metadata.verificationUrl],
+  ]
+    .filter((property): property is [string, string] => property[1] !== null)
+    .map(([name, value]) => `      <authentix:${name}>${escapeXml(value)}</authentix:${name}>`);
+
+  const identification = conformance
+    ? [
+      `      <pdfaid:part>${conformance === 'pdfa-3b' ? 3 : 2}</pdfaid:part>`,
+      '      <pdfaid:conformance>B</pdfaid:conformance>',
+    ]
+    : [];
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '    <rdf:Description rdf:about=""',
+    '        xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '        xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    '        xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"',
+    `        xmlns:authentix="${AUTHENTIX_NS}">`,
+    '      <dc:format>application/pdf</dc:format>',
+    `      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title>`,
+    `      <dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.issuerName)}</rdf:li></rdf:Seq></dc:creator>`,
+    `      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(subject)}</rdf:li></rdf:Alt></dc:description>`,
+    `      <pdf:Keywords>${escapeXml(metadata.certificateNumber)}</pdf:Keywords>`,
+    `      <pdf:Producer>${PRODUCER}</pdf:Producer>`,
+    `      <xmp:CreatorTool>${PRODUCER}</xmp:CreatorTool>`,
+    `      <xmp:CreateDate>${xmpDate}</xmp:CreateDate>`,
+    `      <xmp:ModifyDate>${xmpDate}</xmp:ModifyDate>`,
+    `      <xmp:MetadataDate>${xmpDate}</xmp:MetadataDate>`,
+    ...identification,
+    ...certificateProperties,
+    '    </rdf:Description>',
+    ...buildExtensionSchema(),
+    '  </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+/**
+ * PDF/A extension schema declaring the authentix: properties
+ */
+function buildExtensionSchema(): string[] {
+  const properties = AUTHENTIX_PROPERTIES.map((property) => [
+    '              <rdf:li rdf:parseType="Resource">',
+    `                <pdfaProperty:name>${property.name}</pdfaProperty:name>`,
+    `                <pdfaProperty:valueType>${property.valueType}</pdfaProperty:valueType>`,
+    '                <pdfaProperty:category>external</pdfaProperty:category>',
+    `                <pdfaProperty:description>${property.description}</pdfaProperty:description>`,
+    '              </rdf:li>',
+  ]).flat();
+
+  return [
+    '    <rdf:Description rdf:about=""',
+    '        xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"',
+    '        xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"',
+    '        xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">',
+    '      <pdfaExtension:schemas>',
+    '        <rdf:Bag>',
+    '          <rdf:li rdf:parseType="Resource">',
+    '            <pdfaSchema:schema>Authentix Certificate</pdfaSchema:schema>',
+    `            <pdfaSchema:namespaceURI>${AUTHENTIX_NS}</pdfaSchema:namespaceURI>`,
+    '            <pdfaSchema:prefix>authentix</pdfaSchema:prefix>',
+    '            <pdfaSchema:property>',
+    '              <rdf:Seq>',
+    ...properties,
+    '              </rdf:Seq>',
+    '            </pdfaSchema:property>',
+    '          </rdf:li>',
+    '        </rdf:Bag>',
+    '      </pdfaExtension:schemas>',
+    '    </rdf:Description>',
+  ];
+}
+
+/**
+ * Value of an authentix: property, written as an element or (by other XMP writers) an attribute
+ */
+function readXmpProperty(xmp: string, name: string): string | null {
+  const match = new RegExp(`<authentix:${name}>([^<]*)</authentix:${name}>|authentix:${name}="([^"]*)"`).exec(xmp);
+  const value = match?.[1] ?? match?.[2];
+  return value ? unescapeXml(value.trim()) : null;
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
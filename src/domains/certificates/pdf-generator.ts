@@ -4,13 +4,37 @@
  * Service for generating certificate PDFs or images from templates.
  * - PDF templates → output as PDF with overlaid text
  * - Image templates → output as image (same format) with overlaid text
+ *
+ * Text uses organization fonts or standard fonts, with Noto fallback per glyph (see fonts.ts).
+ * Image fields draw images loaded by field-images.ts, scaled into the field box (see image-fit.ts).
+ * Barcode fields are drawn as vectors (see barcodes.ts).
+ * Fields can compute their value and be hidden by condition (see expressions.ts).
+ * PDFs carry certificate metadata and can be made PDF/A (see pdf-archival.ts).
  */
 
-import { PDFDocument, rgb, StandardFonts, type PDFPage } from 'pdf-lib';
+import { PDFDocument, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
 import QRCode from 'qrcode';
-import { format } from 'date-fns';
 import sharp from 'sharp';
 import type { FieldMapping } from './types.js';
+import type { FontFaceData } from '../fonts/types.js';
+import { layoutText, type TextOverflowMode } from './text-layout.js';
+import {
+  PdfFontSet,
+  getOutlineTextFonts,
+  getStandardFont,
+  loadFallbackFonts,
+  textRunsToSvg,
+} from './fonts.js';
+import { fitImage, type ImageFitMode } from './image-fit.js';
+import { ExpressionError, evaluateExpression, isTruthy, toText, type ExpressionContext } from './expressions.js';
+import { formatDateValue } from './date-format.js';
+import {
+  renderBarcodePath,
+  type BarcodeOptions,
+  type BarcodePayload,
+  type BarcodeSymbology,
+} from './barcodes.js';
+import { writeCertificateMetadata, type ArchivalOptions, type CertificateMetadata } from './pdf-archival.js';
 
 /**
  * Internal field type for certificate generation
@@ -35,6 +59,23 @@ export interface GeneratorField {
   prefix?: string;
   suffix?: string;
   dateFormat?: string;
+  dateInputFormat?: string;
+  // Text overflow handling (see text-layout.ts)
+  overflow?: TextOverflowMode;
+  minFontSize?: number;
+  lineHeight?: number;
+  // Image fields (see field-images.ts)
+  imageSource?: 'asset' | 'column';
+  assetFileId?: string;
+  imageFit?: ImageFitMode;
+  // Barcode fields (see barcodes.ts)
+  symbology?: BarcodeSymbology;
+  barcodePayload?: BarcodePayload;
+  quietZone?: number;
+  errorCorrection?: string;
+  // Computed value and visibility condition (see expressions.ts)
+  expression?: string;
+  condition?: string;
   style?: Record<string, unknown>;
   required?: boolean;
 }
@@ -49,7 +90,22 @@ interface GeneratePDFOptions {
   rowData: Record<string, unknown>;
   includeQR: boolean;
   verificationToken?: string;
+  /** QR code content; defaults to the verification URL */
+  qrContent?: string;
+  /** Encoded by barcode fields whose payload is the certificate number */
+  certificateNumber?: string;
   appUrl: string;
+  /** Template locale (BCP 47) and timezone (IANA) for dates and numbers */
+  locale?: string | null;
+  timeZone?: string | null;
+  /** Organization font faces used by the template's fields */
+  fonts?: FontFaceData[];
+  /** Images for image fields, keyed by field ID (fields without one are skipped) */
+  images?: Map<string, Uint8Array>;
+  /** Certificate details written as document info and XMP metadata */
+  metadata?: CertificateMetadata;
+  /** PDF/A conformance of the output (requires metadata) */
+  archival?: ArchivalOptions | null;
 }
 
 interface GenerateImageOptions {
@@ -60,7 +116,18 @@ interface GenerateImageOptions {
   rowData: Record<string, unknown>;
   includeQR: boolean;
   verificationToken?: string;
+  /** QR code content; defaults to the verification URL */
+  qrContent?: string;
+  /** Encoded by barcode fields whose payload is the certificate number */
+  certificateNumber?: string;
   appUrl: string;
+  /** Template locale (BCP 47) and timezone (IANA) for dates and numbers */
+  locale?: string | null;
+  timeZone?: string | null;
+  /** Organization font faces used by the template's fields */
+  fonts?: FontFaceData[];
+  /** Images for image fields, keyed by field ID (fields without one are skipped) */
+  images?: Map<string, Uint8Array>;
 }
 
 /**
@@ -79,12 +146,22 @@ export async function generateCertificatePDF(
     rowData,
     includeQR,
     verificationToken,
+    qrContent,
+    certificateNumber,
     appUrl,
+    fonts = [],
+    images = new Map<string, Uint8Array>(),
+    locale,
+    timeZone,
+    metadata,
+    archival,
   } = options;
+  const formatting: ExpressionContext = { locale, timeZone };
 
   // Log field mapping details for debugging
   console.log('[PDFGenerator] Starting certificate generation with:', {
     template_type: templateType,
+    pdf_conformance: archival?.conformance ?? null,
     fields_count: fields.length,
     field_mappings_count: fieldMappings.length,
     row_data_keys: Object.keys(rowData),
@@ -93,20 +170,14 @@ export async function generateCertificatePDF(
   });
 
   let pdfDoc: PDFDocument;
-  let firstPage: PDFPage;
-  let pageWidth: number;
-  let pageHeight: number;
+  let pages: PDFPage[];
 
   // Load template
   if (templateType === 'pdf') {
     const pdfResponse = await fetch(templateUrl);
     const pdfBuffer = await pdfResponse.arrayBuffer();
     pdfDoc = await PDFDocument.load(pdfBuffer);
-    const pages = pdfDoc.getPages();
-    firstPage = pages[0]!;
-    const size = firstPage.getSize();
-    pageWidth = size.width;
-    pageHeight = size.height;
+    pages = pdfDoc.getPages();
   } else {
     // Create PDF from image template
     pdfDoc = await PDFDocument.create();
@@ -120,18 +191,23 @@ export async function generateCertificatePDF(
       image = await pdfDoc.embedJpg(imageBuffer);
     }
 
-    pageWidth = templateWidth ?? 800;
-    pageHeight = templateHeight ?? 600;
+    const pageWidth = templateWidth ?? 800;
+    const pageHeight = templateHeight ?? 600;
 
-    firstPage = pdfDoc.addPage([pageWidth, pageHeight]);
-    firstPage.drawImage(image, {
+    const imagePage = pdfDoc.addPage([pageWidth, pageHeight]);
+    imagePage.drawImage(image, {
       x: 0,
       y: 0,
       width: pageWidth,
       height: pageHeight,
     });
+    pages = [imagePage];
   }
 
+  const fontSet = new PdfFontSet(pdfDoc, fonts, await loadFallbackFonts(), {
+    embedStandardFonts: Boolean(archival),
+  });
+
   console.log('[PDFGenerator] Processing fields:', {
     fieldCount: fields.length,
     mappingCount: fieldMappings.length,
@@ -142,93 +218,132 @@ export async function generateCertificatePDF(
 
   // Add fields to PDF
   for (const field of fields) {
-    if (field.type === 'qr_code') {
+    if (!isFieldVisible(field, rowData, formatting)) {
+      continue;
+    }
+
+    // page_number is 1-based; fields without one belong on the first page
+    const page = getFieldPage(pages, field);
+    const { height: pageHeight } = page.getSize();
+
+    if (isQRField(field)) {
       if (includeQR && verificationToken) {
         const qrCodeDataUrl = await QRCode.toDataURL(
-          `${appUrl}/verify/${verificationToken}`
+          qrContent ?? `${appUrl}/verify/${verificationToken}`
         );
         const qrImage = await pdfDoc.embedPng(qrCodeDataUrl);
 
-        firstPage.drawImage(qrImage, {
+        page.drawImage(qrImage, {
           x: field.x,
           y: pageHeight - field.y - field.height,
           width: field.width,
           height: field.height,
         });
       }
-    } else {
-      // Get value from row data
-      // Try multiple matching strategies for field mapping
-      const originalFieldId = field.style?.originalFieldId as string | undefined;
-
-      let mapping = fieldMappings.find((m) => m.fieldId === field.id);
-      if (!mapping && originalFieldId) {
-        // Try matching with originalFieldId stored in style
-        mapping = fieldMappings.find((m) => m.fieldId === originalFieldId);
-      }
-      if (!mapping && field.field_key) {
-        // Fallback: try matching fieldId to field_key (handles client-generated UUIDs)
-        mapping = fieldMappings.find((m) => m.fieldId === field.field_key);
+    } else if (isImageField(field)) {
+      const source = images.get(field.id);
+      if (source) {
+        const fitted = await fitImage(source, field, field.imageFit);
+        const image = fitted.format === 'jpeg'
+          ? await pdfDoc.embedJpg(fitted.bytes)
+          : await pdfDoc.embedPng(fitted.bytes);
+
+        page.drawImage(image, {
+          x: field.x + fitted.offsetX,
+          y: pageHeight - field.y - fitted.offsetY - fitted.height,
+          width: fitted.width,
+          height: fitted.height,
+        });
       }
-      if (!mapping && field.field_key) {
-        // Fallback 2: try matching with sanitized fieldId to field_key
-        mapping = fieldMappings.find((m) => {
-          const sanitizedFieldId = m.fieldId.toLowerCase().replace(/[^a-z0-9_]/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '');
-          return sanitizedFieldId === field.field_key;
+    } else if (isBarcodeField(field)) {
+      const text = getBarcodeText(field, { fieldMappings, rowData, appUrl, verificationToken, certificateNumber });
+      if (text) {
+        const color = hexToRgb(field.color);
+
+        // SVG path origin is the field's top-left corner, y pointing down
+        page.drawSvgPath(renderBarcodePath(text, getBarcodeOptions(field), field), {
+          x: field.x,
+          y: pageHeight - field.y,
+          color: rgb(color.r / 255, color.g / 255, color.b / 255),
         });
       }
-      if (!mapping) {
-        console.log(`[PDFGenerator] No mapping found for field: ${field.id} (${field.label}, field_key: ${field.field_key}, originalFieldId: ${originalFieldId})`);
+    } else {
+      // Get value from the field's expression or row data
+      let value = getFieldValue(field, fieldMappings, rowData, formatting);
+      if (value === null) {
+        console.log(`[PDFGenerator] No mapping found for field: ${field.id} (${field.label}, field_key: ${field.field_key}, originalFieldId: ${field.style?.originalFieldId})`);
         continue;
       }
+      console.log(`[PDFGenerator] Field ${field.label}: value="${value}"`);
 
-      let value = String(rowData[mapping.columnName] ?? '');
-      console.log(`[PDFGenerator] Field ${field.label}: mapping=${mapping.columnName}, value="${value}"`);
-
-      // Format dates
-      if ((field.type === 'start_date' || field.type === 'end_date') && value) {
+      // Format dates in the template's locale and timezone
+      if (isDateField(field) && value) {
         try {
-          const date = new Date(value);
-          if (!isNaN(date.getTime())) {
-            value = format(date, field.dateFormat ?? 'MMMM dd, yyyy');
-          }
+          value = formatDateValue(value, {
+            format: field.dateFormat,
+            inputFormat: field.dateInputFormat,
+            ...formatting,
+          });
         } catch {
-          // Keep original value if date parsing fails
+          // Keep original value if the date format is invalid
         }
       }
 
       // Add prefix/suffix
       const finalValue = `${field.prefix ?? ''}${value}${field.suffix ?? ''}`;
 
-      // Embed font
-      const font = await getFont(pdfDoc, field.fontFamily);
-
-      // Calculate text size
-      const fontSize = field.fontSize;
-      const textWidth = font.widthOfTextAtSize(finalValue, fontSize);
-
-      // Calculate X position based on alignment
-      let textX = field.x;
-      if (field.textAlign === 'center') {
-        textX = field.x + (field.width - textWidth) / 2;
-      } else if (field.textAlign === 'right') {
-        textX = field.x + field.width - textWidth;
-      }
+      // Embed the field font plus any fallback fonts the text needs
+      const textFonts = await fontSet.forText(field, finalValue);
+
+      // Fit text into the field box (shrink / wrap / truncate per field style)
+      const layout = layoutText(finalValue, {
+        maxWidth: field.width,
+        maxHeight: field.height,
+        fontSize: field.fontSize,
+        minFontSize: field.minFontSize,
+        lineHeight: field.lineHeight,
+        overflow: field.overflow,
+        measure: (text, size) => textFonts.widthOfTextAtSize(text, size),
+      });
+      const fontSize = layout.fontSize;
+      const lineGap = fontSize * layout.lineHeight;
 
       // Convert color hex to RGB
       const color = hexToRgb(field.color);
 
-      // Draw text
-      firstPage.drawText(finalValue, {
-        x: textX,
-        y: pageHeight - field.y - field.height / 2 - fontSize / 3,
-        size: fontSize,
-        font: font,
-        color: rgb(color.r / 255, color.g / 255, color.b / 255),
-      });
+      // Draw lines centered vertically in the field box
+      for (const [index, line] of layout.lines.entries()) {
+        const textWidth = textFonts.widthOfTextAtSize(line, fontSize);
+
+        // Calculate X position based on alignment
+        let textX = field.x;
+        if (field.textAlign === 'center') {
+          textX = field.x + (field.width - textWidth) / 2;
+        } else if (field.textAlign === 'right') {
+          textX = field.x + field.width - textWidth;
+        }
+
+        const lineOffset = (index - (layout.lines.length - 1) / 2) * lineGap;
+
+        // Draw each font run after the previous one
+        for (const run of textFonts.runs(line)) {
+          page.drawText(run.text, {
+            x: textX,
+            y: pageHeight - field.y - field.height / 2 - fontSize / 3 - lineOffset,
+            size: fontSize,
+            font: run.font,
+            color: rgb(color.r / 255, color.g / 255, color.b / 255),
+          });
+          textX += run.font.widthOfTextAtSize(run.text, fontSize);
+        }
+      }
     }
   }
 
+  if (metadata) {
+    await writeCertificateMetadata(pdfDoc, metadata, archival);
+  }
+
   // Save PDF
   return await pdfDoc.save();
 }
@@ -248,8 +363,17 @@ export async function generateCertificateImage(
     rowData,
     includeQR,
     verificationToken,
+    qrContent,
+    certificateNumber,
     appUrl,
+    fonts = [],
+    images = new Map<string, Uint8Array>(),
+    locale,
+    timeZone,
   } = options;
+  const formatting: ExpressionContext = { locale, timeZone };
+
+  const fallbackFonts = await loadFallbackFonts();
 
   // Fetch template image
   const templateResponse = await fetch(templateUrl);
@@ -273,47 +397,58 @@ export async function generateCertificateImage(
 
   // Add text fields
   for (const field of fields) {
-    if (field.type === 'qr_code') {
-      continue; // Handle QR separately
+    if (!isFieldVisible(field, rowData, formatting)) {
+      continue;
     }
 
-    // Get value from row data
-    // Try multiple matching strategies for field mapping
-    const originalFieldId = field.style?.originalFieldId as string | undefined;
-
-    let mapping = fieldMappings.find((m) => m.fieldId === field.id);
-    if (!mapping && originalFieldId) {
-      // Try matching with originalFieldId stored in style
-      mapping = fieldMappings.find((m) => m.fieldId === originalFieldId);
-    }
-    if (!mapping && field.field_key) {
-      // Fallback: try matching fieldId to field_key (handles client-generated UUIDs)
-      mapping = fieldMappings.find((m) => m.fieldId === field.field_key);
+    if (isQRField(field)) {
+      continue; // Handle QR separately
     }
-    if (!mapping && field.field_key) {
-      // Fallback 2: try matching with sanitized fieldId to field_key
-      mapping = fieldMappings.find((m) => {
-        const sanitizedFieldId = m.fieldId.toLowerCase().replace(/[^a-z0-9_]/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '');
-        return sanitizedFieldId === field.field_key;
-      });
+
+    if (isImageField(field)) {
+      const source = images.get(field.id);
+      if (source) {
+        const fitted = await fitImage(source, field, field.imageFit);
+        svgElements.push(
+          `<image x="${field.x + fitted.offsetX}" y="${field.y + fitted.offsetY}" ` +
+          `width="${fitted.width}" height="${fitted.height}" preserveAspectRatio="none" ` +
+          `href="data:image/${fitted.format};base64,${fitted.bytes.toString('base64')}"/>`
+        );
+      }
+      continue;
     }
-    if (!mapping) {
-      console.log(`[ImageGenerator] No mapping found for field: ${field.id} (${field.label}, field_key: ${field.field_key}, originalFieldId: ${originalFieldId})`);
+
+    if (isBarcodeField(field)) {
+      const text = getBarcodeText(field, { fieldMappings, rowData, appUrl, verificationToken, certificateNumber });
+      if (text) {
+        // Whole-pixel modules on a whole-pixel origin keep bars crisp for scanners
+        svgElements.push(
+          `<path transform="translate(${Math.round(field.x)} ${Math.round(field.y)})" ` +
+          `fill="${field.color || '#000000'}" ` +
+          `d="${renderBarcodePath(text, getBarcodeOptions(field), field, true)}"/>`
+        );
+      }
       continue;
     }
 
-    let value = String(rowData[mapping.columnName] ?? '');
-    console.log(`[ImageGenerator] Field ${field.label}: mapping=${mapping.columnName}, value="${value}"`);
+    // Get value from the field's expression or row data
+    let value = getFieldValue(field, fieldMappings, rowData, formatting);
+    if (value === null) {
+      console.log(`[ImageGenerator] No mapping found for field: ${field.id} (${field.label}, field_key: ${field.field_key}, originalFieldId: ${field.style?.originalFieldId})`);
+      continue;
+    }
+    console.log(`[ImageGenerator] Field ${field.label}: value="${value}"`);
 
-    // Format dates
-    if ((field.type === 'start_date' || field.type === 'end_date') && value) {
+    // Format dates in the template's locale and timezone
+    if (isDateField(field) && value) {
       try {
-        const date = new Date(value);
-        if (!isNaN(date.getTime())) {
-          value = format(date, field.dateFormat ?? 'MMMM dd, yyyy');
-        }
+        value = formatDateValue(value, {
+          format: field.dateFormat,
+          inputFormat: field.dateInputFormat,
+          ...formatting,
+        });
       } catch {
-        // Keep original value if date parsing fails
+        // Keep original value if the date format is invalid
       }
     }
 
@@ -339,32 +474,77 @@ export async function generateCertificateImage(
     const fontWeight = field.fontWeight === 'bold' ? 'bold' : 'normal';
     const fontStyle = field.fontStyle === 'italic' ? 'italic' : 'normal';
     const fontFamily = field.fontFamily || 'Arial, Helvetica, sans-serif';
-    const fontSize = field.fontSize || 16;
     const color = field.color || '#000000';
 
-    // Escape special characters for SVG
-    const escapedValue = finalValue
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;');
-
-    svgElements.push(
-      `<text x="${adjustedX}" y="${textY}" ` +
-      `font-family="${fontFamily}" font-size="${fontSize}px" ` +
-      `font-weight="${fontWeight}" font-style="${fontStyle}" ` +
-      `fill="${color}" text-anchor="${textAnchor}" ` +
-      `dominant-baseline="middle">${escapedValue}</text>`
+    // Organization fonts and non-Latin text are drawn as glyph outlines;
+    // Latin text in a standard font stays SVG text
+    const measureFont = await getMeasureFont(field.fontFamily);
+    const outlineFonts = getOutlineTextFonts(
+      field,
+      finalValue,
+      fonts,
+      fallbackFonts,
+      new Set(measureFont.getCharacterSet())
     );
+
+    // Fit text into the field box using the same metrics as PDF output
+    const layout = layoutText(finalValue, {
+      maxWidth: field.width,
+      maxHeight: field.height,
+      fontSize: field.fontSize || 16,
+      minFontSize: field.minFontSize,
+      lineHeight: field.lineHeight,
+      overflow: field.overflow,
+      measure: (text, size) => outlineFonts
+        ? outlineFonts.widthOfTextAtSize(text, size)
+        : measureFont.widthOfTextAtSize(text, size),
+    });
+    const fontSize = layout.fontSize;
+    const lineGap = fontSize * layout.lineHeight;
+
+    for (const [index, line] of layout.lines.entries()) {
+      const lineY = textY + (index - (layout.lines.length - 1) / 2) * lineGap;
+
+      if (outlineFonts) {
+        const lineWidth = outlineFonts.widthOfTextAtSize(line, fontSize);
+        let lineX = field.x;
+        if (field.textAlign === 'center') {
+          lineX = field.x + (field.width - lineWidth) / 2;
+        } else if (field.textAlign === 'right') {
+          lineX = field.x + field.width - lineWidth;
+        }
+
+        // Baseline offset matches PDF output (fontSize / 3 below the line centre)
+        svgElements.push(
+          `<g fill="${color}">${textRunsToSvg(outlineFonts.runs(line), lineX, lineY + fontSize / 3, fontSize)}</g>`
+        );
+        continue;
+      }
+
+      // Escape special characters for SVG
+      const escapedValue = line
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+      svgElements.push(
+        `<text x="${adjustedX}" y="${lineY}" ` +
+        `font-family="${fontFamily}" font-size="${fontSize}px" ` +
+        `font-weight="${fontWeight}" font-style="${fontStyle}" ` +
+        `fill="${color}" text-anchor="${textAnchor}" ` +
+        `dominant-baseline="middle">${escapedValue}</text>`
+      );
+    }
   }
 
   // Add QR code if requested
   if (includeQR && verificationToken) {
-    const qrField = fields.find((f) => f.type === 'qr_code');
+    const qrField = fields.find((f) => isQRField(f) && isFieldVisible(f, rowData, formatting));
     if (qrField) {
       // Generate QR code as data URL
-      const qrDataUrl = await QRCode.toDataURL(`${appUrl}/verify/${verificationToken}`, {
+      const qrDataUrl = await QRCode.toDataURL(qrContent ?? `${appUrl}/verify/${verificationToken}`, {
         width: qrField.width,
         margin: 1,
       });
@@ -410,24 +590,171 @@ export async function generateCertificateImage(
 }
 
 /**
- * Get font for PDF
+ * Get the page a field is placed on (page_number is 1-based)
+ * Throws rather than drawing on the wrong page when the template has fewer pages
  */
-async function getFont(
-  pdfDoc: PDFDocument,
-  fontFamily: string
-): Promise<ReturnType<typeof PDFDocument.prototype.embedFont>> {
-  const fontMap: Record<string, keyof typeof StandardFonts> = {
-    Arial: 'Helvetica',
-    Helvetica: 'Helvetica',
-    'Times New Roman': 'TimesRoman',
-    Times: 'TimesRoman',
-    Courier: 'Courier',
-    'Courier New': 'Courier',
+function getFieldPage(pages: PDFPage[], field: GeneratorField): PDFPage {
+  const pageNumber = field.page_number ?? 1;
+  const page = pages[pageNumber - 1];
+
+  if (!page) {
+    throw new Error(
+      `Field "${field.label ?? field.field_key ?? field.id}" is on page ${pageNumber} but the template has ${pages.length} page(s)`
+    );
+  }
+
+  return page;
+}
+
+/**
+ * Find the column mapped to a field
+ * Tries multiple matching strategies: field ID, style.originalFieldId, then field_key
+ * (as given or sanitized, handles client-generated UUIDs)
+ */
+export function findFieldMapping(field: GeneratorField, fieldMappings: FieldMapping[]): FieldMapping | undefined {
+  const originalFieldId = field.style?.originalFieldId as string | undefined;
+
+  let mapping = fieldMappings.find((m) => m.fieldId === field.id);
+  if (!mapping && originalFieldId) {
+    mapping = fieldMappings.find((m) => m.fieldId === originalFieldId);
+  }
+  if (!mapping && field.field_key) {
+    mapping = fieldMappings.find((m) => m.fieldId === field.field_key);
+  }
+  if (!mapping && field.field_key) {
+    mapping = fieldMappings.find((m) => {
+      const sanitizedFieldId = m.fieldId.toLowerCase().replace(/[^a-z0-9_]/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '');
+      return sanitizedFieldId === field.field_key;
+    });
+  }
+
+  return mapping;
+}
+
+/**
+ * Text value of a field: its expression's result, or the mapped column's value
+ * Returns null when the field has neither.
+ */
+export function getFieldValue(
+  field: GeneratorField,
+  fieldMappings: FieldMapping[],
+  rowData: Record<string, unknown>,
+  formatting: ExpressionContext
+): string | null {
+  if (field.expression) {
+    return toText(evaluateFieldExpression(field, field.expression, rowData, formatting));
+  }
+
+  const mapping = findFieldMapping(field, fieldMappings);
+  return mapping ? String(rowData[mapping.columnName] ?? '') : null;
+}
+
+/**
+ * Conditional fields are drawn only when their condition is true
+ */
+export function isFieldVisible(
+  field: GeneratorField,
+  rowData: Record<string, unknown>,
+  formatting: ExpressionContext
+): boolean {
+  return !field.condition || isTruthy(evaluateFieldExpression(field, field.condition, rowData, formatting));
+}
+
+function evaluateFieldExpression(
+  field: GeneratorField,
+  source: string,
+  rowData: Record<string, unknown>,
+  formatting: ExpressionContext
+) {
+  try {
+    return evaluateExpression(source, rowData, formatting);
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      throw new Error(`Field "${field.label ?? field.field_key ?? field.id}": ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Image fields (signatures, photos, logos)
+ */
+export function isImageField(field: GeneratorField): boolean {
+  return field.type === 'image';
+}
+
+/**
+ * Barcode fields (Code128, DataMatrix, PDF417, QR)
+ */
+export function isBarcodeField(field: GeneratorField): boolean {
+  return field.type === 'barcode';
+}
+
+/**
+ * Text a barcode field encodes (empty when its source has no value)
+ * Defaults to the certificate number.
+ */
+export function getBarcodeText(
+  field: GeneratorField,
+  values: {
+    fieldMappings: FieldMapping[];
+    rowData: Record<string, unknown>;
+    appUrl: string;
+    verificationToken?: string;
+    certificateNumber?: string;
+  }
+): string {
+  switch (field.barcodePayload ?? 'certificate_number') {
+    case 'token':
+      return values.verificationToken ? `${values.appUrl}/verify/${values.verificationToken}` : '';
+    case 'certificate_number':
+      return values.certificateNumber ?? '';
+    case 'column': {
+      const mapping = findFieldMapping(field, values.fieldMappings);
+      return mapping ? String(values.rowData[mapping.columnName] ?? '').trim() : '';
+    }
+  }
+}
+
+export function getBarcodeOptions(field: GeneratorField): BarcodeOptions {
+  return {
+    symbology: field.symbology ?? 'code128',
+    quietZone: field.quietZone,
+    errorCorrection: field.errorCorrection,
   };
+}
+
+/**
+ * QR code fields ('qrcode' in template fields, 'qr_code' in legacy field configs)
+ */
+export function isQRField(field: GeneratorField): boolean {
+  return field.type === 'qrcode' || field.type === 'qr_code';
+}
+
+/**
+ * Date fields whose values are formatted with dateFormat
+ */
+export function isDateField(field: GeneratorField): boolean {
+  return field.type === 'date' || field.type === 'start_date' || field.type === 'end_date';
+}
+
+/**
+ * Standard fonts used to measure text for image output
+ * Embedded once into a scratch document and reused across certificates
+ */
+let measureDocPromise: Promise<PDFDocument> | null = null;
+const measureFonts = new Map<string, Promise<PDFFont>>();
+
+function getMeasureFont(fontFamily: string): Promise<PDFFont> {
+  const cached = measureFonts.get(fontFamily);
+  if (cached) {
+    return cached;
+  }
 
-  const fontKey = fontMap[fontFamily] ?? 'Helvetica';
-  const standardFont = StandardFonts[fontKey];
-  return await pdfDoc.embedFont(standardFont);
+  measureDocPromise ??= PDFDocument.create();
+  const font: Promise<PDFFont> = measureDocPromise.then(async (doc) => await doc.embedFont(getStandardFont(fontFamily)));
+  measureFonts.set(fontFamily, font);
+  return font;
 }
 
 /**
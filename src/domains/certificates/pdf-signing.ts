@@ -0,0 +1,94 @@
+/**
+ * PDF SIGNING
+ *
+ * Signs generated certificate PDFs (PAdES, ETSI.CAdES.detached) so readers such
+ * as Adobe Reader show the document as signed and unmodified, without an online
+ * verification. The signature is invisible; the verification QR code stays the
+ * visible check.
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import { pdflibAddPlaceholder } from '@signpdf/placeholder-pdf-lib';
+import { SignPdf } from '@signpdf/signpdf';
+import { Signer, SUBFILTER_ETSI_CADES_DETACHED } from '@signpdf/utils';
+import type { SigningIdentity } from '../../lib/signing/keystore.js';
+import type { TimestampClient } from '../../lib/signing/timestamp.js';
+import { createCadesSignature } from '../../lib/signing/cms.js';
+
+/**
+ * Space reserved for the signature (bytes); timestamp tokens carry the TSA's certificates
+ */
+const SIGNATURE_LENGTH = 8192;
+const TIMESTAMPED_SIGNATURE_LENGTH = 16384;
+
+export interface PdfSignatureOptions {
+  /** Signer name shown by PDF readers (defaults to the certificate subject) */
+  name?: string;
+  reason: string;
+  location?: string;
+  contactInfo?: string;
+  timestampClient?: TimestampClient;
+}
+
+/**
+ * Signer handing the PDF byte ranges to the CAdES builder
+ */
+class CadesSigner extends Signer {
+  constructor(
+    private readonly identity: SigningIdentity,
+    private readonly timestampClient?: TimestampClient
+  ) {
+    super();
+  }
+
+  override async sign(pdfBuffer: Buffer): Promise<Buffer> {
+    return createCadesSignature(pdfBuffer, this.identity, this.timestampClient);
+  }
+}
+
+/**
+ * Sign a PDF with a signing identity
+ * @throws Error when the certificate is not valid now, or signing or timestamping fails
+ */
+export async function signCertificatePDF(
+  pdfBytes: Uint8Array,
+  identity: SigningIdentity,
+  options: PdfSignatureOptions
+): Promise<Uint8Array> {
+  const now = new Date();
+  if (identity.notBefore > now || identity.notAfter <= now) {
+    throw new Error(`Signing certificate is not valid now (valid ${identity.notBefore.toISOString()} to ${identity.notAfter.toISOString()})`);
+  }
+
+  // Keep the document info as generated (it mirrors the XMP metadata)
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+
+  pdflibAddPlaceholder({
+    pdfDoc,
+    reason: options.reason,
+    name: options.name ?? getCommonName(identity.subject),
+    location: options.location ?? '',
+    contactInfo: options.contactInfo ?? '',
+    signingTime: new Date(),
+    subFilter: SUBFILTER_ETSI_CADES_DETACHED,
+    signatureLength: options.timestampClient ? TIMESTAMPED_SIGNATURE_LENGTH : SIGNATURE_LENGTH,
+  });
+
+  // The placeholder must stay in a plain (uncompressed) object for signpdf to find it
+  const prepared = await pdfDoc.save({ useObjectStreams: false });
+
+  const signed = await new SignPdf().sign(
+    Buffer.from(prepared),
+    new CadesSigner(identity, options.timestampClient)
+  );
+
+  return new Uint8Array(signed);
+}
+
+/**
+ * CN of an X.509 subject ("CN=Acme Academy\nO=Acme" → "Acme Academy")
+ */
+function getCommonName(subject: string): string {
+  const match = /(?:^|\n)CN=([^\n]+)/.exec(subject);
+  return match?.[1] ?? subject;
+}
@@ -0,0 +1,987 @@
+/**
+ * CERTIFICATE REPOSITORY
+ *
+ * Data access layer for issued certificates, generation jobs and their recipients.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CertificateEntity,
+  CertificateStatus,
+  GenerationJobEntity,
+  GenerationJobRecipientEntity,
+  GenerationJobStatus,
+  GenerationJobTemplateEntity,
+  GenerationRecipientStatus,
+  StoredGenerationJobOptions,
+} from './types.js';
+
+const JOB_COLUMNS = `
+  id,
+  organization_id,
+  status,
+  options,
+  requested_by_user_id,
+  total_count,
+  processed_count,
+  failed_count,
+  created_at,
+  updated_at,
+  started_at,
+  completed_at,
+  error
+`;
+
+const JOB_LIST_COLUMNS = `${JOB_COLUMNS},
+  generation_job_templates (
+    template_id,
+    template_version_id
+  )
+`;
+
+const RECIPIENT_COLUMNS = `
+  id,
+  job_id,
+  row_index,
+  recipient_name,
+  recipient_email,
+  recipient_phone,
+  recipient_data,
+  status,
+  certificate_id,
+  error,
+  processed_at
+`;
+
+/**
+ * Rows per request when reading all recipients of a job (PostgREST returns at most 1000)
+ */
+const RECIPIENT_PAGE_SIZE = 1000;
+
+const CERTIFICATE_LIST_COLUMNS = `
+  certificate_id,
+  organization_id,
+  generation_job_id,
+  certificate_number,
+  status,
+  issued_at,
+  expires_at,
+  revoked_at,
+  revoked_reason,
+  recipient_name,
+  recipient_email,
+  recipient_phone,
+  category_id,
+  category_name,
+  subcategory_id,
+  subcategory_name,
+  template_id,
+  template_title,
+  template_version_id,
+  certificate_file_id,
+  certificate_path,
+  certificate_preview_file_id,
+  preview_path,
+  verification_path,
+  qr_payload_url,
+  created_at
+`;
+
+/**
+ * Maximum rows per bulk insert into generation_job_recipients
+ */
+const RECIPIENT_INSERT_CHUNK_SIZE = 500;
+
+export class CertificateRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Find certificates for organization from v_certificates_list
+   */
+  async findCertificates(
+    organizationId: string,
+    filters: {
+      status?: CertificateStatus;
+      templateId?: string;
+      categoryId?: string;
+      subcategoryId?: string;
+      jobId?: string;
+      issuedFrom?: string;
+      issuedTo?: string;
+      expiresFrom?: string;
+      expiresTo?: string;
+      search?: string;
+    },
+    options: {
+      limit: number;
+      offset: number;
+      sortBy?: string;
+      sortOrder?: 'asc' | 'desc';
+    }
+  ): Promise<{ data: CertificateEntity[]; count: number }> {
+    let query = this.supabase
+      .from('v_certificates_list')
+      .select(CERTIFICATE_LIST_COLUMNS, { count: 'exact' })
+      .eq('organization_id', organizationId);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.templateId) {
+      query = query.eq('template_id', filters.templateId);
+    }
+    if (filters.categoryId) {
+      query = query.eq('category_id', filters.categoryId);
+    }
+    if (filters.subcategoryId) {
+      query = query.eq('subcategory_id', filters.subcategoryId);
+    }
+    if (filters.jobId) {
+      query = query.eq('generation_job_id', filters.jobId);
+    }
+    if (filters.issuedFrom) {
+      query = query.gte('issued_at', filters.issuedFrom);
+    }
+    if (filters.issuedTo) {
+      query = query.lte('issued_at', filters.issuedTo);
+    }
+    if (filters.expiresFrom) {
+      query = query.gte('expires_at', filters.expiresFrom);
+    }
+    if (filters.expiresTo) {
+      query = query.lte('expires_at', filters.expiresTo);
+    }
+
+    if (filters.search) {
+      // Strip PostgREST filter syntax from user input and escape LIKE wildcards
+      const term = filters.search
+        .replace(/[,()*"]/g, ' ')
+        .trim()
+        .replace(/[\\%_]/g, '\\$&');
+      if (term) {
+        query = query.or(
+          `recipient_name.ilike.*${term}*,recipient_email.ilike.*${term}*,certificate_number.ilike.*${term}*`
+        );
+      }
+    }
+
+    const { data, error, count } = await query
+      .order(options.sortBy ?? 'issued_at', { ascending: options.sortOrder === 'asc' })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to find certificates: ${error.message}`);
+    }
+
+    return {
+      data: (data ?? []).map((row) => this.mapToCertificateEntity(row)),
+      count: count ?? 0,
+    };
+  }
+
+  /**
+   * Find certificate by ID from v_certificates_list
+   */
+  async findCertificateById(id: string, organizationId: string): Promise<CertificateEntity | null> {
+    const { data, error } = await this.supabase
+      .from('v_certificates_list')
+      .select(CERTIFICATE_LIST_COLUMNS)
+      .eq('certificate_id', id)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find certificate: ${error.message}`);
+    }
+
+    return data ? this.mapToCertificateEntity(data) : null;
+  }
+
+  /**
+   * Revoke issued or expired certificates
+   * Targets an explicit ID list or every certificate issued by a generation job.
+   *
+   * @returns IDs of the certificates that were revoked
+   */
+  async revokeCertificates(
+    organizationId: string,
+    target: { ids?: string[]; jobId?: string },
+    revokedBy: string,
+    reason: string
+  ): Promise<string[]> {
+    let query = this.supabase
+      .from('certificates')
+      .update({
+        status: 'revoked',
+        revoked_at: new Date().toISOString(),
+        revoked_by_user_id: revokedBy,
+        revoked_reason: reason,
+      } as any)
+      .eq('organization_id', organizationId)
+      .in('status', ['issued', 'expired']);
+
+    if (target.ids) {
+      query = query.in('id', target.ids);
+    }
+    if (target.jobId) {
+      query = query.eq('generation_job_id', target.jobId);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw new Error(`Failed to revoke certificates: ${error.message}`);
+    }
+
+    return ((data ?? []) as Array<{ id: string }>).map((row) => row.id);
+  }
+
+  /**
+   * Reinstate a revoked certificate
+   *
+   * @returns false if the certificate was not revoked
+   */
+  async reinstateCertificate(
+    id: string,
+    organizationId: string,
+    status: Extract<CertificateStatus, 'issued' | 'expired'>
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('certificates')
+      .update({
+        status,
+        revoked_at: null,
+        revoked_by_user_id: null,
+        revoked_reason: null,
+      } as any)
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .eq('status', 'revoked')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to reinstate certificate: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Get the row data a certificate was rendered from
+   */
+  async getCertificateRecipientData(id: string, organizationId: string): Promise<Record<string, unknown> | null> {
+    const { data, error } = await this.supabase
+      .from('certificates')
+      .select('recipient_data')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate data: ${error.message}`);
+    }
+
+    return data ? ((data as { recipient_data: Record<string, unknown> | null }).recipient_data ?? {}) : null;
+  }
+
+  /**
+   * Mark a certificate as superseded by a reissued one
+   *
+   * @returns false if the certificate was no longer issued or expired
+   */
+  async markCertificateReissued(id: string, organizationId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('certificates')
+      .update({ status: 'reissued' } as any)
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .in('status', ['issued', 'expired'])
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to mark certificate as reissued: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Mark a batch of issued certificates past their expiry date as expired via expire_certificates RPC
+   * Expired rows drop out of the filter, so callers loop until a short batch.
+   *
+   * @returns The certificates that were expired
+   */
+  async expireCertificates(
+    expiredBefore: string,
+    limit: number
+  ): Promise<Array<{ id: string; organization_id: string }>> {
+    const { data, error } = await this.supabase.rpc('expire_certificates', {
+      p_expired_before: expiredBefore,
+      p_limit: limit,
+    } as any);
+
+    if (error) {
+      throw new Error(`Failed to expire certificates: ${error.message}`);
+    }
+
+    return (data ?? []) as Array<{ id: string; organization_id: string }>;
+  }
+
+  /**
+   * Queue expiry reminder emails via queue_certificate_expiry_reminders RPC
+   *
+   * @returns The reminders that were queued
+   */
+  async queueExpiryReminders(
+    daysBefore: number,
+    limit: number
+  ): Promise<Array<{ certificate_id: string; organization_id: string; delivery_message_id: string }>> {
+    const { data, error } = await this.supabase.rpc('queue_certificate_expiry_reminders', {
+      p_days_before: daysBefore,
+      p_limit: limit,
+    } as any);
+
+    if (error) {
+      throw new Error(`Failed to queue expiry reminders: ${error.message}`);
+    }
+
+    return (data ?? []) as Array<{ certificate_id: string; organization_id: string; delivery_message_id: string }>;
+  }
+
+  /**
+   * Append audit log entry via append_audit_log RPC
+   */
+  async appendAuditLog(entry: {
+    organizationId: string;
+    actorUserId: string | null;
+    action: string;
+    entityType: string;
+    entityId: string | null;
+    severity?: string;
+    metadata?: Record<string, unknown>;
+  }): Promise<void> {
+    const { error } = await this.supabase.rpc('append_audit_log', {
+      p_org_id: entry.organizationId,
+      p_actor_user_id: entry.actorUserId,
+      p_action: entry.action,
+      p_entity_type: entry.entityType,
+      p_entity_id: entry.entityId,
+      p_severity: entry.severity ?? 'info',
+      p_metadata: entry.metadata ?? {},
+    } as any);
+
+    if (error) {
+      throw new Error(`Failed to append audit log: ${error.message}`);
+    }
+  }
+
+  /**
+   * Find generation job by ID
+   * When organizationId is omitted the lookup is not tenant-scoped (worker use only)
+   */
+  async findJobById(jobId: string, organizationId?: string): Promise<GenerationJobEntity | null> {
+    let query = this.supabase
+      .from('certificate_generation_jobs')
+      .select(JOB_LIST_COLUMNS)
+      .eq('id', jobId);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find generation job: ${error.message}`);
+    }
+
+    return data ? this.mapToJobEntity(data) : null;
+  }
+
+  /**
+   * Find generation jobs for organization (newest first)
+   */
+  async findJobs(
+    organizationId: string,
+    options: {
+      status?: GenerationJobStatus;
+      limit: number;
+      offset: number;
+    }
+  ): Promise<{ data: GenerationJobEntity[]; count: number }> {
+    let query = this.supabase
+      .from('certificate_generation_jobs')
+      .select(JOB_LIST_COLUMNS, { count: 'exact' })
+      .eq('organization_id', organizationId);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to find generation jobs: ${error.message}`);
+    }
+
+    return {
+      data: (data ?? []).map((row) => this.mapToJobEntity(row)),
+      count: count ?? 0,
+    };
+  }
+
+  /**
+   * Create generation job
+   */
+  async createJob(
+    organizationId: string,
+    userId: string,
+    dto: {
+      status: Extract<GenerationJobStatus, 'queued' | 'running'>;
+      options: StoredGenerationJobOptions;
+      total_count: number;
+    }
+  ): Promise<GenerationJobEntity> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await this.supabase
+      .from('certificate_generation_jobs')
+      .insert({
+        organization_id: organizationId,
+        requested_by_user_id: userId,
+        status: dto.status,
+        options: dto.options,
+        total_count: dto.total_count,
+        processed_count: 0,
+        failed_count: 0,
+        started_at: dto.status === 'running' ? now : null,
+      } as any)
+      .select(JOB_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create generation job: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.mapToJobEntity(data);
+  }
+
+  /**
+   * Delete a generation job that never got past creation (no recipients or certificates yet)
+   */
+  async deleteJob(jobId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('certificate_generation_jobs')
+      .delete()
+      .eq('id', jobId);
+
+    if (error) {
+      throw new Error(`Failed to delete generation job: ${error.message}`);
+    }
+  }
+
+  /**
+   * Update generation job
+   * Always bumps updated_at, which doubles as the worker heartbeat
+   */
+  async updateJob(
+    jobId: string,
+    updates: {
+      status?: GenerationJobStatus;
+      processed_count?: number;
+      failed_count?: number;
+      started_at?: string | null;
+      completed_at?: string | null;
+      error?: Record<string, unknown> | null;
+    }
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('certificate_generation_jobs')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      } as any)
+      .eq('id', jobId);
+
+    if (error) {
+      throw new Error(`Failed to update generation job: ${error.message}`);
+    }
+  }
+
+  /**
+   * Update generation job only while it is in one of the expected statuses
+   * Guards state transitions against concurrent cancel/retry requests and the worker.
+   *
+   * @returns false if the job was no longer in an expected status
+   */
+  async updateJobIfStatus(
+    jobId: string,
+    expectedStatuses: GenerationJobStatus[],
+    updates: {
+      status?: GenerationJobStatus;
+      processed_count?: number;
+      failed_count?: number;
+      started_at?: string | null;
+      completed_at?: string | null;
+      error?: Record<string, unknown> | null;
+    }
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('certificate_generation_jobs')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      } as any)
+      .eq('id', jobId)
+      .in('status', expectedStatuses)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update generation job: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Update a running generation job only while the caller still holds it
+   *
+   * The job must be 'running' with the heartbeat (updated_at) the caller last
+   * wrote, so a worker whose job was reclaimed as stale, or cancelled, stops
+   * instead of processing recipients alongside the new holder.
+   *
+   * @returns the new heartbeat, or null if the job is no longer held
+   */
+  async updateJobIfHeld(
+    jobId: string,
+    heartbeat: string,
+    updates: {
+      status?: GenerationJobStatus;
+      processed_count?: number;
+      failed_count?: number;
+      completed_at?: string | null;
+      error?: Record<string, unknown> | null;
+      yielded_at?: string;
+    }
+  ): Promise<string | null> {
+    const updatedAt = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('certificate_generation_jobs')
+      .update({
+        ...updates,
+        updated_at: updatedAt,
+      } as any)
+      .eq('id', jobId)
+      .eq('status', 'running')
+      .eq('updated_at', heartbeat)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update generation job: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0 ? updatedAt : null;
+  }
+
+  /**
+   * Atomically claim the oldest queued job
+   * The status guard on the update makes concurrent workers race safely:
+   * only one of them gets a row back.
+   */
+  async claimNextQueuedJob(): Promise<GenerationJobEntity | null> {
+    const { data: candidates, error } = await this.supabase
+      .from('certificate_generation_jobs')
+      .select('id')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(5);
+
+    if (error) {
+      throw new Error(`Failed to find queued generation jobs: ${error.message}`);
+    }
+
+    for (const candidate of (candidates ?? []) as Array<{ id: string }>) {
+      const now = new Date().toISOString();
+      const { data: claimed, error: claimError } = await this.supabase
+        .from('certificate_generation_jobs')
+        .update({ status: 'running', started_at: now, updated_at: now, yielded_at: null } as any)
+        .eq('id', candidate.id)
+        .eq('status', 'queued')
+        .select(JOB_COLUMNS)
+        .maybeSingle();
+
+      if (claimError) {
+        throw new Error(`Failed to claim generation job: ${claimError.message}`);
+      }
+
+      if (claimed) {
+        return this.mapToJobEntity(claimed);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reclaim a running job whose heartbeat is older than staleBefore, or that a
+   * time-limited worker yielded
+   * Used to resume jobs whose worker crashed mid-batch or ran out of time.
+   */
+  async reclaimStaleJob(staleBefore: string): Promise<GenerationJobEntity | null> {
+    const { data: candidates, error } = await this.supabase
+      .from('certificate_generation_jobs')
+      .select('id, updated_at')
+      .eq('status', 'running')
+      .or(`updated_at.lt."${staleBefore}",yielded_at.not.is.null`)
+      .order('updated_at', { ascending: true })
+      .limit(5);
+
+    if (error) {
+      throw new Error(`Failed to find stale generation jobs: ${error.message}`);
+    }
+
+    for (const candidate of (candidates ?? []) as Array<{ id: string; updated_at: string }>) {
+      const { data: claimed, error: claimError } = await this.supabase
+        .from('certificate_generation_jobs')
+        .update({ updated_at: new Date().toISOString(), yielded_at: null } as any)
+        .eq('id', candidate.id)
+        .eq('status', 'running')
+        .eq('updated_at', candidate.updated_at)
+        .select(JOB_COLUMNS)
+        .maybeSingle();
+
+      if (claimError) {
+        throw new Error(`Failed to reclaim generation job: ${claimError.message}`);
+      }
+
+      if (claimed) {
+        return this.mapToJobEntity(claimed);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create generation_job_templates record
+   */
+  async createJobTemplate(record: GenerationJobTemplateEntity): Promise<void> {
+    const { error } = await this.supabase
+      .from('generation_job_templates')
+      .insert(record as any);
+
+    if (error) {
+      throw new Error(`Failed to create job template record: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the template/version a job renders against
+   */
+  async getJobTemplate(jobId: string): Promise<GenerationJobTemplateEntity | null> {
+    const { data, error } = await this.supabase
+      .from('generation_job_templates')
+      .select('job_id, template_id, template_version_id, category_id, subcategory_id')
+      .eq('job_id', jobId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch job template record: ${error.message}`);
+    }
+
+    return data as GenerationJobTemplateEntity | null;
+  }
+
+  /**
+   * Create generation_job_recipients records (chunked bulk insert)
+   */
+  async createRecipients(
+    jobId: string,
+    recipients: Array<{
+      row_index: number;
+      recipient_name: string;
+      recipient_email: string | null;
+      recipient_phone: string | null;
+      recipient_data: Record<string, unknown>;
+    }>
+  ): Promise<GenerationJobRecipientEntity[]> {
+    const created: GenerationJobRecipientEntity[] = [];
+
+    for (let start = 0; start < recipients.length; start += RECIPIENT_INSERT_CHUNK_SIZE) {
+      const chunk = recipients.slice(start, start + RECIPIENT_INSERT_CHUNK_SIZE).map((r) => ({
+        job_id: jobId,
+        status: 'pending',
+        ...r,
+      }));
+
+      const { data, error } = await this.supabase
+        .from('generation_job_recipients')
+        .insert(chunk as any)
+        .select(RECIPIENT_COLUMNS);
+
+      if (error) {
+        throw new Error(`Failed to create recipient records: ${error.message}`);
+      }
+
+      created.push(...(data ?? []).map((row) => this.mapToRecipientEntity(row)));
+    }
+
+    return created.sort((a, b) => a.row_index - b.row_index);
+  }
+
+  /**
+   * Get the next pending recipients of a job in row order
+   */
+  async getPendingRecipients(jobId: string, limit: number): Promise<GenerationJobRecipientEntity[]> {
+    const { data, error } = await this.supabase
+      .from('generation_job_recipients')
+      .select(RECIPIENT_COLUMNS)
+      .eq('job_id', jobId)
+      .eq('status', 'pending')
+      .order('row_index', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch pending recipients: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => this.mapToRecipientEntity(row));
+  }
+
+  /**
+   * Get recipients of a job with a given status, in row order
+   * Read in pages: PostgREST caps a single response at 1000 rows.
+   */
+  async getRecipientsByStatus(
+    jobId: string,
+    status: GenerationRecipientStatus
+  ): Promise<GenerationJobRecipientEntity[]> {
+    const recipients: GenerationJobRecipientEntity[] = [];
+
+    // Advance by the rows received, in case the server's max-rows is below the page size
+    for (let offset = 0; ; offset = recipients.length) {
+      const { data, error } = await this.supabase
+        .from('generation_job_recipients')
+        .select(RECIPIENT_COLUMNS)
+        .eq('job_id', jobId)
+        .eq('status', status)
+        .order('row_index', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + RECIPIENT_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch job recipients: ${error.message}`);
+      }
+
+      const rows = data ?? [];
+      recipients.push(...rows.map((row) => this.mapToRecipientEntity(row)));
+
+      if (rows.length === 0) {
+        return recipients;
+      }
+    }
+  }
+
+  /**
+   * Count recipients of a job by status
+   */
+  async countRecipientsByStatus(jobId: string): Promise<Record<GenerationRecipientStatus, number>> {
+    const statuses: GenerationRecipientStatus[] = ['pending', 'processing', 'completed', 'failed'];
+
+    const counts = await Promise.all(
+      statuses.map(async (status) => {
+        const { count, error } = await this.supabase
+          .from('generation_job_recipients')
+          .select('id', { count: 'exact', head: true })
+          .eq('job_id', jobId)
+          .eq('status', status);
+
+        if (error) {
+          throw new Error(`Failed to count job recipients: ${error.message}`);
+        }
+
+        return count ?? 0;
+      })
+    );
+
+    return {
+      pending: counts[0] ?? 0,
+      processing: counts[1] ?? 0,
+      completed: counts[2] ?? 0,
+      failed: counts[3] ?? 0,
+    };
+  }
+
+  /**
+   * Claim a pending recipient for rendering ('pending' → 'processing')
+   *
+   * @returns false if the recipient was no longer pending
+   */
+  async claimRecipient(recipientId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('generation_job_recipients')
+      .update({ status: 'processing' } as any)
+      .eq('id', recipientId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to claim recipient record: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Return recipients claimed by a previous holder of the job to 'pending'
+   * Their certificate_id, if any, is discarded when they are rendered again.
+   *
+   * @returns Number of recipients released
+   */
+  async releaseProcessingRecipients(jobId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('generation_job_recipients')
+      .update({ status: 'pending' } as any)
+      .eq('job_id', jobId)
+      .eq('status', 'processing')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to release recipient records: ${error.message}`);
+    }
+
+    return (data ?? []).length;
+  }
+
+  /**
+   * Update recipient processing state
+   */
+  async updateRecipient(
+    recipientId: string,
+    updates: {
+      status?: GenerationRecipientStatus;
+      certificate_id?: string | null;
+      error?: string | null;
+      processed_at?: string | null;
+    }
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('generation_job_recipients')
+      .update(updates as any)
+      .eq('id', recipientId);
+
+    if (error) {
+      throw new Error(`Failed to update recipient record: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reset a job's failed recipients to pending so they are rendered again
+   *
+   * @returns Number of recipients reset
+   */
+  async resetFailedRecipients(jobId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('generation_job_recipients')
+      .update({
+        status: 'pending',
+        certificate_id: null,
+        error: null,
+        processed_at: null,
+      } as any)
+      .eq('job_id', jobId)
+      .eq('status', 'failed')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to reset failed recipients: ${error.message}`);
+    }
+
+    return (data ?? []).length;
+  }
+
+  /**
+   * Map v_certificates_list row to certificate entity
+   */
+  private mapToCertificateEntity(row: Record<string, unknown>): CertificateEntity {
+    return {
+      id: row.certificate_id as string,
+      organization_id: row.organization_id as string,
+      generation_job_id: (row.generation_job_id as string | null) ?? null,
+      certificate_number: row.certificate_number as string,
+      status: row.status as CertificateStatus,
+      issued_at: row.issued_at as string,
+      expires_at: (row.expires_at as string | null) ?? null,
+      revoked_at: (row.revoked_at as string | null) ?? null,
+      revoked_reason: (row.revoked_reason as string | null) ?? null,
+      recipient_name: row.recipient_name as string,
+      recipient_email: (row.recipient_email as string | null) ?? null,
+      recipient_phone: (row.recipient_phone as string | null) ?? null,
+      category_id: row.category_id as string,
+      category_name: row.category_name as string,
+      subcategory_id: row.subcategory_id as string,
+      subcategory_name: row.subcategory_name as string,
+      template_id: row.template_id as string,
+      template_title: row.template_title as string,
+      template_version_id: (row.template_version_id as string | null) ?? null,
+      certificate_file_id: (row.certificate_file_id as string | null) ?? null,
+      certificate_path: (row.certificate_path as string | null) ?? null,
+      certificate_preview_file_id: (row.certificate_preview_file_id as string | null) ?? null,
+      preview_path: (row.preview_path as string | null) ?? null,
+      verification_path: (row.verification_path as string | null) ?? null,
+      qr_payload_url: (row.qr_payload_url as string | null) ?? null,
+      created_at: row.created_at as string,
+    };
+  }
+
+  /**
+   * Map database row to job entity
+   */
+  private mapToJobEntity(row: Record<string, unknown>): GenerationJobEntity {
+    // generation_job_templates is embedded as an array (one row per job in practice)
+    const jobTemplates = row.generation_job_templates as
+      | Array<{ template_id: string; template_version_id: string }>
+      | undefined;
+    const jobTemplate = jobTemplates?.[0];
+
+    return {
+      id: row.id as string,
+      organization_id: row.organization_id as string,
+      status: row.status as GenerationJobStatus,
+      options: (row.options as StoredGenerationJobOptions | null) ?? null,
+      requested_by_user_id: (row.requested_by_user_id as string | null) ?? null,
+      total_count: (row.total_count as number) ?? 0,
+      processed_count: (row.processed_count as number) ?? 0,
+      failed_count: (row.failed_count as number) ?? 0,
+      created_at: row.created_at as string,
+      updated_at: row.updated_at as string,
+      started_at: (row.started_at as string | null) ?? null,
+      completed_at: (row.completed_at as string | null) ?? null,
+      error: (row.error as Record<string, unknown> | null) ?? null,
+      template_id: jobTemplate?.template_id ?? null,
+      template_version_id: jobTemplate?.template_version_id ?? null,
+    };
+  }
+
+  /**
+   * Map database row to recipient entity
+   */
+  private mapToRecipientEntity(row: Record<string, unknown>): GenerationJobRecipientEntity {
+    return {
+      id: row.id as string,
+      job_id: row.job_id as string,
+      row_index: (row.row_index as number) ?? 0,
+      recipient_name: row.recipient_name as string,
+      recipient_email: (row.recipient_email as string | null) ?? null,
+      recipient_phone: (row.recipient_phone as string | null) ?? null,
+      recipient_data: (row.recipient_data as Record<string, unknown>) ?? {},
+      status: (row.status as GenerationRecipientStatus) ?? 'pending',
+      certificate_id: (row.certificate_id as string | null) ?? null,
+      error: (row.error as string | null) ?? null,
+      processed_at: (row.processed_at as string | null) ?? null,
+    };
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * ROW VALIDATION
+ *
+ * Checks generation rows against a template's fields before anything is
+ * issued (POST /certificates/generate/validate). Values are resolved with the
+ * generator's own mapping logic, so a row is checked exactly as it would be drawn.
+ *
+ * Image references are not looked up per row; rendered samples show whether
+ * they resolve.
+ */
+
+import { z } from 'zod';
+import type { FieldMapping, GenerationIssue } from './types.js';
+import {
+  findFieldMapping,
+  getBarcodeOptions,
+  getBarcodeText,
+  getFieldValue,
+  isBarcodeField,
+  isDateField,
+  isFieldVisible,
+  isImageField,
+  isQRField,
+  type GeneratorField,
+} from './pdf-generator.js';
+import { getImageSource } from './field-images.js';
+import { renderBarcodePath } from './barcodes.js';
+import { parseDateValue } from './date-format.js';
+import type { ExpressionContext } from './expressions.js';
+
+const emailSchema = z.string().email();
+
+/**
+ * Check the field mappings against the template and the columns present in the data
+ * @param columns - every column that appears in at least one row
+ */
+export function validateFieldMappings(
+  fields: GeneratorField[],
+  fieldMappings: FieldMapping[],
+  columns: Set<string>
+): GenerationIssue[] {
+  const issues: GenerationIssue[] = [];
+  const usedMappings = new Set<FieldMapping>();
+
+  for (const field of fields) {
+    const mapping = findFieldMapping(field, fieldMappings);
+    if (mapping) {
+      usedMappings.add(mapping);
+    }
+
+    if (!readsColumn(field)) {
+      continue;
+    }
+
+    if (!mapping) {
+      if (field.required && !field.expression) {
+        issues.push({
+          code: 'unmapped_field',
+          message: `Required field "${getFieldName(field)}" is not mapped to a column`,
+          field_id: field.id,
+        });
+      }
+      continue;
+    }
+
+    // Spreadsheet rows omit empty cells, so only a column absent from every row is missing
+    if (!columns.has(mapping.columnName)) {
+      issues.push({
+        code: 'missing_column',
+        message: `Column "${mapping.columnName}" mapped to field "${getFieldName(field)}" is not in the data`,
+        field_id: field.id,
+        column: mapping.columnName,
+      });
+    }
+  }
+
+  for (const mapping of fieldMappings) {
+    if (!usedMappings.has(mapping)) {
+      issues.push({
+        code: 'unknown_field',
+        message: `Column "${mapping.columnName}" is mapped to "${mapping.fieldId}", which is not a field of the template`,
+        column: mapping.columnName,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check one row: required values, dates, barcodes, expressions and the recipient email
+ */
+export function validateRow(params: {
+  fields: GeneratorField[];
+  fieldMappings: FieldMapping[];
+  rowData: Record<string, unknown>;
+  formatting: ExpressionContext;
+  recipientEmail: string | null;
+}): GenerationIssue[] {
+  const { fields, fieldMappings, rowData, formatting, recipientEmail } = params;
+  const issues: GenerationIssue[] = [];
+
+  if (recipientEmail && !emailSchema.safeParse(recipientEmail).success) {
+    issues.push({ code: 'invalid_email', message: `"${recipientEmail}" is not a valid email address` });
+  }
+
+  for (const field of fields) {
+    const name = getFieldName(field);
+
+    try {
+      if (!isFieldVisible(field, rowData, formatting) || isQRField(field)) {
+        continue;
+      }
+
+      if (isImageField(field) || isBarcodeField(field)) {
+        if (!readsColumn(field)) {
+          continue;
+        }
+
+        const mapping = findFieldMapping(field, fieldMappings);
+        const value = mapping ? String(rowData[mapping.columnName] ?? '').trim() : '';
+
+        if (!value) {
+          if (field.required) {
+            issues.push({ code: 'required', message: `Field "${name}" is required`, field_id: field.id, column: mapping?.columnName });
+          }
+          continue;
+        }
+
+        if (isBarcodeField(field)) {
+          try {
+            const text = getBarcodeText(field, { fieldMappings, rowData, appUrl: '' });
+            renderBarcodePath(text, getBarcodeOptions(field), field);
+          } catch (error) {
+            issues.push({
+              code: 'invalid_barcode',
+              message: `Field "${name}": ${error instanceof Error ? error.message : 'value cannot be encoded'}`,
+              field_id: field.id,
+              column: mapping?.columnName,
+            });
+          }
+        }
+        continue;
+      }
+
+      const value = getFieldValue(field, fieldMappings, rowData, formatting);
+      if (value === null) {
+        continue;
+      }
+
+      const column = field.expression ? undefined : findFieldMapping(field, fieldMappings)?.columnName;
+
+      if (!value.trim()) {
+        if (field.required) {
+          issues.push({ code: 'required', message: `Field "${name}" is required`, field_id: field.id, column });
+        }
+        continue;
+      }
+
+      if (isDateField(field) && !parseDateValue(value, { inputFormat: field.dateInputFormat, ...formatting })) {
+        issues.push({
+          code: 'invalid_date',
+          message: field.dateInputFormat
+            ? `Field "${name}": "${value}" is not a date in the format ${field.dateInputFormat}`
+            : `Field "${name}": "${value}" is not a date`,
+          field_id: field.id,
+          column,
+        });
+      }
+    } catch (error) {
+      // Expression and condition errors already name the field
+      issues.push({
+        code: 'expression_error',
+        message: error instanceof Error ? error.message : `Field "${name}" could not be evaluated`,
+        field_id: field.id,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Whether a field's value comes from a mapped column
+ * QR codes, asset images and barcodes of the token or certificate number do not.
+ */
+function readsColumn(field: GeneratorField): boolean {
+  if (isQRField(field)) {
+    return false;
+  }
+  if (isImageField(field)) {
+    return getImageSource(field) === 'column';
+  }
+  if (isBarcodeField(field)) {
+    return field.barcodePayload === 'column';
+  }
+  return !field.expression;
+}
+
+function getFieldName(field: GeneratorField): string {
+  return field.label ?? field.field_key ?? field.id;
+}
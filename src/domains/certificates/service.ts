@@ -9,14 +9,49 @@
  * - generation_job_templates
  * - certificates
  * - files (for certificate PDF/image and preview)
+ *
+ * Batches above MAX_SYNC_BATCH_SIZE are queued and rendered by the
+ * background generation worker (src/jobs/generation-worker.ts).
  */
 
 import JSZip from 'jszip';
 import crypto from 'node:crypto';
 import type { TemplateRepository } from '../templates/repository.js';
+import type { FontFaceData } from '../fonts/types.js';
+import { FontRepository } from '../fonts/repository.js';
+import { FontService } from '../fonts/service.js';
+import type { NumberSchemeEntity } from '../numbering/types.js';
+import { NumberingRepository } from '../numbering/repository.js';
+import { NumberingService } from '../numbering/service.js';
+import type { PdfSigner } from '../signing/types.js';
+import { SigningRepository } from '../signing/repository.js';
+import { SigningService } from '../signing/service.js';
+import { CredentialRepository } from '../credentials/repository.js';
+import { CredentialService } from '../credentials/service.js';
+import { ImportRepository } from '../imports/repository.js';
+import type { CertificateRepository } from './repository.js';
 import type {
   GenerateCertificatesDTO,
+  GenerateFromImportDTO,
+  ValidateGenerationDTO,
+  GenerationValidationResult,
+  GenerationSample,
   CertificateGenerationResult,
+  FieldMapping,
+  GenerationOptions,
+  GenerationJobEntity,
+  GenerationJobRecipientEntity,
+  GenerationJobStatus,
+  GenerationJobSummary,
+  GenerationJobDetail,
+  GenerationJobDownload,
+  CertificateEntity,
+  CertificateDetail,
+  ListCertificatesQuery,
+  BulkRevokeCertificatesDTO,
+  BulkRevokeResult,
+  ReissueCertificateDTO,
+  ExpirySweepResult,
 } from './types.js';
 import {
   generateCertificatePDF,
@@ -25,11 +60,41 @@ import {
   sanitizeFileName,
   type GeneratorField,
 } from './pdf-generator.js';
+import { TEXT_OVERFLOW_MODES } from './text-layout.js';
+import { IMAGE_FIT_MODES } from './image-fit.js';
+import { IMAGE_SOURCES, loadAssetImages, resolveFieldImages } from './field-images.js';
+import { BARCODE_PAYLOADS, BARCODE_SYMBOLOGIES } from './barcodes.js';
+import { signCertificatePDF } from './pdf-signing.js';
+import { validateFieldMappings, validateRow } from './row-validation.js';
 import { getSupabaseClient } from '../../lib/supabase/client.js';
-import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { sanitizePaginationParams } from '../../lib/utils/pagination.js';
+import { getCachedSignedUrl, setCachedSignedUrl } from '../../lib/cache/signed-url-cache.js';
+import { invalidateDashboardCache } from '../../lib/cache/dashboard-cache.js';
 
 const MAX_SYNC_BATCH_SIZE = 50;
 
+/**
+ * Number of pending recipients fetched per iteration when processing a queued job
+ */
+const JOB_RECIPIENT_PAGE_SIZE = 25;
+
+/**
+ * Template signed URLs are valid for 1 hour; long-running jobs refresh them
+ * well before they expire
+ */
+const TEMPLATE_CONTEXT_REFRESH_MS = 30 * 60 * 1000;
+
+/**
+ * Lifetime of signed job ZIP download URLs (seconds)
+ */
+const JOB_DOWNLOAD_URL_EXPIRY = 3600;
+
+/**
+ * Number of stored import rows read per page when generating from an import
+ */
+const IMPORT_ROW_PAGE_SIZE = 500;
+
 /**
  * Compute SHA-256 hash of a buffer
  */
@@ -37,9 +102,107 @@ function computeSHA256(buffer: Buffer | Uint8Array): string {
   return crypto.createHash('sha256').update(buffer).digest('hex');
 }
 
+/**
+ * Rows stored with an import job, in row order, one page at a time
+ */
+async function* readImportRows(
+  imports: ImportRepository,
+  importJobId: string,
+  organizationId: string
+): AsyncGenerator<Array<Record<string, unknown>>> {
+  for (let offset = 0; ; offset += IMPORT_ROW_PAGE_SIZE) {
+    const { data } = await imports.getDataRows(importJobId, organizationId, {
+      limit: IMPORT_ROW_PAGE_SIZE,
+      offset,
+    });
+
+    if (data.length > 0) {
+      yield data.map((row) => row.data);
+    }
+
+    if (data.length < IMPORT_ROW_PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+/**
+ * Everything needed to render certificates for one template version
+ */
+interface GenerationTemplateContext {
+  /** Issuer name written into PDF metadata */
+  organizationName: string;
+  templateId: string;
+  versionId: string;
+  categoryId: string;
+  subcategoryId: string;
+  /** Achievement named in the certificate's verifiable credential */
+  categoryName: string;
+  subcategoryName: string;
+  fields: GeneratorField[];
+  fonts: FontFaceData[];
+  /** Asset images of image fields, keyed by field ID */
+  assetImages: Map<string, Uint8Array>;
+  /** Template locale and timezone for dates and numbers (null: en-US, UTC) */
+  locale: string | null;
+  timeZone: string | null;
+  /** Number scheme of the template's category (null: built-in numbering) */
+  numberScheme: NumberSchemeEntity | null;
+  /** Signs PDF certificates (null: images, or no signing certificate) */
+  signer: PdfSigner | null;
+  templateUrl: string;
+  templateMimeType: string;
+  isPdfTemplate: boolean;
+  outputMimeType: string;
+  outputExtension: string;
+  loadedAt: number;
+}
+
+/**
+ * Certificate issued for a single recipient
+ */
+interface IssuedCertificate {
+  id: string;
+  recipient_name: string;
+  recipient_email: string | null;
+  recipient_phone: string | null;
+  certificate_number: string;
+  verification_token: string;
+  issued_at: string;
+  expires_at: string | null;
+  file_path: string;
+  preview_path: string | null;
+}
+
+/**
+ * Input of issueCertificate
+ */
+interface IssueCertificateParams {
+  organizationId: string;
+  userId: string | null;
+  jobId: string | null;
+  context: GenerationTemplateContext;
+  fieldMappings: FieldMapping[];
+  options: Partial<GenerationOptions> | undefined;
+  recipient: Pick<GenerationJobRecipientEntity, 'recipient_name' | 'recipient_email' | 'recipient_phone' | 'recipient_data'>;
+  appUrl: string;
+  reissuedFromCertificateId?: string;
+  onCertificateCreated?: (certificateId: string) => Promise<void>;
+}
+
+/**
+ * Outcome of rendering one generation_job_recipients row
+ */
+type RecipientOutcome =
+  | { certificate: IssuedCertificate; buffer: Buffer }
+  | { error: string };
+
 export class CertificateService {
   // Note: templateRepository is kept for backward compatibility and potential future use
-  constructor(private readonly templateRepository: TemplateRepository) {
+  constructor(
+    private readonly templateRepository: TemplateRepository,
+    private readonly repository: CertificateRepository
+  ) {
     // Suppress unused warning - repository may be used in future methods
     void this.templateRepository;
   }
@@ -48,7 +211,7 @@ export class CertificateService {
    * Generate certificates
    *
    * For batches <= 50: Synchronous generation
-   * For batches > 50: Returns job ID for async processing
+   * For batches > 50: Returns job ID; the job is processed by the background generation worker
    *
    * Saves to database tables:
    * - certificate_generation_jobs
@@ -63,612 +226,299 @@ export class CertificateService {
     dto: GenerateCertificatesDTO,
     appUrl: string
   ): Promise<CertificateGenerationResult> {
-    const supabase = getSupabaseClient();
-
-    // Validate batch size
-    if (dto.data.length > MAX_SYNC_BATCH_SIZE) {
-      // Create a queued job for async processing
-      // Note: job_status enum is 'queued', 'running', 'completed', 'failed', 'cancelled'
-      const { data: pendingJob, error: jobError } = await supabase
-        .from('certificate_generation_jobs')
-        .insert({
-          organization_id: organizationId,
-          requested_by_user_id: userId,
-          status: 'queued',
-          options: dto.options || {},
-        } as any)
-        .select('id')
-        .single();
+    return this.runGeneration(
+      organizationId,
+      userId,
+      dto,
+      { total: dto.data.length, pages: (async function* () { yield dto.data; })() },
+      appUrl
+    );
+  }
 
-      if (jobError || !pendingJob) {
-        throw new Error(`Failed to create generation job: ${jobError?.message || 'Unknown error'}`);
-      }
+  /**
+   * Generate certificates from the rows stored with an import job
+   *
+   * Rows are read from file_import_rows page by page instead of being sent by
+   * the client, with the same sync/async split as generateCertificates. The
+   * generation job is recorded on the import (generation_job_id), and its
+   * success_count / failed_count are updated when the job finishes. Image
+   * fields resolve file names against the images uploaded to the import.
+   *
+   * The import is claimed by swapping generation_job_id from the job seen here
+   * to the new one, before any recipient is stored; a concurrent request that
+   * loses the swap deletes its job and gets a conflict.
+   */
+  async generateFromImport(
+    organizationId: string,
+    userId: string,
+    importJobId: string,
+    dto: GenerateFromImportDTO,
+    appUrl: string
+  ): Promise<CertificateGenerationResult> {
+    const imports = new ImportRepository(getSupabaseClient());
+    const importJob = await imports.findById(importJobId, organizationId);
 
-      // TODO: Queue async job processing
-      return {
-        job_id: (pendingJob as { id: string }).id,
-        status: 'queued',
-        total_certificates: dto.data.length,
-      };
+    if (!importJob) {
+      throw new NotFoundError('Import job not found');
     }
 
-    // Get template with version and files (new schema)
-    const { data: templateData, error: templateError } = await supabase
-      .from('certificate_templates')
-      .select(`
-        id,
-        title,
-        category_id,
-        subcategory_id,
-        latest_version_id,
-        latest_version:certificate_template_versions!fk_templates_latest_version (
-          id,
-          source_file_id,
-          source_file:source_file_id (
-            id,
-            bucket,
-            path,
-            mime_type
-          )
-        )
-      `)
-      .eq('id', dto.template_id)
-      .eq('organization_id', organizationId)
-      .is('deleted_at', null)
-      .single();
-
-    if (templateError || !templateData) {
-      throw new NotFoundError('Template not found');
+    if (importJob.generation_job_id) {
+      const previous = await this.repository.findJobById(importJob.generation_job_id, organizationId);
+      if (previous && (previous.status === 'queued' || previous.status === 'running')) {
+        throw new ConflictError('Certificates are already being generated from this import', {
+          generation_job_id: previous.id,
+        });
+      }
     }
 
-    console.log('[CertificateService] Template data retrieved:', {
-      template_id: (templateData as any).id,
-      title: (templateData as any).title,
-      latest_version_id: (templateData as any).latest_version_id,
-      has_latest_version: !!(templateData as any).latest_version,
-      raw_template_data: JSON.stringify(templateData),
-    });
-
-    const version = (templateData as any).latest_version;
-    if (!version || !version.source_file) {
-      console.error('[CertificateService] Missing version or source file:', {
-        version: version ? JSON.stringify(version) : 'null',
-        has_source_file: version?.source_file ? 'yes' : 'no',
-      });
-      throw new ValidationError('Template version or source file not found');
+    const { count } = await imports.getDataRows(importJobId, organizationId, { limit: 1 });
+    if (count === 0) {
+      throw new ValidationError('Import has no stored rows. Upload it with reusable enabled to generate from it.');
     }
 
-    const categoryId = (templateData as any).category_id;
-    const subcategoryId = (templateData as any).subcategory_id;
-
-    // Get template fields
-    const { data: fieldsData, error: fieldsError } = await supabase
-      .from('certificate_template_fields')
-      .select('id, field_key, label, type, page_number, x, y, width, height, style, required')
-      .eq('template_version_id', version.id)
-      .order('created_at', { ascending: true });
-
-    if (fieldsError) {
-      throw new Error(`Failed to fetch template fields: ${fieldsError.message}`);
-    }
+    return this.runGeneration(
+      organizationId,
+      userId,
+      { ...dto, options: { ...dto.options, import_job_id: importJobId } },
+      { total: count, pages: readImportRows(imports, importJobId, organizationId) },
+      appUrl,
+      async (jobId) => {
+        const claimed = await imports.claimForGeneration(
+          importJobId,
+          organizationId,
+          importJob.generation_job_id,
+          jobId
+        );
+
+        if (!claimed) {
+          await this.repository.deleteJob(jobId);
+          throw new ConflictError('Certificates are already being generated from this import');
+        }
+      }
+    );
+  }
 
-    // Map database fields to GeneratorField format
-    // Extract style properties from the style JSON
-    const fields: GeneratorField[] = (fieldsData ?? []).map((f: any) => {
-      const style = f.style || {};
-      return {
-        id: f.id,
-        field_key: f.field_key,
-        label: f.label,
-        type: f.type,
-        page_number: f.page_number,
-        x: f.x || 0,
-        y: f.y || 0,
-        width: f.width || 200,
-        height: f.height || 30,
-        fontSize: style.fontSize || 16,
-        fontFamily: style.fontFamily || 'Helvetica',
-        color: style.color || '#000000',
-        textAlign: style.textAlign || 'left',
-        fontWeight: style.fontWeight,
-        fontStyle: style.fontStyle,
-        prefix: style.prefix,
-        suffix: style.suffix,
-        dateFormat: style.dateFormat,
-        required: f.required,
-      };
-    });
+  /**
+   * Dry run of generateCertificates
+   *
+   * Checks every row with the generator's mapping logic and renders the first
+   * rows as samples, without creating jobs, certificates, files or certificate
+   * numbers, so nothing counts toward usage. Samples carry a preview number
+   * and a verification QR code that does not resolve.
+   */
+  async validateGeneration(
+    organizationId: string,
+    dto: ValidateGenerationDTO,
+    appUrl: string
+  ): Promise<GenerationValidationResult> {
+    const supabase = getSupabaseClient();
+    const context = await this.loadTemplateContext(organizationId, dto.template_id);
+    const formatting = { locale: context.locale, timeZone: context.timeZone };
+
+    const columns = new Set(dto.data.flatMap((rowData) => Object.keys(rowData)));
+    const mappingErrors = validateFieldMappings(context.fields, dto.field_mappings, columns);
+
+    const rowErrors = dto.data.map((rowData) => validateRow({
+      fields: context.fields,
+      fieldMappings: dto.field_mappings,
+      rowData,
+      formatting,
+      recipientEmail: this.extractRecipientInfo(rowData).recipient_email,
+    }));
+
+    const samples: GenerationSample[] = [];
+    const issuedAt = dto.options?.issue_date ? new Date(dto.options.issue_date) : new Date();
+    const certificateNumber = context.numberScheme
+      ? new NumberingService(new NumberingRepository(supabase)).preview(context.numberScheme, issuedAt, context.timeZone)
+      : 'SAMPLE';
+
+    for (const [index, rowData] of dto.data.slice(0, dto.sample_count).entries()) {
+      const recipient = this.extractRecipientInfo(rowData);
+
+      try {
+        const images = await resolveFieldImages({
+          supabase,
+          organizationId,
+          fields: context.fields,
+          fieldMappings: dto.field_mappings,
+          rowData,
+          assetImages: context.assetImages,
+          importJobId: dto.options?.import_job_id,
+        });
 
-    // Get signed URL for source file
-    const sourceFile = version.source_file;
-    const { data: urlData, error: urlError } = await supabase.storage
-      .from(sourceFile.bucket)
-      .createSignedUrl(sourceFile.path, 3600);
+        const bytes = await this.renderCertificate(context, {
+          fieldMappings: dto.field_mappings,
+          options: dto.options,
+          rowData,
+          recipientName: recipient.recipient_name,
+          images,
+          certificateNumber,
+          verificationToken: generateVerificationToken(),
+          issuedAt,
+          expiresAt: this.calculateExpiresAt(issuedAt, dto.options, rowData),
+          appUrl,
+        });
 
-    if (urlError || !urlData) {
-      throw new Error(`Failed to get template file URL: ${urlError?.message || 'Unknown error'}`);
+        samples.push({
+          row_index: index,
+          file_name: `${sanitizeFileName(recipient.recipient_name || `certificate_${index + 1}`)}.${context.outputExtension}`,
+          mime_type: context.outputMimeType,
+          content_base64: Buffer.from(bytes).toString('base64'),
+        });
+      } catch (error) {
+        rowErrors[index]!.push({
+          code: 'render_failed',
+          message: error instanceof Error ? error.message : 'Certificate could not be rendered',
+        });
+      }
     }
 
-    const templateUrl = urlData.signedUrl;
-    const templateMimeType = sourceFile.mime_type as string;
-
-    console.log('[CertificateService] Source file details:', {
-      file_id: sourceFile.id,
-      bucket: sourceFile.bucket,
-      path: sourceFile.path,
-      mime_type: sourceFile.mime_type,
-      raw_source_file: JSON.stringify(sourceFile),
-    });
+    const rows = rowErrors
+      .map((errors, rowIndex) => ({ row_index: rowIndex, errors }))
+      .filter((row) => row.errors.length > 0);
+
+    // Mapping errors make every row invalid
+    const invalidRows = mappingErrors.length > 0 ? dto.data.length : rows.length;
+
+    return {
+      total_rows: dto.data.length,
+      valid_rows: dto.data.length - invalidRows,
+      invalid_rows: invalidRows,
+      mapping_errors: mappingErrors,
+      rows,
+      samples,
+    };
+  }
 
-    // Determine output format based on template type
-    // PDF templates → export as PDF
-    // Image templates → export as same image format
-    const isPdfTemplate = templateMimeType === 'application/pdf';
-    const outputFormat = isPdfTemplate ? 'pdf' : this.getImageFormat(templateMimeType);
-    const outputMimeType = isPdfTemplate ? 'application/pdf' : templateMimeType;
-    const outputExtension = this.getFileExtension(outputFormat);
+  /**
+   * Create a generation job for a set of rows, then render it (<= 50 rows) or queue it
+   * @param rows - row count, and the rows in pages (recipients are stored page by page)
+   * @param onJobCreated - runs before recipients are stored; a failure fails the job
+   */
+  private async runGeneration(
+    organizationId: string,
+    userId: string,
+    dto: { template_id: string; field_mappings: FieldMapping[]; options?: Partial<GenerationOptions> },
+    rows: { total: number; pages: AsyncIterable<Array<Record<string, unknown>>> },
+    appUrl: string,
+    onJobCreated?: (jobId: string) => Promise<void>
+  ): Promise<CertificateGenerationResult> {
+    const supabase = getSupabaseClient();
 
-    console.log('[CertificateService] Generation config:', {
-      templateMimeType,
-      isPdfTemplate,
-      outputFormat,
-      outputMimeType,
-      outputExtension,
-    });
+    // Resolve template, version, fields and source file up front so an invalid
+    // template is rejected before any job is created
+    const context = await this.loadTemplateContext(organizationId, dto.template_id);
+    const isAsync = rows.total > MAX_SYNC_BATCH_SIZE;
 
-    // Step 1: Create generation job record
-    // Note: job_status enum is 'queued', 'running', 'completed', 'failed', 'cancelled'
-    // Table has: id, organization_id, status, options, requested_by_user_id, created_at, updated_at, completed_at, error
-    const { data: generationJob, error: jobError } = await supabase
-      .from('certificate_generation_jobs')
-      .insert({
-        organization_id: organizationId,
-        requested_by_user_id: userId,
-        status: 'running',
-        options: dto.options || {},
-      } as any)
-      .select('id')
-      .single();
+    if (dto.options?.signed_qr && !new CredentialService(new CredentialRepository(supabase)).enabled) {
+      throw new ValidationError('signed_qr requires verifiable credentials (CREDENTIALS_ISSUER_URL and CREDENTIALS_ENCRYPTION_KEY)');
+    }
 
-    if (jobError || !generationJob) {
-      throw new Error(`Failed to create generation job: ${jobError?.message || 'Unknown error'}`);
+    if (dto.options?.embed_credential && !new CredentialService(new CredentialRepository(supabase)).enabled) {
+      throw new ValidationError('embed_credential requires verifiable credentials (CREDENTIALS_ISSUER_URL and CREDENTIALS_ENCRYPTION_KEY)');
     }
 
-    const jobId = (generationJob as { id: string }).id;
-    console.log('[CertificateService] Created generation job:', jobId);
+    // Step 1: Create generation job record
+    // Async jobs are created as 'running' and only flipped to 'queued' once all
+    // recipients are stored, so the worker never claims a half-populated job.
+    // Field mappings are persisted in options so the worker can render without the request.
+    const job = await this.repository.createJob(organizationId, userId, {
+      status: 'running',
+      options: { ...(dto.options || {}), field_mappings: dto.field_mappings },
+      total_count: rows.total,
+    });
+
+    const jobId = job.id;
+    console.log('[CertificateService] Created generation job:', jobId, { async: isAsync });
 
     try {
+      await onJobCreated?.(jobId);
+
       // Step 2: Create generation_job_templates record
-      const { error: jobTemplateError } = await supabase
-        .from('generation_job_templates')
-        .insert({
-          job_id: jobId,
-          template_id: dto.template_id,
-          template_version_id: version.id,
-          category_id: categoryId,
-          subcategory_id: subcategoryId,
-        } as any);
-
-      if (jobTemplateError) {
-        throw new Error(`Failed to create job template record: ${jobTemplateError.message}`);
-      }
+      await this.repository.createJobTemplate({
+        job_id: jobId,
+        template_id: context.templateId,
+        template_version_id: context.versionId,
+        category_id: context.categoryId,
+        subcategory_id: context.subcategoryId,
+      });
 
       // Step 3: Create generation_job_recipients records
-      // Extract recipient info directly from row data using common key patterns
-      const recipientRecords = dto.data.map((rowData, index) => {
-        // Find recipient name from common column names
-        const nameKeys = ['Recipient Name', 'recipient_name', 'Name', 'name', 'Full Name', 'full_name', 'Student Name', 'Candidate Name'];
-        let recipientName = 'Unknown';
-        for (const key of nameKeys) {
-          if (rowData[key] && String(rowData[key]).trim()) {
-            recipientName = String(rowData[key]).trim();
-            break;
-          }
-        }
-
-        // Find email from common column names
-        const emailKeys = ['Email', 'email', 'E-mail', 'e-mail', 'Recipient Email', 'recipient_email'];
-        let recipientEmail: string | null = null;
-        for (const key of emailKeys) {
-          if (rowData[key] && String(rowData[key]).trim()) {
-            recipientEmail = String(rowData[key]).trim();
-            break;
-          }
+      // Extract recipient info directly from row data using common key patterns.
+      // Async jobs are rendered by the worker, so their recipients are not kept.
+      const recipients: GenerationJobRecipientEntity[] = [];
+      let recipientCount = 0;
+
+      for await (const page of rows.pages) {
+        const created = await this.repository.createRecipients(
+          jobId,
+          page.map((rowData, index) => ({
+            row_index: recipientCount + index,
+            ...this.extractRecipientInfo(rowData),
+            recipient_data: rowData,
+          }))
+        );
+
+        recipientCount += created.length;
+        if (!isAsync) {
+          recipients.push(...created);
         }
+      }
 
-        // Find phone from common column names
-        const phoneKeys = ['Phone', 'phone', 'Mobile', 'mobile', 'Contact', 'contact', 'Phone Number', 'phone_number'];
-        let recipientPhone: string | null = null;
-        for (const key of phoneKeys) {
-          if (rowData[key] && String(rowData[key]).trim()) {
-            recipientPhone = String(rowData[key]).trim();
-            break;
-          }
-        }
+      console.log('[CertificateService] Created', recipientCount, 'recipient records');
 
-        console.log(`[CertificateService] Recipient ${index + 1}:`, { recipientName, recipientEmail, recipientPhone });
+      if (isAsync) {
+        await this.repository.updateJob(jobId, { status: 'queued', started_at: null });
 
         return {
           job_id: jobId,
-          recipient_name: recipientName,
-          recipient_email: recipientEmail,
-          recipient_phone: recipientPhone,
-          recipient_data: rowData,
+          status: 'queued',
+          total_certificates: recipientCount,
+          certificates: [],
         };
-      });
-
-      const { data: recipientDataRaw, error: recipientError } = await supabase
-        .from('generation_job_recipients')
-        .insert(recipientRecords as any)
-        .select('id, recipient_name, recipient_email, recipient_phone');
-
-      if (recipientError) {
-        throw new Error(`Failed to create recipient records: ${recipientError.message}`);
       }
 
-      // Type assertion for recipient data
-      const recipientData = recipientDataRaw as Array<{
-        id: string;
-        recipient_name: string;
-        recipient_email: string | null;
-        recipient_phone: string | null;
-      }> | null;
-
-      console.log('[CertificateService] Created', recipientData?.length, 'recipient records');
-
       // Step 4: Generate certificates
       const zip = new JSZip();
-      const certificateResults: Array<{
-        id: string;
-        file_name: string;
-        recipient_name: string;
-        recipient_email: string | null;
-        recipient_phone: string | null;
-        certificate_number: string;
-        verification_token: string;
-        issued_at: string;
-        expires_at: string | null;
-        file_path: string;
-        preview_path: string | null;
-      }> = [];
+      const certificateResults: IssuedCertificate[] = [];
       const errors: Array<{ index: number; error: string }> = [];
-
-      for (let i = 0; i < dto.data.length; i++) {
-        const rowData = dto.data[i]!;
-        const recipient = recipientData?.[i];
-
-        if (!recipient) {
-          errors.push({ index: i, error: 'Missing recipient data' });
-          continue;
+      let cancelled = false;
+
+      for (const recipient of recipients) {
+        const outcome = await this.processRecipient(
+          job,
+          context,
+          dto.field_mappings,
+          dto.options,
+          recipient,
+          appUrl
+        );
+
+        if ('error' in outcome) {
+          errors.push({ index: recipient.row_index, error: outcome.error });
+        } else {
+          // Sanitize filename for ZIP
+          const fileName = sanitizeFileName(recipient.recipient_name || `certificate_${recipient.row_index + 1}`);
+          this.addToZip(zip, fileName, context.outputExtension, outcome.buffer);
+          certificateResults.push(outcome.certificate);
         }
 
-        try {
-          // Generate verification token
-          const verificationToken = generateVerificationToken();
-          const verificationTokenHash = computeSHA256(Buffer.from(verificationToken));
-
-          // Get next certificate number using RPC (handles race conditions)
-          const { data: certNumData, error: certNumError } = await supabase.rpc('next_certificate_number', {
-            p_organization_id: organizationId,
-          } as any);
-
-          console.log(`[CertificateService] Certificate number RPC result for ${i + 1}:`, { certNumData, certNumError });
-
-          if (certNumError) {
-            console.error('[CertificateService] Failed to get certificate number:', certNumError);
-            errors.push({ index: i, error: `Failed to get certificate number: ${certNumError.message}` });
-            continue;
-          }
-
-          if (!certNumData) {
-            console.error('[CertificateService] Certificate number is null/undefined');
-            errors.push({ index: i, error: 'Certificate number is null' });
-            continue;
-          }
-
-          const certificateNumber = String(certNumData);
-
-          // Generate certificate in the correct format
-          let certificateBytes: Uint8Array;
-
-          if (isPdfTemplate) {
-            // Generate PDF for PDF template
-            certificateBytes = await generateCertificatePDF({
-              templateUrl,
-              templateType: 'pdf',
-              templateWidth: undefined,
-              templateHeight: undefined,
-              fields,
-              fieldMappings: dto.field_mappings,
-              rowData,
-              includeQR: dto.options?.includeQR ?? true,
-              verificationToken,
-              appUrl,
-            });
-          } else {
-            // Generate image for image template
-            certificateBytes = await generateCertificateImage({
-              templateUrl,
-              templateMimeType,
-              fields,
-              fieldMappings: dto.field_mappings,
-              rowData,
-              includeQR: dto.options?.includeQR ?? true,
-              verificationToken,
-              appUrl,
-            });
-          }
-
-          const certificateBuffer = Buffer.from(certificateBytes);
-
-          // Determine issue date (use custom if provided, otherwise NOW)
-          const issuedAt = dto.options?.issue_date
-            ? new Date(dto.options.issue_date)
-            : new Date();
-
-          // Calculate expires_at based on expiry_type option
-          let expiresAt: string | null = null;
-          const expiryType = dto.options?.expiry_type ?? 'year';
-
-          if (expiryType === 'custom' && dto.options?.custom_expiry_date) {
-            // Use custom expiry date
-            expiresAt = new Date(dto.options.custom_expiry_date).toISOString();
-          } else if (expiryType === 'never') {
-            // No expiry
-            expiresAt = null;
-          } else {
-            // Calculate expiry based on type
-            const expiryDate = new Date(issuedAt);
-            switch (expiryType) {
-              case 'day':
-                expiryDate.setDate(expiryDate.getDate() + 1);
-                break;
-              case 'week':
-                expiryDate.setDate(expiryDate.getDate() + 7);
-                break;
-              case 'month':
-                expiryDate.setMonth(expiryDate.getMonth() + 1);
-                break;
-              case 'year':
-                expiryDate.setFullYear(expiryDate.getFullYear() + 1);
-                break;
-              case '5_years':
-                expiryDate.setFullYear(expiryDate.getFullYear() + 5);
-                break;
-              default:
-                // Default to 1 year
-                expiryDate.setFullYear(expiryDate.getFullYear() + 1);
-            }
-            expiresAt = expiryDate.toISOString();
-          }
-
-          // Fallback: Check CSV data for expiry date (for backwards compatibility)
-          if (!expiresAt && expiryType !== 'never') {
-            const expiryKeys = ['Expiry Date', 'expiry_date', 'Expires At', 'expires_at', 'Valid Until', 'valid_until', 'Expiration', 'expiration', 'Validity', 'validity_date'];
-            for (const key of expiryKeys) {
-              if (rowData[key] && String(rowData[key]).trim()) {
-                const expiryValue = String(rowData[key]).trim();
-                try {
-                  const expiryDate = new Date(expiryValue);
-                  if (!isNaN(expiryDate.getTime())) {
-                    expiresAt = expiryDate.toISOString();
-                    break;
-                  }
-                } catch {
-                  // Continue to next key if date parsing fails
-                }
-              }
-            }
-          }
-
-          console.log(`[CertificateService] Creating certificate record ${i + 1}:`, {
-            recipient_name: recipient.recipient_name,
-            certificate_number: certificateNumber,
-            verification_token: verificationToken.substring(0, 10) + '...',
-            issued_at: issuedAt.toISOString(),
-            expires_at: expiresAt,
-            expiry_type: expiryType,
-          });
-
-          // Create certificate record first to get the ID
-          const { data: certRecord, error: certError } = await supabase
-            .from('certificates')
-            .insert({
-              organization_id: organizationId,
-              generation_job_id: jobId,
-              template_id: dto.template_id,
-              template_version_id: version.id,
-              category_id: categoryId,
-              subcategory_id: subcategoryId,
-              recipient_name: recipient.recipient_name,
-              recipient_email: recipient.recipient_email,
-              recipient_phone: recipient.recipient_phone,
-              recipient_data: rowData,
-              certificate_number: certificateNumber,
-              verification_token_hash: verificationTokenHash,
-              verification_path: `/verify/${verificationToken}`,
-              qr_payload_url: `${appUrl}/verify/${verificationToken}`,
-              status: 'issued',
-              issued_at: issuedAt.toISOString(),
-              expires_at: expiresAt,
-            } as any)
-            .select('id')
-            .single();
-
-          if (certError || !certRecord) {
-            console.error('[CertificateService] Failed to create certificate record:', certError);
-            errors.push({ index: i, error: `Failed to create certificate record: ${certError?.message || 'Unknown'}` });
-            continue;
-          }
-
-          const certificateId = (certRecord as { id: string }).id;
-
-          // Step 5: Upload certificate file to storage
-          const storagePath = `certificates/${organizationId}/${certificateId}/certificate.${outputExtension}`;
-
-          const { error: uploadError } = await supabase.storage
-            .from('authentix')
-            .upload(storagePath, certificateBuffer, {
-              contentType: outputMimeType,
-              upsert: false,
-            });
-
-          if (uploadError) {
-            console.error('[CertificateService] Failed to upload certificate:', uploadError);
-            errors.push({ index: i, error: `Failed to upload certificate: ${uploadError.message}` });
-            // Clean up certificate record
-            await (supabase.from('certificates') as any).delete().eq('id', certificateId);
-            continue;
-          }
-
-          // Step 6: Create file record
-          // Note: file_kind enum only has 'certificate_pdf', use 'other' for images
-          const checksum = computeSHA256(certificateBuffer);
-          const { data: fileRecord, error: fileError } = await supabase
-            .from('files')
-            .insert({
-              organization_id: organizationId,
-              bucket: 'authentix',
-              path: storagePath,
-              kind: 'certificate_pdf', // Use certificate_pdf for all certificate files
-              original_name: `certificate_${certificateNumber}.${outputExtension}`,
-              mime_type: outputMimeType,
-              size_bytes: certificateBuffer.length,
-              checksum_sha256: checksum,
-              created_by_user_id: userId,
-            } as any)
-            .select('id')
-            .single();
-
-          if (fileError || !fileRecord) {
-            console.error('[CertificateService] Failed to create file record:', fileError);
-            // Clean up storage and certificate record
-            await supabase.storage.from('authentix').remove([storagePath]);
-            await (supabase.from('certificates') as any).delete().eq('id', certificateId);
-            errors.push({ index: i, error: `Failed to create file record: ${fileError?.message || 'Unknown'}` });
-            continue;
-          }
-
-          const fileId = (fileRecord as { id: string }).id;
-
-          // Step 7: Generate certificate preview (PNG image)
-          let previewFileId: string | null = null;
-          try {
-            let previewBuffer: Buffer;
-
-            if (isPdfTemplate) {
-              // For PDF certificates, we use the PDF itself as the preview
-              // Note: For proper PNG preview generation, consider using pdf2pic or similar library
-              // which requires system dependencies (poppler-utils)
-              previewBuffer = certificateBuffer;
-            } else {
-              // For image certificates, create a smaller preview version using sharp
-              // Import sharp dynamically to handle ESM/CJS interop
-              const sharpModule = await import('sharp');
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              const sharpFn = (sharpModule as any).default ?? sharpModule;
-              const metadata = await sharpFn(certificateBuffer).metadata();
-              const previewWidth = Math.min(metadata.width || 800, 800);
-
-              previewBuffer = await sharpFn(certificateBuffer)
-                .resize(previewWidth, undefined, { fit: 'inside' })
-                .png()
-                .toBuffer();
-            }
-
-            // Upload preview to storage
-            // For PDFs, keep as PDF; for images, use PNG
-            const previewExtension = isPdfTemplate ? 'pdf' : 'png';
-            const previewMimeType = isPdfTemplate ? 'application/pdf' : 'image/png';
-            const previewPath = `certificates/${organizationId}/${certificateId}/preview.${previewExtension}`;
-            const { error: previewUploadError } = await supabase.storage
-              .from('authentix')
-              .upload(previewPath, previewBuffer, {
-                contentType: previewMimeType,
-                upsert: false,
-              });
-
-            if (!previewUploadError) {
-              // Create file record for preview
-              const previewChecksum = computeSHA256(previewBuffer);
-              const { data: previewFileRecord, error: previewFileError } = await supabase
-                .from('files')
-                .insert({
-                  organization_id: organizationId,
-                  bucket: 'authentix',
-                  path: previewPath,
-                  kind: 'certificate_preview',
-                  original_name: `certificate_${certificateNumber}_preview.${previewExtension}`,
-                  mime_type: previewMimeType,
-                  size_bytes: previewBuffer.length,
-                  checksum_sha256: previewChecksum,
-                  created_by_user_id: userId,
-                } as any)
-                .select('id')
-                .single();
-
-              if (previewFileRecord && !previewFileError) {
-                previewFileId = (previewFileRecord as { id: string }).id;
-              }
-            }
-          } catch (previewError) {
-            // Preview generation is non-fatal - continue without preview
-            console.warn('[CertificateService] Failed to generate certificate preview (non-fatal):', previewError);
-          }
-
-          // Step 8: Update certificate with file IDs
-          const updateData: Record<string, unknown> = {
-            certificate_file_id: fileId,
-          };
-          if (previewFileId) {
-            updateData.certificate_preview_file_id = previewFileId;
-          }
-
-          const { error: updateError } = await (supabase
-            .from('certificates') as any)
-            .update(updateData)
-            .eq('id', certificateId);
-
-          if (updateError) {
-            console.error('[CertificateService] Failed to update certificate with file ID:', updateError);
-          }
-
-          // Sanitize filename for ZIP
-          const fileName = sanitizeFileName(recipient.recipient_name || `certificate_${i + 1}`);
-
-          // Add to ZIP
-          zip.file(`${fileName}.${outputExtension}`, certificateBuffer);
-
-          // Calculate preview path (matches the pattern used in Step 7)
-          const previewExtension = isPdfTemplate ? 'pdf' : 'png';
-          const certPreviewPath = previewFileId
-            ? `certificates/${organizationId}/${certificateId}/preview.${previewExtension}`
-            : null;
-
-          certificateResults.push({
-            id: certificateId,
-            file_name: `${fileName}.${outputExtension}`,
-            recipient_name: recipient.recipient_name,
-            recipient_email: recipient.recipient_email,
-            recipient_phone: recipient.recipient_phone,
-            certificate_number: certificateNumber,
-            verification_token: verificationToken,
-            issued_at: issuedAt.toISOString(),
-            expires_at: expiresAt,
-            file_path: storagePath,
-            preview_path: certPreviewPath,
-          });
+        // As in processGenerationJob: a failed update means the job was
+        // cancelled, so stop before issuing the next certificate
+        const stillRunning = await this.repository.updateJobIfStatus(jobId, ['running'], {
+          processed_count: certificateResults.length + errors.length,
+          failed_count: errors.length,
+        });
 
-          console.log('[CertificateService] Generated certificate:', certificateId, 'for', recipient.recipient_name);
-        } catch (error) {
-          console.error(`Error generating certificate ${i + 1}:`, error);
-          errors.push({ index: i, error: error instanceof Error ? error.message : 'Unknown error' });
+        if (!stillRunning) {
+          cancelled = true;
+          break;
         }
       }
 
       // Log summary of generation results
       console.log('[CertificateService] Generation loop completed:', {
-        totalRecipients: dto.data.length,
+        totalRecipients: recipientCount,
         successCount: certificateResults.length,
         errorCount: errors.length,
         errors: errors,
@@ -676,8 +526,7 @@ export class CertificateService {
 
       // Step 8: Generate ZIP file and upload to exports folder
       const zipBuffer = await zip.generateAsync({ type: 'nodebuffer' });
-      const zipFileName = `${jobId}.zip`;
-      const exportZipPath = `exports/${organizationId}/${zipFileName}`;
+      const exportZipPath = this.getExportZipPath(organizationId, jobId);
       const { error: zipUploadError } = await supabase.storage
         .from('authentix')
         .upload(exportZipPath, zipBuffer, {
@@ -696,19 +545,27 @@ export class CertificateService {
         .createSignedUrl(exportZipPath, 3600);
 
       // Step 9: Update job status to completed
-      const { error: jobUpdateError } = await (supabase
-        .from('certificate_generation_jobs') as any)
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-          error: errors.length > 0 ? { errors } : null,
-        })
-        .eq('id', jobId);
+      // Guarded like processGenerationJob so a cancel issued mid-batch is kept
+      if (!cancelled) {
+        try {
+          cancelled = !(await this.repository.updateJobIfStatus(jobId, ['running'], {
+            status: 'completed',
+            processed_count: recipients.length,
+            failed_count: errors.length,
+            completed_at: new Date().toISOString(),
+            error: errors.length > 0 ? { errors } : null,
+          }));
+        } catch (jobUpdateError) {
+          console.error('[CertificateService] Failed to update job status:', jobUpdateError);
+        }
+      }
 
-      if (jobUpdateError) {
-        console.error('[CertificateService] Failed to update job status:', jobUpdateError);
+      if (cancelled) {
+        console.log('[CertificateService] Job was cancelled during generation:', jobId);
       }
 
+      await this.recordImportOutcome(job, certificateResults.length, errors.length);
+
       console.log('[CertificateService] Generation completed:', {
         jobId,
         totalCertificates: certificateResults.length,
@@ -760,27 +617,1711 @@ export class CertificateService {
 
       return {
         job_id: jobId,
-        status: 'completed',
+        status: cancelled ? 'cancelled' : 'completed',
         download_url: signedUrlData?.signedUrl ?? '',
         zip_download_url: zipDownloadUrl ?? undefined,
         total_certificates: certificateResults.length,
         certificates: certificatesWithUrls,
       };
     } catch (error) {
-      // Update job status to failed
-      await (supabase
-        .from('certificate_generation_jobs') as any)
-        .update({
-          status: 'failed',
-          completed_at: new Date().toISOString(),
-          error: { message: error instanceof Error ? error.message : 'Unknown error' },
-        })
-        .eq('id', jobId);
+      // Update job status to failed (unless it was cancelled meanwhile)
+      await this.repository.updateJobIfStatus(jobId, ['running'], {
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        error: { message: error instanceof Error ? error.message : 'Unknown error' },
+      }).catch((updateError) => {
+        console.error('[CertificateService] Failed to mark job as failed:', updateError);
+      });
 
       throw error;
     }
   }
 
+  /**
+   * Process a claimed generation job in the background
+   *
+   * Called by the generation worker (src/jobs/generation-worker.ts).
+   * Recipients are rendered one at a time and each outcome is written to
+   * generation_job_recipients immediately, so a job interrupted by a crash
+   * resumes from the first recipient that is still pending.
+   *
+   * Every job update requires the heartbeat written last (job.updated_at from
+   * the claim), and each recipient is claimed before rendering, so a worker
+   * whose job was reclaimed as stale stops instead of issuing twice.
+   *
+   * @param deadline - epoch ms after which no further recipient is started; the
+   *   job is left 'running' and yielded, and the next worker poll resumes it
+   */
+  async processGenerationJob(job: GenerationJobEntity, appUrl: string, deadline?: number): Promise<void> {
+    const jobTemplate = await this.repository.getJobTemplate(job.id);
+    const fieldMappings = job.options?.field_mappings;
+
+    if (!jobTemplate || !fieldMappings) {
+      await this.repository.updateJob(job.id, {
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        error: { message: 'Generation job is missing its template or field mappings' },
+      });
+      return;
+    }
+
+    let heartbeat: string | null = job.updated_at;
+
+    try {
+      let context = await this.loadTemplateContext(
+        job.organization_id,
+        jobTemplate.template_id,
+        jobTemplate.template_version_id
+      );
+
+      // Recipients a previous holder claimed but never finished are rendered again
+      await this.repository.releaseProcessingRecipients(job.id);
+
+      // Recount from recipient rows so resumed jobs report accurate progress
+      const counts = await this.repository.countRecipientsByStatus(job.id);
+      let processedCount = counts.completed + counts.failed;
+      let failedCount = counts.failed;
+      let cancelled = false;
+
+      console.log('[CertificateService] Processing generation job:', {
+        jobId: job.id,
+        total: job.total_count,
+        alreadyProcessed: processedCount,
+      });
+
+      for (;;) {
+        const batch = await this.repository.getPendingRecipients(job.id, JOB_RECIPIENT_PAGE_SIZE);
+        if (batch.length === 0) {
+          break;
+        }
+
+        for (const recipient of batch) {
+          if (Date.now() - context.loadedAt > TEMPLATE_CONTEXT_REFRESH_MS) {
+            context = await this.loadTemplateContext(
+              job.organization_id,
+              jobTemplate.template_id,
+              jobTemplate.template_version_id
+            );
+          }
+
+          if (deadline !== undefined && Date.now() >= deadline) {
+            await this.repository.updateJobIfHeld(job.id, heartbeat, { yielded_at: new Date().toISOString() });
+            console.log('[CertificateService] Generation job yielded at the time limit:', {
+              jobId: job.id,
+              processed: processedCount,
+            });
+            return;
+          }
+
+          if (!(await this.repository.claimRecipient(recipient.id))) {
+            continue;
+          }
+
+          const outcome = await this.processRecipient(
+            job,
+            context,
+            fieldMappings,
+            job.options ?? undefined,
+            recipient,
+            appUrl
+          );
+
+          processedCount++;
+          if ('error' in outcome) {
+            failedCount++;
+          }
+
+          // Progress update doubles as the heartbeat for stale-job detection.
+          // It only applies while we still hold the running job; otherwise the
+          // job was cancelled or reclaimed and we stop before the next recipient.
+          heartbeat = await this.repository.updateJobIfHeld(job.id, heartbeat, {
+            processed_count: processedCount,
+            failed_count: failedCount,
+          });
+
+          if (!heartbeat) {
+            break;
+          }
+        }
+
+        if (!heartbeat) {
+          break;
+        }
+      }
+
+      if (!heartbeat) {
+        const current = await this.repository.findJobById(job.id, job.organization_id);
+        if (current?.status !== 'cancelled') {
+          console.log('[CertificateService] Generation job reclaimed by another worker, stopping:', job.id);
+          return;
+        }
+        cancelled = true;
+      }
+
+      const succeededCount = processedCount - failedCount;
+      await this.recordImportOutcome(job, succeededCount, failedCount);
+
+      if (succeededCount > 0) {
+        // Cancelled jobs still get a ZIP of the certificates issued before cancellation
+        await this.buildJobZip(job.organization_id, job.id, context.outputExtension);
+      }
+
+      if (cancelled) {
+        console.log('[CertificateService] Generation job cancelled:', {
+          jobId: job.id,
+          succeeded: succeededCount,
+          failed: failedCount,
+        });
+        return;
+      }
+
+      const failedRecipients = failedCount > 0
+        ? await this.repository.getRecipientsByStatus(job.id, 'failed')
+        : [];
+
+      const finished = await this.repository.updateJobIfHeld(job.id, heartbeat!, {
+        status: succeededCount > 0 ? 'completed' : 'failed',
+        completed_at: new Date().toISOString(),
+        error: failedRecipients.length > 0
+          ? { errors: failedRecipients.map((r) => ({ index: r.row_index, error: r.error })) }
+          : null,
+      });
+
+      if (!finished) {
+        console.log('[CertificateService] Generation job no longer held, not completing:', job.id);
+        return;
+      }
+
+      console.log('[CertificateService] Generation job completed:', {
+        jobId: job.id,
+        succeeded: succeededCount,
+        failed: failedCount,
+      });
+    } catch (error) {
+      if (heartbeat) {
+        await this.repository.updateJobIfHeld(job.id, heartbeat, {
+          status: 'failed',
+          completed_at: new Date().toISOString(),
+          error: { message: error instanceof Error ? error.message : 'Unknown error' },
+        }).catch((updateError) => {
+          console.error('[CertificateService] Failed to mark job as failed:', updateError);
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Update success_count / failed_count of the import a job was generated from
+   * Jobs generated from an import carry its ID in options.import_job_id.
+   */
+  private async recordImportOutcome(
+    job: Pick<GenerationJobEntity, 'id' | 'options'>,
+    succeededCount: number,
+    failedCount: number
+  ): Promise<void> {
+    if (!job.options?.import_job_id) {
+      return;
+    }
+
+    try {
+      await new ImportRepository(getSupabaseClient()).updateGenerationCounts(job.id, {
+        success_count: succeededCount,
+        failed_count: failedCount,
+      });
+    } catch (error) {
+      // The job outcome is recorded on the job itself; the import counts are informational
+      console.error('[CertificateService] Failed to update import counts:', error);
+    }
+  }
+
+  /**
+   * List issued certificates with filters and search
+   */
+  async listCertificates(
+    organizationId: string,
+    query: ListCertificatesQuery,
+    pagination: {
+      page?: number;
+      limit?: number;
+      sortOrder?: 'asc' | 'desc';
+    } = {}
+  ): Promise<{ certificates: CertificateEntity[]; total: number }> {
+    const { limit, offset } = sanitizePaginationParams(pagination.page, pagination.limit);
+
+    const { data, count } = await this.repository.findCertificates(
+      organizationId,
+      {
+        status: query.status,
+        templateId: query.template_id,
+        categoryId: query.category_id,
+        subcategoryId: query.subcategory_id,
+        jobId: query.job_id,
+        issuedFrom: query.issued_from?.toISOString(),
+        issuedTo: query.issued_to?.toISOString(),
+        expiresFrom: query.expires_from?.toISOString(),
+        expiresTo: query.expires_to?.toISOString(),
+        search: query.search,
+      },
+      {
+        limit,
+        offset,
+        sortBy: query.sort_by,
+        sortOrder: pagination.sortOrder,
+      }
+    );
+
+    return { certificates: data, total: count };
+  }
+
+  /**
+   * Get certificate by ID with signed download and preview URLs
+   */
+  async getCertificate(id: string, organizationId: string): Promise<CertificateDetail> {
+    const certificate = await this.repository.findCertificateById(id, organizationId);
+
+    if (!certificate) {
+      throw new NotFoundError('Certificate not found');
+    }
+
+    const { certificate_path, preview_path, ...rest } = certificate;
+
+    return {
+      ...rest,
+      download_url: certificate_path ? await this.getSignedFileUrl(certificate_path) : null,
+      preview_url: preview_path ? await this.getSignedFileUrl(preview_path) : null,
+    };
+  }
+
+  /**
+   * Revoke a certificate
+   * Revoked certificates verify as 'revoked' with the given reason.
+   */
+  async revokeCertificate(
+    id: string,
+    organizationId: string,
+    userId: string,
+    reason: string
+  ): Promise<CertificateDetail> {
+    const certificate = await this.repository.findCertificateById(id, organizationId);
+
+    if (!certificate) {
+      throw new NotFoundError('Certificate not found');
+    }
+
+    const revokedIds = await this.repository.revokeCertificates(organizationId, { ids: [id] }, userId, reason);
+
+    if (revokedIds.length === 0) {
+      throw new ConflictError(`Certificate cannot be revoked (status: ${certificate.status})`, {
+        code: 'CERTIFICATE_NOT_REVOCABLE',
+        status: certificate.status,
+      });
+    }
+
+    await this.recordAuditLog({
+      organizationId,
+      actorUserId: userId,
+      action: 'certificate.revoked',
+      entityType: 'certificate',
+      entityId: id,
+      severity: 'warning',
+      metadata: {
+        certificate_number: certificate.certificate_number,
+        previous_status: certificate.status,
+        reason,
+      },
+    });
+
+    invalidateDashboardCache(organizationId);
+
+    return this.getCertificate(id, organizationId);
+  }
+
+  /**
+   * Reinstate a revoked certificate
+   * Status returns to 'issued', or 'expired' if the certificate has passed its expiry date.
+   */
+  async reinstateCertificate(id: string, organizationId: string, userId: string): Promise<CertificateDetail> {
+    const certificate = await this.repository.findCertificateById(id, organizationId);
+
+    if (!certificate) {
+      throw new NotFoundError('Certificate not found');
+    }
+
+    const status = certificate.expires_at && new Date(certificate.expires_at) <= new Date()
+      ? 'expired'
+      : 'issued';
+
+    const reinstated = await this.repository.reinstateCertificate(id, organizationId, status);
+
+    if (!reinstated) {
+      throw new ConflictError(`Certificate is not revoked (status: ${certificate.status})`, {
+        code: 'CERTIFICATE_NOT_REVOKED',
+        status: certificate.status,
+      });
+    }
+
+    await this.recordAuditLog({
+      organizationId,
+      actorUserId: userId,
+      action: 'certificate.reinstated',
+      entityType: 'certificate',
+      entityId: id,
+      severity: 'warning',
+      metadata: {
+        certificate_number: certificate.certificate_number,
+        new_status: status,
+        previous_revoked_at: certificate.revoked_at,
+        previous_revoked_reason: certificate.revoked_reason,
+      },
+    });
+
+    invalidateDashboardCache(organizationId);
+
+    return this.getCertificate(id, organizationId);
+  }
+
+  /**
+   * Revoke certificates by ID list or by generation job
+   * Certificates that are already revoked (or reissued) are skipped.
+   */
+  async bulkRevokeCertificates(
+    organizationId: string,
+    userId: string,
+    dto: BulkRevokeCertificatesDTO
+  ): Promise<BulkRevokeResult> {
+    if (dto.job_id) {
+      const job = await this.repository.findJobById(dto.job_id, organizationId);
+      if (!job) {
+        throw new NotFoundError('Generation job not found');
+      }
+    }
+
+    const requestedIds = dto.certificate_ids ? [...new Set(dto.certificate_ids)] : undefined;
+
+    const revokedIds = await this.repository.revokeCertificates(
+      organizationId,
+      { ids: requestedIds, jobId: dto.job_id },
+      userId,
+      dto.reason
+    );
+
+    const revokedSet = new Set(revokedIds);
+    const skippedIds = (requestedIds ?? []).filter((id) => !revokedSet.has(id));
+
+    if (revokedIds.length > 0) {
+      if (dto.job_id) {
+        // A job can cover thousands of certificates - record a single job-level entry
+        await this.recordAuditLog({
+          organizationId,
+          actorUserId: userId,
+          action: 'certificate.bulk_revoked',
+          entityType: 'certificate_generation_job',
+          entityId: dto.job_id,
+          severity: 'warning',
+          metadata: {
+            reason: dto.reason,
+            revoked_count: revokedIds.length,
+            certificate_ids: revokedIds,
+          },
+        });
+      } else {
+        for (const certificateId of revokedIds) {
+          await this.recordAuditLog({
+            organizationId,
+            actorUserId: userId,
+            action: 'certificate.revoked',
+            entityType: 'certificate',
+            entityId: certificateId,
+            severity: 'warning',
+            metadata: {
+              reason: dto.reason,
+              bulk: true,
+            },
+          });
+        }
+      }
+
+      invalidateDashboardCache(organizationId);
+    }
+
+    console.log('[CertificateService] Bulk revoked certificates:', {
+      organizationId,
+      jobId: dto.job_id,
+      revoked: revokedIds.length,
+      skipped: skippedIds.length,
+    });
+
+    return {
+      revoked_count: revokedIds.length,
+      revoked_ids: revokedIds,
+      skipped_ids: skippedIds,
+    };
+  }
+
+  /**
+   * Reissue a certificate with corrected field values
+   *
+   * Renders a new certificate from the same template version and generation
+   * options, links it to the original via reissued_from_certificate_id and
+   * marks the original 'reissued'. The original's verification token then
+   * resolves to the replacement.
+   */
+  async reissueCertificate(
+    id: string,
+    organizationId: string,
+    userId: string,
+    dto: ReissueCertificateDTO,
+    appUrl: string
+  ): Promise<CertificateDetail> {
+    // Step 1: Load the original certificate
+    const original = await this.repository.findCertificateById(id, organizationId);
+
+    if (!original) {
+      throw new NotFoundError('Certificate not found');
+    }
+
+    if (original.status !== 'issued' && original.status !== 'expired') {
+      throw new ConflictError(`Certificate cannot be reissued (status: ${original.status})`, {
+        code: 'CERTIFICATE_NOT_REISSUABLE',
+        status: original.status,
+      });
+    }
+
+    // Step 2: Recover the field mappings and options it was generated with
+    const job = original.generation_job_id
+      ? await this.repository.findJobById(original.generation_job_id, organizationId)
+      : null;
+    const fieldMappings = job?.options?.field_mappings;
+
+    if (!fieldMappings) {
+      throw new ConflictError('Certificate cannot be reissued because its generation settings were not stored', {
+        code: 'CERTIFICATE_NOT_REISSUABLE',
+        status: original.status,
+      });
+    }
+
+    const originalData = await this.repository.getCertificateRecipientData(id, organizationId);
+    const recipientData = { ...(originalData ?? {}), ...dto.field_values };
+
+    // Step 3: Render and store the replacement with the same template version,
+    // keeping the original issue and expiry dates
+    const context = await this.loadTemplateContext(
+      organizationId,
+      original.template_id,
+      original.template_version_id ?? undefined
+    );
+
+    const issued = await this.issueCertificate({
+      organizationId,
+      userId,
+      jobId: original.generation_job_id,
+      context,
+      fieldMappings,
+      options: {
+        includeQR: job?.options?.includeQR ?? true,
+        import_job_id: job?.options?.import_job_id,
+        pdf_conformance: job?.options?.pdf_conformance,
+        embed_credential: job?.options?.embed_credential,
+        signed_qr: job?.options?.signed_qr,
+        issue_date: original.issued_at,
+        expiry_type: original.expires_at ? 'custom' : 'never',
+        custom_expiry_date: original.expires_at ?? undefined,
+      },
+      recipient: {
+        ...this.extractRecipientInfo(recipientData),
+        recipient_data: recipientData,
+      },
+      appUrl,
+      reissuedFromCertificateId: id,
+    });
+
+    // Step 4: Supersede the original
+    const superseded = await this.repository.markCertificateReissued(id, organizationId);
+
+    if (!superseded) {
+      // The original was revoked or reissued concurrently
+      await this.discardCertificate(organizationId, issued.certificate.id).catch((cleanupError) => {
+        console.error('[CertificateService] Failed to discard replacement certificate:', cleanupError);
+      });
+
+      throw new ConflictError('Certificate was modified by another request', {
+        code: 'CERTIFICATE_NOT_REISSUABLE',
+      });
+    }
+
+    // Step 5: Audit log
+    await this.recordAuditLog({
+      organizationId,
+      actorUserId: userId,
+      action: 'certificate.reissued',
+      entityType: 'certificate',
+      entityId: id,
+      severity: 'info',
+      metadata: {
+        certificate_number: original.certificate_number,
+        new_certificate_id: issued.certificate.id,
+        new_certificate_number: issued.certificate.certificate_number,
+        corrected_fields: Object.keys(dto.field_values),
+        reason: dto.reason ?? null,
+      },
+    });
+
+    invalidateDashboardCache(organizationId);
+
+    console.log('[CertificateService] Reissued certificate:', id, '->', issued.certificate.id);
+
+    return this.getCertificate(issued.certificate.id, organizationId);
+  }
+
+  /**
+   * Expire certificates past their expiry date and queue expiry reminders
+   *
+   * Called by the expiry sweeper (src/jobs/expiry-sweeper.ts). Certificates
+   * are expired in batches; each affected organization gets one audit entry
+   * and a dashboard cache invalidation.
+   */
+  async sweepExpiredCertificates(options: {
+    batchSize: number;
+    reminderDays: number[];
+  }): Promise<ExpirySweepResult> {
+    const now = new Date().toISOString();
+    const expiredByOrg = new Map<string, string[]>();
+    let expiredCount = 0;
+
+    // Step 1: Expire certificates batch by batch
+    for (;;) {
+      const batch = await this.repository.expireCertificates(now, options.batchSize);
+
+      for (const certificate of batch) {
+        const ids = expiredByOrg.get(certificate.organization_id) ?? [];
+        ids.push(certificate.id);
+        expiredByOrg.set(certificate.organization_id, ids);
+      }
+
+      expiredCount += batch.length;
+
+      if (batch.length < options.batchSize) {
+        break;
+      }
+    }
+
+    // Step 2: Audit log and cache invalidation per organization
+    for (const [organizationId, certificateIds] of expiredByOrg) {
+      await this.recordAuditLog({
+        organizationId,
+        actorUserId: null,
+        action: 'certificate.expired',
+        entityType: 'certificate',
+        entityId: null,
+        severity: 'info',
+        metadata: {
+          expired_count: certificateIds.length,
+          certificate_ids: certificateIds,
+          swept_at: now,
+        },
+      });
+
+      invalidateDashboardCache(organizationId);
+    }
+
+    // Step 3: Queue reminders, largest offset first
+    let remindersQueued = 0;
+    const reminderDays = [...new Set(options.reminderDays)].sort((a, b) => b - a);
+
+    for (const daysBefore of reminderDays) {
+      for (;;) {
+        const queued = await this.repository.queueExpiryReminders(daysBefore, options.batchSize);
+        remindersQueued += queued.length;
+
+        if (queued.length < options.batchSize) {
+          break;
+        }
+      }
+    }
+
+    return {
+      expired_count: expiredCount,
+      reminders_queued: remindersQueued,
+      organization_ids: [...expiredByOrg.keys()],
+    };
+  }
+
+  /**
+   * List generation jobs with progress
+   */
+  async listJobs(
+    organizationId: string,
+    options: {
+      status?: GenerationJobStatus;
+      page?: number;
+      limit?: number;
+    } = {}
+  ): Promise<{ jobs: GenerationJobSummary[]; total: number }> {
+    const { limit, offset } = sanitizePaginationParams(options.page, options.limit);
+
+    const { data, count } = await this.repository.findJobs(organizationId, {
+      status: options.status,
+      limit,
+      offset,
+    });
+
+    return {
+      jobs: data.map((job) => this.toJobSummary(job)),
+      total: count,
+    };
+  }
+
+  /**
+   * Get generation job status, progress and per-recipient errors
+   */
+  async getJob(jobId: string, organizationId: string): Promise<GenerationJobDetail> {
+    const job = await this.repository.findJobById(jobId, organizationId);
+
+    if (!job) {
+      throw new NotFoundError('Generation job not found');
+    }
+
+    const failedRecipients = await this.repository.getRecipientsByStatus(jobId, 'failed');
+    const jobError = job.error?.message;
+
+    return {
+      ...this.toJobSummary(job),
+      error: typeof jobError === 'string' ? jobError : null,
+      errors: failedRecipients.map((recipient) => ({
+        recipient_id: recipient.id,
+        row_index: recipient.row_index,
+        recipient_name: recipient.recipient_name,
+        recipient_email: recipient.recipient_email,
+        error: recipient.error,
+        processed_at: recipient.processed_at,
+      })),
+    };
+  }
+
+  /**
+   * Get a signed download URL for a completed job's certificate ZIP
+   */
+  async getJobDownload(jobId: string, organizationId: string): Promise<GenerationJobDownload> {
+    const job = await this.repository.findJobById(jobId, organizationId);
+
+    if (!job) {
+      throw new NotFoundError('Generation job not found');
+    }
+
+    // Cancelled jobs keep a ZIP of the certificates issued before cancellation
+    if (job.status !== 'completed' && job.status !== 'cancelled') {
+      throw new ConflictError('Generation job has not completed', {
+        code: 'JOB_NOT_COMPLETED',
+        status: job.status,
+      });
+    }
+
+    const { data, error } = await getSupabaseClient()
+      .storage
+      .from('authentix')
+      .createSignedUrl(this.getExportZipPath(organizationId, jobId), JOB_DOWNLOAD_URL_EXPIRY);
+
+    if (error || !data) {
+      // ZIP upload is best-effort, so a completed job may have no archive
+      throw new NotFoundError('Certificate archive not found for this job');
+    }
+
+    return {
+      job_id: jobId,
+      download_url: data.signedUrl,
+      expires_at: new Date(Date.now() + JOB_DOWNLOAD_URL_EXPIRY * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Cancel a queued or running generation job
+   *
+   * Queued jobs are never picked up; running jobs stop before their next
+   * recipient. Certificates already issued are kept.
+   */
+  async cancelJob(jobId: string, organizationId: string): Promise<GenerationJobDetail> {
+    const job = await this.repository.findJobById(jobId, organizationId);
+
+    if (!job) {
+      throw new NotFoundError('Generation job not found');
+    }
+
+    const cancelled = await this.repository.updateJobIfStatus(jobId, ['queued', 'running'], {
+      status: 'cancelled',
+      completed_at: new Date().toISOString(),
+    });
+
+    if (!cancelled) {
+      throw new ConflictError(`Generation job cannot be cancelled (status: ${job.status})`, {
+        code: 'JOB_NOT_CANCELLABLE',
+        status: job.status,
+      });
+    }
+
+    console.log('[CertificateService] Cancelled generation job:', jobId);
+
+    return this.getJob(jobId, organizationId);
+  }
+
+  /**
+   * Retry a finished generation job
+   *
+   * Only failed recipients (and, for cancelled jobs, recipients never reached)
+   * are rendered again; certificates already issued are kept. The job is
+   * re-queued for the background generation worker.
+   */
+  async retryJob(jobId: string, organizationId: string): Promise<GenerationJobDetail> {
+    const job = await this.repository.findJobById(jobId, organizationId);
+
+    if (!job) {
+      throw new NotFoundError('Generation job not found');
+    }
+
+    const retryableStatuses: GenerationJobStatus[] = ['completed', 'failed', 'cancelled'];
+    if (!retryableStatuses.includes(job.status)) {
+      throw new ConflictError(`Generation job cannot be retried (status: ${job.status})`, {
+        code: 'JOB_NOT_RETRYABLE',
+        status: job.status,
+      });
+    }
+
+    if (!job.options?.field_mappings) {
+      throw new ConflictError('Generation job cannot be retried because its field mappings were not stored', {
+        code: 'JOB_NOT_RETRYABLE',
+        status: job.status,
+      });
+    }
+
+    // Step 1: Reset failed recipients
+    // Done before re-queueing so the worker never claims a job with nothing pending
+    const resetCount = await this.repository.resetFailedRecipients(jobId);
+    const counts = await this.repository.countRecipientsByStatus(jobId);
+
+    if (counts.pending === 0) {
+      throw new ConflictError('Generation job has no failed recipients to retry', {
+        code: 'NOTHING_TO_RETRY',
+        status: job.status,
+      });
+    }
+
+    // Step 2: Re-queue the job
+    const requeued = await this.repository.updateJobIfStatus(jobId, retryableStatuses, {
+      status: 'queued',
+      processed_count: counts.completed + counts.failed,
+      failed_count: counts.failed,
+      started_at: null,
+      completed_at: null,
+      error: null,
+    });
+
+    if (!requeued) {
+      throw new ConflictError('Generation job was modified by another request', {
+        code: 'JOB_NOT_RETRYABLE',
+      });
+    }
+
+    console.log('[CertificateService] Re-queued generation job:', jobId, {
+      resetRecipients: resetCount,
+      pending: counts.pending,
+    });
+
+    return this.getJob(jobId, organizationId);
+  }
+
+  /**
+   * Load template, version, fields and a signed source URL
+   * Uses the template's latest version unless a specific version is given
+   */
+  private async loadTemplateContext(
+    organizationId: string,
+    templateId: string,
+    versionId?: string
+  ): Promise<GenerationTemplateContext> {
+    const supabase = getSupabaseClient();
+
+    const { data: templateData, error: templateError } = await supabase
+      .from('certificate_templates')
+      .select(`
+        id,
+        title,
+        category_id,
+        subcategory_id,
+        latest_version_id,
+        locale,
+        timezone,
+        category:certificate_categories!certificate_templates_category_id_fkey ( name ),
+        subcategory:certificate_subcategories!certificate_templates_subcategory_id_fkey ( name )
+      `)
+      .eq('id', templateId)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .single();
+
+    if (templateError || !templateData) {
+      throw new NotFoundError('Template not found');
+    }
+
+    const template = templateData as unknown as {
+      id: string;
+      title: string;
+      category_id: string;
+      subcategory_id: string;
+      latest_version_id: string | null;
+      locale: string | null;
+      timezone: string | null;
+      category: { name: string } | null;
+      subcategory: { name: string } | null;
+    };
+
+    const { data: organizationData, error: organizationError } = await supabase
+      .from('organizations')
+      .select('name')
+      .eq('id', organizationId)
+      .single();
+
+    if (organizationError || !organizationData) {
+      throw new Error(`Failed to fetch organization: ${organizationError?.message || 'Unknown error'}`);
+    }
+
+    const resolvedVersionId = versionId ?? template.latest_version_id;
+    if (!resolvedVersionId) {
+      throw new ValidationError('Template version or source file not found');
+    }
+
+    const { data: versionData, error: versionError } = await supabase
+      .from('certificate_template_versions')
+      .select(`
+        id,
+        source_file_id,
+        source_file:source_file_id (
+          id,
+          bucket,
+          path,
+          mime_type
+        )
+      `)
+      .eq('id', resolvedVersionId)
+      .eq('template_id', template.id)
+      .maybeSingle();
+
+    const version = versionData as any;
+    if (versionError || !version || !version.source_file) {
+      console.error('[CertificateService] Missing version or source file:', {
+        template_id: template.id,
+        version_id: resolvedVersionId,
+        error: versionError?.message,
+      });
+      throw new ValidationError('Template version or source file not found');
+    }
+
+    // Get template fields
+    const { data: fieldsData, error: fieldsError } = await supabase
+      .from('certificate_template_fields')
+      .select('id, field_key, label, type, page_number, x, y, width, height, style, required')
+      .eq('template_version_id', version.id)
+      .order('created_at', { ascending: true });
+
+    if (fieldsError) {
+      throw new Error(`Failed to fetch template fields: ${fieldsError.message}`);
+    }
+
+    // Map database fields to GeneratorField format
+    // Extract style properties from the style JSON
+    const fields: GeneratorField[] = (fieldsData ?? []).map((f: any) => {
+      const style = f.style || {};
+      return {
+        id: f.id,
+        field_key: f.field_key,
+        label: f.label,
+        type: f.type,
+        page_number: f.page_number,
+        x: f.x || 0,
+        y: f.y || 0,
+        width: f.width || 200,
+        height: f.height || 30,
+        fontSize: style.fontSize || 16,
+        fontFamily: style.fontFamily || 'Helvetica',
+        color: style.color || '#000000',
+        textAlign: style.textAlign || 'left',
+        fontWeight: style.fontWeight,
+        fontStyle: style.fontStyle,
+        prefix: style.prefix,
+        suffix: style.suffix,
+        dateFormat: style.dateFormat,
+        dateInputFormat: typeof style.dateInputFormat === 'string' ? style.dateInputFormat : undefined,
+        overflow: TEXT_OVERFLOW_MODES.includes(style.overflow) ? style.overflow : undefined,
+        minFontSize: typeof style.minFontSize === 'number' ? style.minFontSize : undefined,
+        lineHeight: typeof style.lineHeight === 'number' ? style.lineHeight : undefined,
+        imageSource: IMAGE_SOURCES.includes(style.imageSource) ? style.imageSource : undefined,
+        assetFileId: typeof style.assetFileId === 'string' ? style.assetFileId : undefined,
+        imageFit: IMAGE_FIT_MODES.includes(style.imageFit) ? style.imageFit : undefined,
+        symbology: BARCODE_SYMBOLOGIES.includes(style.symbology) ? style.symbology : undefined,
+        barcodePayload: BARCODE_PAYLOADS.includes(style.barcodePayload) ? style.barcodePayload : undefined,
+        quietZone: typeof style.quietZone === 'number' ? style.quietZone : undefined,
+        errorCorrection: style.errorCorrection !== undefined ? String(style.errorCorrection) : undefined,
+        expression: typeof style.expression === 'string' && style.expression.trim() ? style.expression : undefined,
+        condition: typeof style.condition === 'string' && style.condition.trim() ? style.condition : undefined,
+        style,
+        required: f.required,
+      };
+    });
+
+    // Load organization fonts named by the fields (other families use standard fonts)
+    const fontService = new FontService(new FontRepository(supabase));
+    const fonts = await fontService.loadFontFaces(
+      organizationId,
+      [...new Set(fields.map((field) => field.fontFamily))]
+    );
+
+    // Load the organization assets drawn by image fields
+    const assetImages = await loadAssetImages(supabase, organizationId, fields);
+
+    const numberScheme = await new NumberingService(new NumberingRepository(supabase))
+      .getSchemeForCategory(organizationId, template.category_id);
+
+    // Get signed URL for source file
+    const sourceFile = version.source_file;
+    const { data: urlData, error: urlError } = await supabase.storage
+      .from(sourceFile.bucket)
+      .createSignedUrl(sourceFile.path, 3600);
+
+    if (urlError || !urlData) {
+      throw new Error(`Failed to get template file URL: ${urlError?.message || 'Unknown error'}`);
+    }
+
+    const templateMimeType = sourceFile.mime_type as string;
+
+    // Determine output format based on template type
+    // PDF templates → export as PDF
+    // Image templates → export as same image format
+    const isPdfTemplate = templateMimeType === 'application/pdf';
+    const outputFormat = isPdfTemplate ? 'pdf' : this.getImageFormat(templateMimeType);
+
+    // PDFs are signed with the organization's (or the platform) certificate
+    const signer = isPdfTemplate
+      ? await new SigningService(new SigningRepository(supabase)).getSigner(organizationId)
+      : null;
+
+    const context: GenerationTemplateContext = {
+      organizationName: (organizationData as { name: string }).name,
+      templateId: template.id,
+      versionId: version.id,
+      categoryId: template.category_id,
+      subcategoryId: template.subcategory_id,
+      categoryName: template.category?.name ?? '',
+      subcategoryName: template.subcategory?.name ?? template.title,
+      fields,
+      fonts,
+      assetImages,
+      locale: template.locale,
+      timeZone: template.timezone,
+      numberScheme,
+      signer,
+      templateUrl: urlData.signedUrl,
+      templateMimeType,
+      isPdfTemplate,
+      outputMimeType: isPdfTemplate ? 'application/pdf' : templateMimeType,
+      outputExtension: this.getFileExtension(outputFormat),
+      loadedAt: Date.now(),
+    };
+
+    console.log('[CertificateService] Generation config:', {
+      template_id: context.templateId,
+      version_id: context.versionId,
+      templateMimeType,
+      isPdfTemplate,
+      outputExtension: context.outputExtension,
+      fields_count: fields.length,
+      fonts: fonts.map((font) => `${font.family} ${font.weight} ${font.style}`),
+      signed_by: signer?.identity.subject ?? null,
+    });
+
+    return context;
+  }
+
+  /**
+   * Render one recipient and record the outcome on its generation_job_recipients row
+   * Never throws: failures are captured per recipient so the batch can continue.
+   */
+  private async processRecipient(
+    job: GenerationJobEntity,
+    context: GenerationTemplateContext,
+    fieldMappings: FieldMapping[],
+    options: Partial<GenerationOptions> | undefined,
+    recipient: GenerationJobRecipientEntity,
+    appUrl: string
+  ): Promise<RecipientOutcome> {
+    try {
+      // A certificate linked to a still-pending recipient was left behind by an
+      // interrupted run; remove it so the recipient is issued exactly once
+      if (recipient.certificate_id) {
+        await this.discardCertificate(job.organization_id, recipient.certificate_id);
+      }
+
+      const issued = await this.issueCertificate({
+        organizationId: job.organization_id,
+        userId: job.requested_by_user_id,
+        jobId: job.id,
+        context,
+        fieldMappings,
+        options,
+        recipient,
+        appUrl,
+        onCertificateCreated: (certificateId) =>
+          this.repository.updateRecipient(recipient.id, { certificate_id: certificateId }),
+      });
+
+      await this.repository.updateRecipient(recipient.id, {
+        status: 'completed',
+        certificate_id: issued.certificate.id,
+        error: null,
+        processed_at: new Date().toISOString(),
+      });
+
+      console.log('[CertificateService] Generated certificate:', issued.certificate.id, 'for', recipient.recipient_name);
+
+      return issued;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[CertificateService] Error generating certificate ${recipient.row_index + 1}:`, error);
+
+      try {
+        await this.repository.updateRecipient(recipient.id, {
+          status: 'failed',
+          certificate_id: null,
+          error: message,
+          processed_at: new Date().toISOString(),
+        });
+      } catch (updateError) {
+        console.error('[CertificateService] Failed to record recipient failure:', updateError);
+      }
+
+      return { error: message };
+    }
+  }
+
+  /**
+   * Render, store and record a single certificate
+   *
+   * Creates the certificates row, uploads the certificate file and preview,
+   * and creates the matching files rows. Throws on failure after cleaning up
+   * anything it created.
+   */
+  private async issueCertificate(params: IssueCertificateParams): Promise<{ certificate: IssuedCertificate; buffer: Buffer }> {
+    const { organizationId, context, fieldMappings, options, recipient } = params;
+    const supabase = getSupabaseClient();
+
+    // Load the images drawn by image fields before a certificate number is taken
+    const images = await resolveFieldImages({
+      supabase,
+      organizationId,
+      fields: context.fields,
+      fieldMappings,
+      rowData: recipient.recipient_data,
+      assetImages: context.assetImages,
+      importJobId: options?.import_job_id,
+    });
+
+    // Determine issue date (use custom if provided, otherwise NOW); it also dates the number
+    const issuedAt = options?.issue_date
+      ? new Date(options.issue_date)
+      : new Date();
+
+    // Get next certificate number (the category's scheme, or the built-in numbering)
+    const numbering = new NumberingService(new NumberingRepository(supabase));
+    const certificateNumber = await numbering.allocate(organizationId, context.numberScheme, issuedAt, context.timeZone);
+
+    try {
+      return await this.storeCertificate(params, { certificateNumber, issuedAt, images });
+    } catch (error) {
+      // Hand the number back so the sequence stays gap-free
+      await numbering.release(organizationId, certificateNumber);
+      throw error;
+    }
+  }
+
+  /**
+   * Render a certificate in the template's format (PDF, or the template's image format)
+   * The PDF is not signed; storeCertificate signs it.
+   */
+  private async renderCertificate(
+    context: GenerationTemplateContext,
+    params: {
+      fieldMappings: FieldMapping[];
+      options: Partial<GenerationOptions> | undefined;
+      rowData: Record<string, unknown>;
+      recipientName: string;
+      images: Map<string, Uint8Array>;
+      certificateNumber: string;
+      verificationToken: string;
+      /** QR code content when it is not the plain verification URL (signed QR) */
+      qrContent?: string;
+      /** Open Badges credential, embedded in PDF/A-3b output with embed_credential */
+      credentialJwt?: string | null;
+      issuedAt: Date;
+      expiresAt: string | null;
+      appUrl: string;
+    }
+  ): Promise<Uint8Array> {
+    const { fieldMappings, options, rowData, images, certificateNumber, verificationToken, qrContent, credentialJwt, issuedAt, expiresAt, appUrl } = params;
+
+    if (context.isPdfTemplate) {
+      return generateCertificatePDF({
+        templateUrl: context.templateUrl,
+        templateType: 'pdf',
+        templateWidth: undefined,
+        templateHeight: undefined,
+        fields: context.fields,
+        fieldMappings,
+        rowData,
+        includeQR: options?.includeQR ?? true,
+        verificationToken,
+        qrContent,
+        certificateNumber,
+        appUrl,
+        locale: context.locale,
+        timeZone: context.timeZone,
+        fonts: context.fonts,
+        images,
+        metadata: {
+          certificateNumber,
+          issuerName: context.organizationName,
+          recipientName: params.recipientName,
+          issuedAt,
+          expiresAt: expiresAt ? new Date(expiresAt) : null,
+          verificationUrl: `${appUrl}/verify/${verificationToken}`,
+        },
+        archival: options?.pdf_conformance
+          ? { conformance: options.pdf_conformance, credentialJwt: options.embed_credential ? credentialJwt : null }
+          : null,
+      });
+    }
+
+    return generateCertificateImage({
+      templateUrl: context.templateUrl,
+      templateMimeType: context.templateMimeType,
+      fields: context.fields,
+      fieldMappings,
+      rowData,
+      includeQR: options?.includeQR ?? true,
+      verificationToken,
+      qrContent,
+      certificateNumber,
+      appUrl,
+      locale: context.locale,
+      timeZone: context.timeZone,
+      fonts: context.fonts,
+      images,
+    });
+  }
+
+  /**
+   * Render and store a certificate under its allocated number
+   */
+  private async storeCertificate(
+    params: IssueCertificateParams,
+    issue: { certificateNumber: string; issuedAt: Date; images: Map<string, Uint8Array> }
+  ): Promise<{ certificate: IssuedCertificate; buffer: Buffer }> {
+    const { organizationId, userId, jobId, context, fieldMappings, options, recipient, appUrl } = params;
+    const { certificateNumber, issuedAt, images } = issue;
+    const supabase = getSupabaseClient();
+    const rowData = recipient.recipient_data;
+
+    // Generate verification token
+    const verificationToken = generateVerificationToken();
+    const verificationTokenHash = computeSHA256(Buffer.from(verificationToken));
+
+    const expiresAt = this.calculateExpiresAt(issuedAt, options, rowData);
+    const verificationUrl = `${appUrl}/verify/${verificationToken}`;
+    const credentials = new CredentialService(new CredentialRepository(supabase));
+
+    // Signed payload as the URL fragment: apps verify it offline, browsers open the URL
+    const qrContent = options?.signed_qr
+      ? `${verificationUrl}#${await credentials.signQrPayload(organizationId, {
+        certificateNumber,
+        recipientName: recipient.recipient_name,
+        issuedAt,
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+      })}`
+      : verificationUrl;
+
+    // Open Badges credential, verifiable through the same verification URL
+    // Issued before rendering so PDF/A-3b output can embed it
+    const credentialJwt = credentials.enabled
+      ? await credentials.issue(organizationId, context.organizationName, {
+        verificationUrl,
+        certificateNumber,
+        recipientName: recipient.recipient_name,
+        recipientEmail: recipient.recipient_email,
+        achievementId: `urn:uuid:${context.subcategoryId}`,
+        achievementName: context.subcategoryName,
+        achievementCategory: context.categoryName,
+        issuedAt,
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+      })
+      : null;
+
+    let certificateBytes = await this.renderCertificate(context, {
+      fieldMappings,
+      options,
+      rowData,
+      recipientName: recipient.recipient_name,
+      images,
+      certificateNumber,
+      verificationToken,
+      qrContent,
+      credentialJwt,
+      issuedAt,
+      expiresAt,
+      appUrl,
+    });
+
+    // Sign last: any later change to the PDF invalidates the signature
+    if (context.signer) {
+      certificateBytes = await signCertificatePDF(certificateBytes, context.signer.identity, {
+        reason: `Certificate ${certificateNumber}`,
+        location: appUrl,
+        timestampClient: context.signer.timestampClient,
+      });
+    }
+
+    const certificateBuffer = Buffer.from(certificateBytes);
+
+    // Create certificate record first to get the ID
+    const { data: certRecord, error: certError } = await supabase
+      .from('certificates')
+      .insert({
+        organization_id: organizationId,
+        generation_job_id: jobId,
+        template_id: context.templateId,
+        template_version_id: context.versionId,
+        category_id: context.categoryId,
+        subcategory_id: context.subcategoryId,
+        recipient_name: recipient.recipient_name,
+        recipient_email: recipient.recipient_email,
+        recipient_phone: recipient.recipient_phone,
+        recipient_data: rowData,
+        certificate_number: certificateNumber,
+        verification_token_hash: verificationTokenHash,
+        verification_path: `/verify/${verificationToken}`,
+        qr_payload_url: qrContent,
+        status: 'issued',
+        issued_at: issuedAt.toISOString(),
+        expires_at: expiresAt,
+        reissued_from_certificate_id: params.reissuedFromCertificateId ?? null,
+        credential_jwt: credentialJwt,
+      } as any)
+      .select('id')
+      .single();
+
+    if (certError || !certRecord) {
+      throw new Error(`Failed to create certificate record: ${certError?.message || 'Unknown'}`);
+    }
+
+    const certificateId = (certRecord as { id: string }).id;
+
+    if (params.onCertificateCreated) {
+      await params.onCertificateCreated(certificateId);
+    }
+
+    // Step 5: Upload certificate file to storage
+    const storagePath = `certificates/${organizationId}/${certificateId}/certificate.${context.outputExtension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('authentix')
+      .upload(storagePath, certificateBuffer, {
+        contentType: context.outputMimeType,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      // Clean up certificate record
+      await (supabase.from('certificates') as any).delete().eq('id', certificateId);
+      throw new Error(`Failed to upload certificate: ${uploadError.message}`);
+    }
+
+    // Step 6: Create file record
+    // Note: file_kind enum only has 'certificate_pdf', use 'other' for images
+    const checksum = computeSHA256(certificateBuffer);
+    const { data: fileRecord, error: fileError } = await supabase
+      .from('files')
+      .insert({
+        organization_id: organizationId,
+        bucket: 'authentix',
+        path: storagePath,
+        kind: 'certificate_pdf', // Use certificate_pdf for all certificate files
+        original_name: `certificate_${certificateNumber}.${context.outputExtension}`,
+        mime_type: context.outputMimeType,
+        size_bytes: certificateBuffer.length,
+        checksum_sha256: checksum,
+        created_by_user_id: userId,
+      } as any)
+      .select('id')
+      .single();
+
+    if (fileError || !fileRecord) {
+      // Clean up storage and certificate record
+      await supabase.storage.from('authentix').remove([storagePath]);
+      await (supabase.from('certificates') as any).delete().eq('id', certificateId);
+      throw new Error(`Failed to create file record: ${fileError?.message || 'Unknown'}`);
+    }
+
+    const fileId = (fileRecord as { id: string }).id;
+
+    // Step 7: Generate certificate preview (PNG image)
+    // For PDFs, keep as PDF; for images, use PNG
+    const previewExtension = context.isPdfTemplate ? 'pdf' : 'png';
+    const previewMimeType = context.isPdfTemplate ? 'application/pdf' : 'image/png';
+    const previewPath = `certificates/${organizationId}/${certificateId}/preview.${previewExtension}`;
+    let previewFileId: string | null = null;
+    try {
+      let previewBuffer: Buffer;
+
+      if (context.isPdfTemplate) {
+        // For PDF certificates, we use the PDF itself as the preview
+        // Note: For proper PNG preview generation, consider using pdf2pic or similar library
+        // which requires system dependencies (poppler-utils)
+        previewBuffer = certificateBuffer;
+      } else {
+        // For image certificates, create a smaller preview version using sharp
+        // Import sharp dynamically to handle ESM/CJS interop
+        const sharpModule = await import('sharp');
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const sharpFn = (sharpModule as any).default ?? sharpModule;
+        const metadata = await sharpFn(certificateBuffer).metadata();
+        const previewWidth = Math.min(metadata.width || 800, 800);
+
+        previewBuffer = await sharpFn(certificateBuffer)
+          .resize(previewWidth, undefined, { fit: 'inside' })
+          .png()
+          .toBuffer();
+      }
+
+      // Upload preview to storage
+      const { error: previewUploadError } = await supabase.storage
+        .from('authentix')
+        .upload(previewPath, previewBuffer, {
+          contentType: previewMimeType,
+          upsert: false,
+        });
+
+      if (!previewUploadError) {
+        // Create file record for preview
+        const previewChecksum = computeSHA256(previewBuffer);
+        const { data: previewFileRecord, error: previewFileError } = await supabase
+          .from('files')
+          .insert({
+            organization_id: organizationId,
+            bucket: 'authentix',
+            path: previewPath,
+            kind: 'certificate_preview',
+            original_name: `certificate_${certificateNumber}_preview.${previewExtension}`,
+            mime_type: previewMimeType,
+            size_bytes: previewBuffer.length,
+            checksum_sha256: previewChecksum,
+            created_by_user_id: userId,
+          } as any)
+          .select('id')
+          .single();
+
+        if (previewFileRecord && !previewFileError) {
+          previewFileId = (previewFileRecord as { id: string }).id;
+        }
+      }
+    } catch (previewError) {
+      // Preview generation is non-fatal - continue without preview
+      console.warn('[CertificateService] Failed to generate certificate preview (non-fatal):', previewError);
+    }
+
+    // Step 8: Update certificate with file IDs
+    const updateData: Record<string, unknown> = {
+      certificate_file_id: fileId,
+    };
+    if (previewFileId) {
+      updateData.certificate_preview_file_id = previewFileId;
+    }
+
+    const { error: updateError } = await (supabase
+      .from('certificates') as any)
+      .update(updateData)
+      .eq('id', certificateId);
+
+    if (updateError) {
+      console.error('[CertificateService] Failed to update certificate with file ID:', updateError);
+    }
+
+    return {
+      certificate: {
+        id: certificateId,
+        recipient_name: recipient.recipient_name,
+        recipient_email: recipient.recipient_email,
+        recipient_phone: recipient.recipient_phone,
+        certificate_number: certificateNumber,
+        verification_token: verificationToken,
+        issued_at: issuedAt.toISOString(),
+        expires_at: expiresAt,
+        file_path: storagePath,
+        preview_path: previewFileId ? previewPath : null,
+      },
+      buffer: certificateBuffer,
+    };
+  }
+
+  /**
+   * Remove a certificate and its stored files
+   * Used to discard partial output of an interrupted recipient before re-rendering it
+   */
+  private async discardCertificate(organizationId: string, certificateId: string): Promise<void> {
+    const supabase = getSupabaseClient();
+    const folder = `certificates/${organizationId}/${certificateId}`;
+
+    const { data: certificate } = await supabase
+      .from('certificates')
+      .select('certificate_number')
+      .eq('id', certificateId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    const { data: objects } = await supabase.storage.from('authentix').list(folder);
+    const paths = (objects ?? []).map((o) => `${folder}/${o.name}`);
+
+    if (paths.length > 0) {
+      await supabase.storage.from('authentix').remove(paths);
+      await (supabase.from('files') as any).delete().eq('bucket', 'authentix').in('path', paths);
+    }
+
+    await (supabase.from('certificates') as any)
+      .delete()
+      .eq('id', certificateId)
+      .eq('organization_id', organizationId);
+
+    if (certificate) {
+      await new NumberingService(new NumberingRepository(supabase))
+        .release(organizationId, (certificate as { certificate_number: string }).certificate_number);
+    }
+  }
+
+  /**
+   * Build the export ZIP for a job from the certificate files already in storage
+   * Rebuilt from storage (not memory) so resumed jobs include every recipient.
+   */
+  private async buildJobZip(organizationId: string, jobId: string, outputExtension: string): Promise<void> {
+    const supabase = getSupabaseClient();
+    const completed = await this.repository.getRecipientsByStatus(jobId, 'completed');
+    const zip = new JSZip();
+
+    for (const recipient of completed) {
+      if (!recipient.certificate_id) {
+        continue;
+      }
+
+      const filePath = `certificates/${organizationId}/${recipient.certificate_id}/certificate.${outputExtension}`;
+      const { data: fileBlob, error: downloadError } = await supabase.storage
+        .from('authentix')
+        .download(filePath);
+
+      if (downloadError || !fileBlob) {
+        console.warn('[CertificateService] Skipping certificate missing from storage:', filePath);
+        continue;
+      }
+
+      const fileName = sanitizeFileName(recipient.recipient_name || `certificate_${recipient.row_index + 1}`);
+      this.addToZip(zip, fileName, outputExtension, Buffer.from(await fileBlob.arrayBuffer()));
+    }
+
+    const zipBuffer = await zip.generateAsync({ type: 'nodebuffer' });
+    const { error: zipUploadError } = await supabase.storage
+      .from('authentix')
+      .upload(this.getExportZipPath(organizationId, jobId), zipBuffer, {
+        contentType: 'application/zip',
+        upsert: true, // Resumed jobs overwrite a ZIP from an earlier attempt
+      });
+
+    if (zipUploadError) {
+      // Certificates are still individually available
+      console.error('[CertificateService] Failed to upload job ZIP:', zipUploadError);
+    }
+  }
+
+  /**
+   * Add a file to a ZIP, suffixing the name if a recipient with the same name was already added
+   */
+  private addToZip(zip: JSZip, baseName: string, extension: string, data: Buffer): void {
+    let fileName = `${baseName}.${extension}`;
+    for (let n = 2; zip.file(fileName); n++) {
+      fileName = `${baseName}_${n}.${extension}`;
+    }
+    zip.file(fileName, data);
+  }
+
+  /**
+   * Map job entity to progress summary
+   */
+  private toJobSummary(job: GenerationJobEntity): GenerationJobSummary {
+    const succeeded = Math.max(job.processed_count - job.failed_count, 0);
+    let percentComplete = job.total_count > 0
+      ? Math.floor((job.processed_count / job.total_count) * 100)
+      : 0;
+
+    // Jobs created before progress tracking have no counters
+    if (job.status === 'completed' && job.total_count === 0) {
+      percentComplete = 100;
+    }
+
+    return {
+      id: job.id,
+      status: job.status,
+      template_id: job.template_id ?? null,
+      template_version_id: job.template_version_id ?? null,
+      total_count: job.total_count,
+      processed_count: job.processed_count,
+      succeeded_count: succeeded,
+      failed_count: job.failed_count,
+      percent_complete: Math.min(percentComplete, 100),
+      created_at: job.created_at,
+      started_at: job.started_at,
+      completed_at: job.completed_at,
+      updated_at: job.updated_at,
+    };
+  }
+
+  /**
+   * Signed URL for a certificate file (cached, 1 hour expiry)
+   * Returns null rather than failing the request if signing fails
+   */
+  private async getSignedFileUrl(path: string): Promise<string | null> {
+    const cached = getCachedSignedUrl(path);
+    if (cached) {
+      return cached;
+    }
+
+    const { data, error } = await getSupabaseClient()
+      .storage
+      .from('authentix')
+      .createSignedUrl(path, 3600);
+
+    if (error || !data?.signedUrl) {
+      console.warn('[CertificateService] Failed to sign certificate file URL:', path, error?.message);
+      return null;
+    }
+
+    setCachedSignedUrl(path, data.signedUrl, 3600);
+
+    return data.signedUrl;
+  }
+
+  /**
+   * Append audit log entry (failures are logged, not thrown)
+   */
+  private async recordAuditLog(entry: Parameters<CertificateRepository['appendAuditLog']>[0]): Promise<void> {
+    try {
+      await this.repository.appendAuditLog(entry);
+    } catch (auditError) {
+      // Audit log failures are non-fatal
+      console.warn('[CertificateService] Failed to create audit log:', auditError);
+    }
+  }
+
+  /**
+   * Storage path of a job's export ZIP
+   */
+  private getExportZipPath(organizationId: string, jobId: string): string {
+    return `exports/${organizationId}/${jobId}.zip`;
+  }
+
+  /**
+   * Extract recipient name, email and phone from row data using common column names
+   */
+  private extractRecipientInfo(rowData: Record<string, unknown>): {
+    recipient_name: string;
+    recipient_email: string | null;
+    recipient_phone: string | null;
+  } {
+    const findValue = (keys: string[]): string | null => {
+      for (const key of keys) {
+        if (rowData[key] && String(rowData[key]).trim()) {
+          return String(rowData[key]).trim();
+        }
+      }
+      return null;
+    };
+
+    // Find recipient name from common column names
+    const nameKeys = ['Recipient Name', 'recipient_name', 'Name', 'name', 'Full Name', 'full_name', 'Student Name', 'Candidate Name'];
+    // Find email from common column names
+    const emailKeys = ['Email', 'email', 'E-mail', 'e-mail', 'Recipient Email', 'recipient_email'];
+    // Find phone from common column names
+    const phoneKeys = ['Phone', 'phone', 'Mobile', 'mobile', 'Contact', 'contact', 'Phone Number', 'phone_number'];
+
+    return {
+      recipient_name: findValue(nameKeys) ?? 'Unknown',
+      recipient_email: findValue(emailKeys),
+      recipient_phone: findValue(phoneKeys),
+    };
+  }
+
+  /**
+   * Calculate expires_at based on the expiry_type option
+   */
+  private calculateExpiresAt(
+    issuedAt: Date,
+    options: Partial<GenerationOptions> | undefined,
+    rowData: Record<string, unknown>
+  ): string | null {
+    let expiresAt: string | null = null;
+    const expiryType = options?.expiry_type ?? 'year';
+
+    if (expiryType === 'custom' && options?.custom_expiry_date) {
+      // Use custom expiry date
+      expiresAt = new Date(options.custom_expiry_date).toISOString();
+    } else if (expiryType === 'never') {
+      // No expiry
+      expiresAt = null;
+    } else {
+      // Calculate expiry based on type
+      const expiryDate = new Date(issuedAt);
+      switch (expiryType) {
+        case 'day':
+          expiryDate.setDate(expiryDate.getDate() + 1);
+          break;
+        case 'week':
+          expiryDate.setDate(expiryDate.getDate() + 7);
+          break;
+        case 'month':
+          expiryDate.setMonth(expiryDate.getMonth() + 1);
+          break;
+        case 'year':
+          expiryDate.setFullYear(expiryDate.getFullYear() + 1);
+          break;
+        case '5_years':
+          expiryDate.setFullYear(expiryDate.getFullYear() + 5);
+          break;
+        default:
+          // Default to 1 year
+          expiryDate.setFullYear(expiryDate.getFullYear() + 1);
+      }
+      expiresAt = expiryDate.toISOString();
+    }
+
+    // Fallback: Check CSV data for expiry date (for backwards compatibility)
+    if (!expiresAt && expiryType !== 'never') {
+      const expiryKeys = ['Expiry Date', 'expiry_date', 'Expires At', 'expires_at', 'Valid Until', 'valid_until', 'Expiration', 'expiration', 'Validity', 'validity_date'];
+      for (const key of expiryKeys) {
+        if (rowData[key] && String(rowData[key]).trim()) {
+          const expiryDate = new Date(String(rowData[key]).trim());
+          if (!isNaN(expiryDate.getTime())) {
+            expiresAt = expiryDate.toISOString();
+            break;
+          }
+        }
+      }
+    }
+
+    return expiresAt;
+  }
+
   /**
    * Get image format from MIME type
    */
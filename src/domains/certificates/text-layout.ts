@@ -0,0 +1,153 @@
+/**
+ * TEXT LAYOUT
+ *
+ * Fits field text into its box for PDF and image output.
+ * Width measurement is passed in so both generators lay text out identically:
+ * - none: draw as-is (may overflow the box)
+ * - shrink: reduce font size down to minFontSize, then truncate
+ * - wrap: break into lines within the box height, shrinking if lines don't fit
+ * - truncate: cut with an ellipsis at the box width
+ */
+
+export type TextOverflowMode = 'none' | 'shrink' | 'wrap' | 'truncate';
+
+export const TEXT_OVERFLOW_MODES: readonly TextOverflowMode[] = ['none', 'shrink', 'wrap', 'truncate'];
+
+export const DEFAULT_MIN_FONT_SIZE = 6;
+export const DEFAULT_LINE_HEIGHT = 1.2;
+
+export const ELLIPSIS = '…';
+const FONT_SIZE_STEP = 0.5;
+
+export interface TextLayoutOptions {
+  maxWidth: number;
+  maxHeight: number;
+  fontSize: number;
+  minFontSize?: number;
+  lineHeight?: number;
+  overflow?: TextOverflowMode;
+  /** Width of text at a font size, in the same units as maxWidth */
+  measure: (text: string, fontSize: number) => number;
+}
+
+export interface TextLayout {
+  lines: string[];
+  fontSize: number;
+  lineHeight: number;
+}
+
+/**
+ * Lay out text within a field box
+ */
+export function layoutText(text: string, options: TextLayoutOptions): TextLayout {
+  const { maxWidth, maxHeight, fontSize, measure } = options;
+  const overflow = options.overflow ?? 'none';
+  const lineHeight = options.lineHeight ?? DEFAULT_LINE_HEIGHT;
+  const minFontSize = Math.min(options.minFontSize ?? DEFAULT_MIN_FONT_SIZE, fontSize);
+
+  if (overflow === 'none' || maxWidth <= 0) {
+    return { lines: [text], fontSize, lineHeight };
+  }
+
+  if (overflow === 'truncate') {
+    return { lines: [truncateToWidth(text, maxWidth, fontSize, measure)], fontSize, lineHeight };
+  }
+
+  if (overflow === 'shrink') {
+    let size = fontSize;
+    while (size > minFontSize && measure(text, size) > maxWidth) {
+      size = Math.max(minFontSize, size - FONT_SIZE_STEP);
+    }
+    // Still too wide at the minimum size - truncate rather than overflow
+    return { lines: [truncateToWidth(text, maxWidth, size, measure)], fontSize: size, lineHeight };
+  }
+
+  // wrap: shrink until the wrapped lines fit the box height
+  let size = fontSize;
+  for (;;) {
+    const lines = wrapToWidth(text, maxWidth, size, measure);
+    const maxLines = Math.max(1, Math.floor(maxHeight / (size * lineHeight)));
+
+    if (lines.length <= maxLines) {
+      return { lines, fontSize: size, lineHeight };
+    }
+
+    if (size <= minFontSize) {
+      // Keep what fits and mark the cut on the last visible line
+      const visible = lines.slice(0, maxLines);
+      const last = visible.length - 1;
+      visible[last] = truncateToWidth(`${visible[last]}${ELLIPSIS}`, maxWidth, size, measure);
+      return { lines: visible, fontSize: size, lineHeight };
+    }
+
+    size = Math.max(minFontSize, size - FONT_SIZE_STEP);
+  }
+}
+
+/**
+ * Greedy word wrap; words wider than the box are broken by character
+ */
+function wrapToWidth(
+  text: string,
+  maxWidth: number,
+  fontSize: number,
+  measure: TextLayoutOptions['measure']
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current = '';
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+
+      if (measure(candidate, fontSize) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+
+      if (current) {
+        lines.push(current);
+      }
+
+      // Break a single overlong word across lines
+      current = '';
+      for (const char of word) {
+        if (current && measure(current + char, fontSize) > maxWidth) {
+          lines.push(current);
+          current = '';
+        }
+        current += char;
+      }
+    }
+
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Cut text to fit the width, ending with an ellipsis when shortened
+ */
+function truncateToWidth(
+  text: string,
+  maxWidth: number,
+  fontSize: number,
+  measure: TextLayoutOptions['measure']
+): string {
+  if (measure(text, fontSize) <= maxWidth) {
+    return text;
+  }
+
+  const chars = Array.from(text.endsWith(ELLIPSIS) ? text.slice(0, -ELLIPSIS.length) : text);
+  while (chars.length > 0) {
+    chars.pop();
+    const candidate = `${chars.join('').trimEnd()}${ELLIPSIS}`;
+    if (measure(candidate, fontSize) <= maxWidth) {
+      return candidate;
+    }
+  }
+
+  return '';
+}
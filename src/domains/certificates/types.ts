@@ -42,6 +42,17 @@ export const generationOptionsSchema = z.object({
   custom_expiry_date: z.string().datetime().optional(), // Required if expiry_type = 'custom'
   // Issue date options
   issue_date: z.string().datetime().optional(), // Defaults to NOW()
+  // Import whose uploaded images image fields can reference by file name
+  import_job_id: z.string().uuid().optional(),
+  // Archival output for PDF templates (see pdf-archival.ts); ignored for image templates
+  pdf_conformance: z.enum(['pdfa-2b', 'pdfa-3b']).optional(),
+  // Attach the certificate's Open Badges credential (VC-JWT) inside the PDF (PDF/A-3b only; requires credentials)
+  embed_credential: z.boolean().default(false),
+  // Add a signed payload to the QR code for offline verification (uses the credential keys)
+  signed_qr: z.boolean().default(false),
+}).refine((options) => !options.embed_credential || options.pdf_conformance === 'pdfa-3b', {
+  message: 'embed_credential requires pdf_conformance pdfa-3b',
+  path: ['embed_credential'],
 });
 
 export type GenerationOptions = z.infer<typeof generationOptionsSchema>;
@@ -58,6 +69,68 @@ export const generateCertificatesSchema = z.object({
 
 export type GenerateCertificatesDTO = z.infer<typeof generateCertificatesSchema>;
 
+/**
+ * Generate certificates from an import's stored rows request DTO
+ */
+export const generateFromImportSchema = generateCertificatesSchema.omit({ data: true });
+
+export type GenerateFromImportDTO = z.infer<typeof generateFromImportSchema>;
+
+/**
+ * Validate generation request DTO (dry run of POST /certificates/generate)
+ */
+export const validateGenerationSchema = generateCertificatesSchema.extend({
+  // Rows rendered as samples, from the first row
+  sample_count: z.number().int().min(0).max(5).default(3),
+});
+
+export type ValidateGenerationDTO = z.infer<typeof validateGenerationSchema>;
+
+/**
+ * Problem found by a generation dry run
+ */
+export type GenerationIssueCode =
+  | 'unknown_field'     // mapping names no template field
+  | 'unmapped_field'    // required field has no column or expression
+  | 'missing_column'    // mapped column is in no row
+  | 'required'          // required field is empty in the row
+  | 'invalid_date'      // date field value is not a date in the expected format
+  | 'invalid_email'     // recipient email is not an email address
+  | 'invalid_barcode'   // barcode value cannot be encoded in the field's symbology
+  | 'expression_error'  // field expression or condition fails for the row
+  | 'render_failed';    // sample certificate could not be rendered
+
+export interface GenerationIssue {
+  code: GenerationIssueCode;
+  message: string;
+  field_id?: string;
+  column?: string;
+}
+
+/**
+ * Sample certificate rendered by a dry run (never issued)
+ */
+export interface GenerationSample {
+  row_index: number;
+  file_name: string;
+  mime_type: string;
+  content_base64: string;
+}
+
+/**
+ * Dry run result: problems per row, and samples of the first rows
+ */
+export interface GenerationValidationResult {
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  /** Problems with the field mappings, affecting every row */
+  mapping_errors: GenerationIssue[];
+  /** Rows with problems only */
+  rows: Array<{ row_index: number; errors: GenerationIssue[] }>;
+  samples: GenerationSample[];
+}
+
 /**
  * Individual generated certificate info
  */
@@ -78,7 +151,7 @@ export interface GeneratedCertificateInfo {
  */
 export interface CertificateGenerationResult {
   job_id?: string;
-  status: 'completed' | 'pending' | 'processing' | 'failed';
+  status: 'completed' | 'cancelled' | 'queued' | 'pending' | 'processing' | 'failed';
   download_url?: string; // ZIP download URL (only if > 10 certificates)
   zip_download_url?: string; // Same as download_url for backwards compat
   total_certificates: number;
@@ -87,24 +160,258 @@ export interface CertificateGenerationResult {
 }
 
 /**
- * Certificate entity
+ * Generation job status (matches job_status enum)
  */
-export interface CertificateEntity {
+export const generationJobStatusSchema = z.enum([
+  'queued',
+  'running',
+  'completed',
+  'failed',
+  'cancelled',
+]);
+
+export type GenerationJobStatus = z.infer<typeof generationJobStatusSchema>;
+
+/**
+ * Per-recipient processing status within a generation job
+ */
+export type GenerationRecipientStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Options persisted on certificate_generation_jobs.options
+ * Field mappings are stored alongside the generation options so that
+ * the background worker can render recipients without the original request.
+ */
+export type StoredGenerationJobOptions = Partial<GenerationOptions> & {
+  field_mappings?: FieldMapping[];
+};
+
+/**
+ * Generation job entity
+ */
+export interface GenerationJobEntity {
   id: string;
-  company_id: string;
-  certificate_template_id: string | null;
+  organization_id: string;
+  status: GenerationJobStatus;
+  options: StoredGenerationJobOptions | null;
+  requested_by_user_id: string | null;
+  total_count: number;
+  processed_count: number;
+  failed_count: number;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  error: Record<string, unknown> | null;
+  // Joined from generation_job_templates (list/detail queries only)
+  template_id?: string | null;
+  template_version_id?: string | null;
+}
+
+/**
+ * Generation job recipient entity
+ */
+export interface GenerationJobRecipientEntity {
+  id: string;
+  job_id: string;
+  row_index: number;
   recipient_name: string;
   recipient_email: string | null;
-  course_name: string | null;
-  issue_date: string;
-  expiry_date: string | null;
-  certificate_number: string;
-  storage_path: string;
-  preview_url: string | null;
-  verification_code: string;
-  verification_token: string | null;
-  status: 'issued' | 'revoked' | 'expired';
-  issued_by: string | null;
+  recipient_phone: string | null;
+  recipient_data: Record<string, unknown>;
+  status: GenerationRecipientStatus;
+  certificate_id: string | null;
+  error: string | null;
+  processed_at: string | null;
+}
+
+/**
+ * Template/version snapshot a generation job renders against
+ */
+export interface GenerationJobTemplateEntity {
+  job_id: string;
+  template_id: string;
+  template_version_id: string;
+  category_id: string;
+  subcategory_id: string;
+}
+
+/**
+ * List generation jobs query
+ */
+export const listGenerationJobsQuerySchema = z.object({
+  status: generationJobStatusSchema.optional(),
+});
+
+/**
+ * Generation job progress (list item)
+ */
+export interface GenerationJobSummary {
+  id: string;
+  status: GenerationJobStatus;
+  template_id: string | null;
+  template_version_id: string | null;
+  total_count: number;
+  processed_count: number;
+  succeeded_count: number;
+  failed_count: number;
+  percent_complete: number;
   created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
   updated_at: string;
 }
+
+/**
+ * Failed recipient within a generation job
+ */
+export interface GenerationJobRecipientError {
+  recipient_id: string;
+  row_index: number;
+  recipient_name: string;
+  recipient_email: string | null;
+  error: string | null;
+  processed_at: string | null;
+}
+
+/**
+ * Generation job detail (status, progress and per-recipient errors)
+ */
+export interface GenerationJobDetail extends GenerationJobSummary {
+  error: string | null;
+  errors: GenerationJobRecipientError[];
+}
+
+/**
+ * Signed download for a job's certificate ZIP
+ */
+export interface GenerationJobDownload {
+  job_id: string;
+  download_url: string;
+  expires_at: string;
+}
+
+/**
+ * Certificate status (certificate_status enum)
+ */
+export const certificateStatusSchema = z.enum(['issued', 'expired', 'revoked', 'reissued']);
+
+export type CertificateStatus = z.infer<typeof certificateStatusSchema>;
+
+/**
+ * List certificates query (filters and search; pagination is parsed separately)
+ */
+export const listCertificatesQuerySchema = z.object({
+  status: certificateStatusSchema.optional(),
+  template_id: z.string().uuid().optional(),
+  category_id: z.string().uuid().optional(),
+  subcategory_id: z.string().uuid().optional(),
+  job_id: z.string().uuid().optional(),
+  issued_from: z.coerce.date().optional(),
+  issued_to: z.coerce.date().optional(),
+  expires_from: z.coerce.date().optional(),
+  expires_to: z.coerce.date().optional(),
+  // Matches recipient name, recipient email or certificate number
+  search: z.string().trim().min(1).max(200).optional(),
+  sort_by: z.enum(['issued_at', 'expires_at', 'recipient_name', 'certificate_number', 'created_at']).optional(),
+});
+
+export type ListCertificatesQuery = z.infer<typeof listCertificatesQuerySchema>;
+
+/**
+ * Certificate entity (row of v_certificates_list)
+ */
+export interface CertificateEntity {
+  id: string;
+  organization_id: string;
+  generation_job_id: string | null;
+  certificate_number: string;
+  status: CertificateStatus;
+  issued_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  revoked_reason: string | null;
+  recipient_name: string;
+  recipient_email: string | null;
+  recipient_phone: string | null;
+  category_id: string;
+  category_name: string;
+  subcategory_id: string;
+  subcategory_name: string;
+  template_id: string;
+  template_title: string;
+  template_version_id: string | null;
+  certificate_file_id: string | null;
+  certificate_path: string | null;
+  certificate_preview_file_id: string | null;
+  preview_path: string | null;
+  verification_path: string | null;
+  qr_payload_url: string | null;
+  created_at: string;
+}
+
+/**
+ * Certificate detail with signed file URLs
+ */
+export interface CertificateDetail extends Omit<CertificateEntity, 'certificate_path' | 'preview_path'> {
+  download_url: string | null;
+  preview_url: string | null;
+}
+
+/**
+ * Revoke certificate request DTO
+ */
+export const revokeCertificateSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export type RevokeCertificateDTO = z.infer<typeof revokeCertificateSchema>;
+
+/**
+ * Bulk revoke request DTO
+ * Targets either an explicit list of certificates or every certificate issued by a generation job
+ */
+export const bulkRevokeCertificatesSchema = z
+  .object({
+    certificate_ids: z.array(z.string().uuid()).min(1).max(500).optional(),
+    job_id: z.string().uuid().optional(),
+    reason: z.string().trim().min(1).max(500),
+  })
+  .refine((dto) => (dto.certificate_ids ? !dto.job_id : !!dto.job_id), {
+    message: 'Provide either certificate_ids or job_id',
+  });
+
+export type BulkRevokeCertificatesDTO = z.infer<typeof bulkRevokeCertificatesSchema>;
+
+/**
+ * Bulk revoke result
+ */
+export interface BulkRevokeResult {
+  revoked_count: number;
+  revoked_ids: string[];
+  // Requested certificates that were not found or not revocable (certificate_ids mode only)
+  skipped_ids: string[];
+}
+
+/**
+ * Reissue certificate request DTO
+ * field_values are keyed by the data column names used when the certificate was
+ * generated and are merged over the original recipient data.
+ */
+export const reissueCertificateSchema = z.object({
+  field_values: z.record(z.unknown()).refine((values) => Object.keys(values).length > 0, {
+    message: 'At least one corrected field value is required',
+  }),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export type ReissueCertificateDTO = z.infer<typeof reissueCertificateSchema>;
+
+/**
+ * Expiry sweep result
+ */
+export interface ExpirySweepResult {
+  expired_count: number;
+  reminders_queued: number;
+  organization_ids: string[];
+}
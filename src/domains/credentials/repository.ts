@@ -0,0 +1,249 @@
+/**
+ * CREDENTIAL REPOSITORY
+ *
+ * Data access layer for organization credential signing keys, and the
+ * certificate status changes they sign for the revocation feed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CertificateStatusChange, CredentialKeyEntity, CredentialKeyWithSecret, PublicJwk } from './types.js';
+
+const KEY_COLUMNS = `
+  id,
+  organization_id,
+  key_id,
+  algorithm,
+  public_jwk,
+  created_by_user_id,
+  created_at,
+  retired_at
+`;
+
+export class CredentialRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * List the organization's keys, active and retired, newest first
+   */
+  async findAll(organizationId: string): Promise<CredentialKeyEntity[]> {
+    const { data, error } = await this.supabase
+      .from('organization_credential_keys')
+      .select(KEY_COLUMNS)
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list credential keys: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find a key by its key ID (DID URL fragment)
+   */
+  async findByKeyId(organizationId: string, keyId: string): Promise<CredentialKeyEntity | null> {
+    const { data, error } = await this.supabase
+      .from('organization_credential_keys')
+      .select(KEY_COLUMNS)
+      .eq('organization_id', organizationId)
+      .eq('key_id', keyId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find credential key: ${error.message}`);
+    }
+
+    return data ? this.mapToEntity(data) : null;
+  }
+
+  /**
+   * Find the organization's active key, private key included
+   */
+  async findActiveWithSecret(organizationId: string): Promise<CredentialKeyWithSecret | null> {
+    const { data, error } = await this.supabase
+      .from('organization_credential_keys')
+      .select(`${KEY_COLUMNS}, private_key_encrypted`)
+      .eq('organization_id', organizationId)
+      .is('retired_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find credential key: ${error.message}`);
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const row = data as Record<string, unknown>;
+    return {
+      ...this.mapToEntity(row),
+      private_key_encrypted: row.private_key_encrypted as string,
+    };
+  }
+
+  /**
+   * Store a new active key
+   * @returns null when the organization already has an active key (concurrent creation)
+   */
+  async create(
+    organizationId: string,
+    userId: string | null,
+    data: { key_id: string; public_jwk: PublicJwk; private_key_encrypted: string }
+  ): Promise<CredentialKeyEntity | null> {
+    const { data: row, error } = await this.supabase
+      .from('organization_credential_keys')
+      .insert({
+        ...data,
+        organization_id: organizationId,
+        algorithm: 'EdDSA',
+        created_by_user_id: userId,
+      } as any)
+      .select(KEY_COLUMNS)
+      .single();
+
+    if (error?.code === '23505') {
+      return null;
+    }
+
+    if (error || !row) {
+      throw new Error(`Failed to store credential key: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.mapToEntity(row);
+  }
+
+  /**
+   * Retire the organization's active key
+   */
+  async retireActive(organizationId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('organization_credential_keys')
+      .update({ retired_at: new Date().toISOString() })
+      .eq('organization_id', organizationId)
+      .is('retired_at', null);
+
+    if (error) {
+      throw new Error(`Failed to retire credential key: ${error.message}`);
+    }
+  }
+
+  /**
+   * Issuer profile details of an organization
+   */
+  async findIssuer(organizationId: string): Promise<{ id: string; name: string; email: string | null; website_url: string | null } | null> {
+    const { data, error } = await this.supabase
+      .from('organizations')
+      .select('id, name, email, website_url')
+      .eq('id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find organization: ${error.message}`);
+    }
+
+    return data as { id: string; name: string; email: string | null; website_url: string | null } | null;
+  }
+
+  /**
+   * Credential issued with a certificate
+   * @returns undefined when the certificate does not exist, null when it has no credential
+   */
+  async findCertificateCredential(certificateId: string, organizationId: string): Promise<string | null | undefined> {
+    const { data, error } = await this.supabase
+      .from('certificates')
+      .select('credential_jwt')
+      .eq('id', certificateId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch certificate credential: ${error.message}`);
+    }
+
+    return data ? ((data as { credential_jwt: string | null }).credential_jwt ?? null) : undefined;
+  }
+
+  /**
+   * Certificates whose status changed (revoked, reinstated, reissued), oldest change first
+   * Keyset pagination over (status_changed_at, id); returns up to limit rows.
+   */
+  async findStatusChanges(
+    organizationId: string,
+    params: {
+      since: string | null;
+      after: { changedAt: string; id: string } | null;
+      until: string;
+      limit: number;
+    }
+  ): Promise<CertificateStatusChange[]> {
+    let query = this.supabase
+      .from('certificates')
+      .select('id, status, status_changed_at')
+      .eq('organization_id', organizationId)
+      .not('status_changed_at', 'is', null)
+      .lte('status_changed_at', params.until);
+
+    if (params.since) {
+      query = query.gte('status_changed_at', params.since);
+    }
+
+    if (params.after) {
+      const { changedAt, id } = params.after;
+      query = query.or(`status_changed_at.gt."${changedAt}",and(status_changed_at.eq."${changedAt}",id.gt.${id})`);
+    }
+
+    const { data, error } = await query
+      .order('status_changed_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(params.limit);
+
+    if (error) {
+      throw new Error(`Failed to list certificate status changes: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as Array<{ id: string; status: CertificateStatusChange['status']; status_changed_at: string }>;
+    const reissuedIds = rows.filter((row) => row.status === 'reissued').map((row) => row.id);
+    const replacements = new Map<string, string>();
+
+    if (reissuedIds.length > 0) {
+      const { data: replacementRows, error: replacementError } = await this.supabase
+        .from('certificates')
+        .select('id, reissued_from_certificate_id')
+        .eq('organization_id', organizationId)
+        .in('reissued_from_certificate_id', reissuedIds);
+
+      if (replacementError) {
+        throw new Error(`Failed to find replacement certificates: ${replacementError.message}`);
+      }
+
+      for (const row of (replacementRows ?? []) as Array<{ id: string; reissued_from_certificate_id: string }>) {
+        replacements.set(row.reissued_from_certificate_id, row.id);
+      }
+    }
+
+    return rows.map((row) => ({
+      certificate_id: row.id,
+      status: row.status,
+      changed_at: row.status_changed_at,
+      superseded_by_certificate_id: replacements.get(row.id) ?? null,
+    }));
+  }
+
+  /**
+   * Map database row to entity
+   */
+  private mapToEntity(row: Record<string, unknown>): CredentialKeyEntity {
+    return {
+      id: row.id as string,
+      organization_id: row.organization_id as string,
+      key_id: row.key_id as string,
+      algorithm: row.algorithm as 'EdDSA',
+      public_jwk: row.public_jwk as PublicJwk,
+      created_by_user_id: (row.created_by_user_id as string | null) ?? null,
+      created_at: row.created_at as string,
+      retired_at: (row.retired_at as string | null) ?? null,
+    };
+  }
+}
@@ -0,0 +1,531 @@
+/**
+ * CREDENTIAL SERVICE
+ *
+ * Business logic for Open Badges 3.0 verifiable credentials.
+ *
+ * Every certificate gets an OpenBadgeCredential signed as a VC-JWT (EdDSA) by
+ * its organization's key. Organizations are did:web issuers under
+ * CREDENTIALS_ISSUER_URL (see lib/credentials/did.ts); their DID document lists
+ * every key, so credentials signed before a rotation still verify.
+ *
+ * The credential ID is the certificate's verification URL, so a credential is
+ * verified like the QR code: check the signature, then the certificate status.
+ *
+ * The same keys sign the optional offline-verifiable QR payloads
+ * (lib/credentials/qr-payload.ts), published as a JWKS for verifier apps,
+ * and the pages of the public revocation feed.
+ */
+
+import crypto from 'node:crypto';
+import type { CredentialRepository } from './repository.js';
+import type {
+  CredentialCheck,
+  CredentialKeyEntity,
+  CredentialKeyWithSecret,
+  CredentialKeySummary,
+  CredentialSubjectData,
+  PublicJwk,
+  QrPayloadCheck,
+  RevocationFeedPage,
+  RevocationFeedQuery,
+} from './types.js';
+import { signJwt, decodeJwt, verifyJwtSignature } from '../../lib/credentials/jwt.js';
+import {
+  signQrPayload,
+  decodeQrPayload,
+  verifyQrPayloadSignature,
+  hashRecipientName,
+  type DecodedQrPayload,
+} from '../../lib/credentials/qr-payload.js';
+import { getIssuerDid, getIssuerUrl, parseIssuerDid } from '../../lib/credentials/did.js';
+import { encryptSecret, decryptSecret } from '../../lib/signing/keystore.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { config } from '../../lib/config/env.js';
+
+/**
+ * Status changes younger than this are left for the next sync, so changes
+ * committed late with an earlier timestamp are not skipped (milliseconds)
+ */
+const REVOCATION_FEED_SETTLE_TIME = 60 * 1000;
+
+const CREDENTIAL_CONTEXTS = [
+  'https://www.w3.org/ns/credentials/v2',
+  'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json',
+];
+
+export class CredentialService {
+  constructor(private readonly repository: CredentialRepository) {}
+
+  /**
+   * Whether credentials are issued (CREDENTIALS_ISSUER_URL and CREDENTIALS_ENCRYPTION_KEY set)
+   */
+  get enabled(): boolean {
+    return Boolean(config.CREDENTIALS_ISSUER_URL && config.CREDENTIALS_ENCRYPTION_KEY);
+  }
+
+  /**
+   * List the organization's keys, active and retired
+   */
+  async listKeys(organizationId: string): Promise<CredentialKeySummary[]> {
+    const baseUrl = this.getBaseUrl();
+    const keys = await this.repository.findAll(organizationId);
+
+    return keys.map((key) => this.toSummary(baseUrl, key));
+  }
+
+  /**
+   * Retire the active key and create a new one
+   * Credentials signed with the retired key stay valid.
+   */
+  async rotateKey(organizationId: string, userId: string): Promise<CredentialKeySummary> {
+    const baseUrl = this.getBaseUrl();
+
+    await this.repository.retireActive(organizationId);
+    const key = await this.createKey(organizationId, userId);
+
+    console.log('[CredentialService] Credential key rotated:', {
+      organization_id: organizationId,
+      key_id: key.key_id,
+    });
+
+    return this.toSummary(baseUrl, key);
+  }
+
+  /**
+   * DID document of an organization (did:web resolution)
+   */
+  async getDidDocument(organizationId: string): Promise<Record<string, unknown>> {
+    const baseUrl = this.getBaseUrl();
+    const issuer = await this.repository.findIssuer(organizationId);
+
+    if (!issuer) {
+      throw new NotFoundError('Issuer not found');
+    }
+
+    const did = getIssuerDid(baseUrl, organizationId);
+    const keys = await this.repository.findAll(organizationId);
+    const methods = keys.map((key) => `${did}#${key.key_id}`);
+
+    return {
+      '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+      id: did,
+      verificationMethod: keys.map((key) => ({
+        id: `${did}#${key.key_id}`,
+        type: 'JsonWebKey2020',
+        controller: did,
+        publicKeyJwk: key.public_jwk,
+      })),
+      assertionMethod: methods,
+      authentication: methods,
+    };
+  }
+
+  /**
+   * Public keys of an organization as a JWKS, active and retired
+   * Verifier apps cache it to check signed QR payloads offline.
+   */
+  async getJwks(organizationId: string): Promise<{ keys: Array<PublicJwk & { kid: string; alg: 'EdDSA'; use: 'sig' }> }> {
+    this.getBaseUrl();
+    const issuer = await this.repository.findIssuer(organizationId);
+
+    if (!issuer) {
+      throw new NotFoundError('Issuer not found');
+    }
+
+    const keys = await this.repository.findAll(organizationId);
+
+    return {
+      keys: keys.map((key) => ({ ...key.public_jwk, kid: key.key_id, alg: 'EdDSA', use: 'sig' })),
+    };
+  }
+
+  /**
+   * Open Badges issuer profile of an organization
+   */
+  async getIssuerProfile(organizationId: string): Promise<Record<string, unknown>> {
+    const baseUrl = this.getBaseUrl();
+    const issuer = await this.repository.findIssuer(organizationId);
+
+    if (!issuer) {
+      throw new NotFoundError('Issuer not found');
+    }
+
+    return {
+      '@context': CREDENTIAL_CONTEXTS,
+      id: getIssuerDid(baseUrl, organizationId),
+      type: ['Profile'],
+      name: issuer.name,
+      ...(issuer.website_url ? { url: issuer.website_url } : {}),
+      ...(issuer.email ? { email: issuer.email } : {}),
+      otherIdentifier: [{
+        type: ['IdentifierEntry'],
+        identifier: getIssuerUrl(baseUrl, organizationId),
+        identifierType: 'identifier',
+      }],
+    };
+  }
+
+  /**
+   * Issue a signed credential (VC-JWT) for a certificate
+   * Creates the organization's key on first use.
+   */
+  async issue(organizationId: string, issuerName: string, subject: CredentialSubjectData): Promise<string> {
+    const baseUrl = this.getBaseUrl();
+    const did = getIssuerDid(baseUrl, organizationId);
+    const { key, privateKey } = await this.getSigningKey(organizationId);
+
+    const credential = {
+      '@context': CREDENTIAL_CONTEXTS,
+      id: subject.verificationUrl,
+      type: ['VerifiableCredential', 'OpenBadgeCredential'],
+      issuer: { id: did, type: ['Profile'], name: issuerName },
+      validFrom: subject.issuedAt.toISOString(),
+      ...(subject.expiresAt ? { validUntil: subject.expiresAt.toISOString() } : {}),
+      name: subject.achievementName,
+      credentialSubject: {
+        type: ['AchievementSubject'],
+        identifier: this.getRecipientIdentifiers(subject),
+        achievement: {
+          id: subject.achievementId,
+          type: ['Achievement'],
+          achievementType: 'Certificate',
+          name: subject.achievementName,
+          description: `${subject.achievementCategory}: ${subject.achievementName}`,
+          criteria: { narrative: `Awarded by ${issuerName}.` },
+        },
+      },
+      evidence: [{
+        type: ['Evidence'],
+        id: subject.verificationUrl,
+        name: `Certificate ${subject.certificateNumber}`,
+      }],
+    };
+
+    // VC-JWT: the credential is the claims set, with the registered claims alongside
+    return signJwt(
+      { alg: 'EdDSA', typ: 'JWT', kid: `${did}#${key.key_id}` },
+      {
+        ...credential,
+        iss: did,
+        jti: subject.verificationUrl,
+        nbf: Math.floor(subject.issuedAt.getTime() / 1000),
+        ...(subject.expiresAt ? { exp: Math.floor(subject.expiresAt.getTime() / 1000) } : {}),
+      },
+      privateKey
+    );
+  }
+
+  /**
+   * Sign the QR payload of a certificate (offline verification)
+   * Creates the organization's key on first use.
+   */
+  async signQrPayload(
+    organizationId: string,
+    certificate: { certificateNumber: string; recipientName: string; issuedAt: Date; expiresAt: Date | null }
+  ): Promise<string> {
+    this.getBaseUrl();
+    const { key, privateKey } = await this.getSigningKey(organizationId);
+
+    return signQrPayload({
+      organizationId,
+      keyId: key.key_id,
+      certificateNumber: certificate.certificateNumber,
+      nameHash: hashRecipientName(certificate.recipientName),
+      issuedOn: certificate.issuedAt.toISOString().slice(0, 10),
+      expiresOn: certificate.expiresAt ? certificate.expiresAt.toISOString().slice(0, 10) : null,
+    }, privateKey);
+  }
+
+  /**
+   * Check a signed QR payload against its issuer's keys
+   * @returns the organization and certificate number it was signed for when the signature is valid
+   */
+  async checkQrPayload(text: string): Promise<QrPayloadCheck> {
+    let payload: DecodedQrPayload;
+    try {
+      payload = decodeQrPayload(text);
+    } catch {
+      return { valid: false, reason: 'Not an Authentix signed QR payload' };
+    }
+
+    const { organizationId, keyId, certificateNumber } = payload.claims;
+    const key = /^[0-9a-f-]{36}$/i.test(organizationId)
+      ? await this.repository.findByKeyId(organizationId, keyId)
+      : null;
+    const publicKey = key ? crypto.createPublicKey({ key: { ...key.public_jwk }, format: 'jwk' }) : null;
+
+    if (!publicKey || !verifyQrPayloadSignature(payload, publicKey)) {
+      return { valid: false, reason: 'QR payload signature is invalid' };
+    }
+
+    return { valid: true, organizationId, certificateNumber };
+  }
+
+  /**
+   * Page of the organization's revocation feed, as a JWT signed with its active key
+   *
+   * Lists certificates revoked, reinstated or reissued at or after since, with
+   * their current status. The page depends only on the data, so an unchanged
+   * feed returns the same JWT (and ETag).
+   *
+   * @throws ValidationError when credentials are not enabled or the cursor is invalid
+   * @throws NotFoundError when the organization has not issued credentials yet (no key)
+   */
+  async getRevocationFeed(organizationId: string, query: RevocationFeedQuery): Promise<string> {
+    const baseUrl = this.getBaseUrl();
+    const issuer = await this.repository.findIssuer(organizationId);
+
+    if (!issuer) {
+      throw new NotFoundError('Issuer not found');
+    }
+
+    // Public and unauthenticated: never create a key here
+    const { key, privateKey } = await this.getSigningKey(organizationId, false);
+
+    const after = query.cursor ? decodeFeedCursor(query.cursor) : null;
+    const since = query.since ? new Date(query.since).toISOString() : null;
+
+    // One extra row tells whether there is a next page
+    const rows = await this.repository.findStatusChanges(organizationId, {
+      since,
+      after,
+      until: new Date(Date.now() - REVOCATION_FEED_SETTLE_TIME).toISOString(),
+      limit: query.limit + 1,
+    });
+
+    const entries = rows.slice(0, query.limit);
+    const last = entries[entries.length - 1];
+    const hasMore = rows.length > query.limit;
+
+    const did = getIssuerDid(baseUrl, organizationId);
+    const page: RevocationFeedPage = {
+      iss: did,
+      organization_id: organizationId,
+      since,
+      entries,
+      next_cursor: hasMore && last ? encodeFeedCursor(last.changed_at, last.certificate_id) : null,
+      // Inclusive: the last change is listed again, so an unchanged feed stays identical
+      next_since: hasMore ? null : (last?.changed_at ?? since),
+    };
+
+    return signJwt(
+      { alg: 'EdDSA', typ: 'JWT', kid: `${did}#${key.key_id}` },
+      { ...page },
+      privateKey
+    );
+  }
+
+  /**
+   * Credential issued with a certificate
+   */
+  async getCertificateCredential(certificateId: string, organizationId: string): Promise<string> {
+    const credential = await this.repository.findCertificateCredential(certificateId, organizationId);
+
+    if (credential === undefined) {
+      throw new NotFoundError('Certificate not found');
+    }
+
+    if (credential === null) {
+      throw new NotFoundError('No credential was issued for this certificate');
+    }
+
+    return credential;
+  }
+
+  /**
+   * Check a credential's signature against its issuer's keys
+   * @returns the verification token of its certificate when the signature is valid
+   */
+  async checkCredential(token: string): Promise<CredentialCheck> {
+    if (!config.CREDENTIALS_ISSUER_URL) {
+      return { valid: false, reason: 'Credential verification is not enabled' };
+    }
+
+    let jwt: ReturnType<typeof decodeJwt>;
+    try {
+      jwt = decodeJwt(token);
+    } catch {
+      return { valid: false, reason: 'Credential is not a valid VC-JWT' };
+    }
+
+    const issuer = jwt.header.kid ? parseIssuerDid(config.CREDENTIALS_ISSUER_URL, jwt.header.kid) : null;
+    if (!issuer || !issuer.fragment) {
+      return { valid: false, reason: 'Credential was not issued by Authentix' };
+    }
+
+    const key = await this.repository.findByKeyId(issuer.organizationId, issuer.fragment);
+    const publicKey = key ? crypto.createPublicKey({ key: { ...key.public_jwk }, format: 'jwk' }) : null;
+
+    if (!publicKey || !verifyJwtSignature(jwt, publicKey)) {
+      return { valid: false, reason: 'Credential signature is invalid' };
+    }
+
+    const did = getIssuerDid(config.CREDENTIALS_ISSUER_URL, issuer.organizationId);
+    const verificationToken = typeof jwt.payload.jti === 'string'
+      ? /\/verify\/([^/?#]+)$/.exec(jwt.payload.jti)?.[1]
+      : undefined;
+
+    if (jwt.payload.iss !== did || !verificationToken) {
+      return { valid: false, reason: 'Credential is not an Authentix certificate credential' };
+    }
+
+    return { valid: true, verificationToken, organizationId: issuer.organizationId };
+  }
+
+  /**
+   * Active key of the organization with its decrypted private key
+   * Creates the key on first use, unless createIfMissing is false (public read paths).
+   *
+   * @throws NotFoundError when the organization has no key and createIfMissing is false
+   */
+  private async getSigningKey(
+    organizationId: string,
+    createIfMissing = true
+  ): Promise<{ key: CredentialKeyWithSecret; privateKey: crypto.KeyObject }> {
+    const encryptionKey = this.getEncryptionKey();
+
+    let key = await this.repository.findActiveWithSecret(organizationId);
+    if (!key && !createIfMissing) {
+      throw new NotFoundError('Issuer has no credential key');
+    }
+    if (!key) {
+      await this.createKey(organizationId, null);
+      key = await this.repository.findActiveWithSecret(organizationId);
+    }
+    if (!key) {
+      throw new Error('Credential signing key could not be created');
+    }
+
+    const privateKey = crypto.createPrivateKey({
+      key: decryptSecret(key.private_key_encrypted, encryptionKey),
+      format: 'der',
+      type: 'pkcs8',
+    });
+
+    return { key, privateKey };
+  }
+
+  /**
+   * Generate and store a new active key
+   */
+  private async createKey(organizationId: string, userId: string | null): Promise<CredentialKeyEntity> {
+    const encryptionKey = this.getEncryptionKey();
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+
+    const jwk = publicKey.export({ format: 'jwk' });
+    const publicJwk: PublicJwk = { kty: 'OKP', crv: 'Ed25519', x: jwk.x! };
+
+    const key = await this.repository.create(organizationId, userId, {
+      key_id: getJwkThumbprint(publicJwk),
+      public_jwk: publicJwk,
+      private_key_encrypted: encryptSecret(privateKey.export({ format: 'der', type: 'pkcs8' }), encryptionKey),
+    });
+
+    if (!key) {
+      // Another request created the organization's key first; use that one
+      const active = await this.repository.findActiveWithSecret(organizationId);
+      if (!active) {
+        throw new Error('Credential signing key could not be created');
+      }
+      return active;
+    }
+
+    return key;
+  }
+
+  /**
+   * Recipient name, and email hashed with a salt (Open Badges IdentityObject)
+   */
+  private getRecipientIdentifiers(subject: CredentialSubjectData): Record<string, unknown>[] {
+    const identifiers: Record<string, unknown>[] = [{
+      type: 'IdentityObject',
+      identityType: 'name',
+      hashed: false,
+      identityHash: subject.recipientName,
+    }];
+
+    if (subject.recipientEmail) {
+      const salt = crypto.randomBytes(8).toString('hex');
+      const hash = crypto.createHash('sha256').update(subject.recipientEmail.trim().toLowerCase() + salt).digest('hex');
+      identifiers.push({
+        type: 'IdentityObject',
+        identityType: 'emailAddress',
+        hashed: true,
+        identityHash: `sha256$${hash}`,
+        salt,
+      });
+    }
+
+    return identifiers;
+  }
+
+  private toSummary(baseUrl: string, key: CredentialKeyEntity): CredentialKeySummary {
+    return {
+      ...key,
+      verification_method: `${getIssuerDid(baseUrl, key.organization_id)}#${key.key_id}`,
+    };
+  }
+
+  /**
+   * @throws ValidationError when credentials are not enabled
+   */
+  private getBaseUrl(): string {
+    if (!config.CREDENTIALS_ISSUER_URL) {
+      throw new ValidationError('Verifiable credentials are not enabled (CREDENTIALS_ISSUER_URL is not set)');
+    }
+
+    return config.CREDENTIALS_ISSUER_URL;
+  }
+
+  /**
+   * @throws ValidationError when credentials are not enabled
+   */
+  private getEncryptionKey(): Buffer {
+    if (!config.CREDENTIALS_ENCRYPTION_KEY) {
+      throw new ValidationError('Verifiable credentials are not enabled (CREDENTIALS_ENCRYPTION_KEY is not set)');
+    }
+
+    return Buffer.from(config.CREDENTIALS_ENCRYPTION_KEY, 'base64');
+  }
+}
+
+/**
+ * Revocation feed cursor: base64url JSON [changed_at, certificate_id] of the last entry
+ */
+function encodeFeedCursor(changedAt: string, certificateId: string): string {
+  return Buffer.from(JSON.stringify([changedAt, certificateId]), 'utf8').toString('base64url');
+}
+
+/**
+ * @throws ValidationError when the cursor was not issued by the feed
+ */
+function decodeFeedCursor(cursor: string): { changedAt: string; id: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    value = null;
+  }
+
+  // Both parts are interpolated into a PostgREST filter, so accept only their exact formats
+  if (
+    !Array.isArray(value) ||
+    value.length !== 2 ||
+    typeof value[0] !== 'string' ||
+    typeof value[1] !== 'string' ||
+    !/^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:\d{2})$/.test(value[0]) ||
+    !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value[1])
+  ) {
+    throw new ValidationError('Invalid cursor', { code: 'INVALID_CURSOR' });
+  }
+
+  return { changedAt: value[0], id: value[1] };
+}
+
+/**
+ * RFC 7638 thumbprint of an Ed25519 JWK, used as its key ID
+ */
+function getJwkThumbprint(jwk: PublicJwk): string {
+  const canonical = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x });
+  return crypto.createHash('sha256').update(canonical).digest('base64url');
+}
@@ -0,0 +1,120 @@
+/**
+ * CREDENTIAL TYPES
+ *
+ * Types for Open Badges 3.0 verifiable credentials and the organization keys
+ * that sign them.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Public JWK of an Ed25519 key
+ */
+export interface PublicJwk {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;
+}
+
+/**
+ * Organization credential signing key (private key excluded)
+ */
+export interface CredentialKeyEntity {
+  id: string;
+  organization_id: string;
+  key_id: string;
+  algorithm: 'EdDSA';
+  public_jwk: PublicJwk;
+  created_by_user_id: string | null;
+  created_at: string;
+  retired_at: string | null;
+}
+
+/**
+ * Credential key with its encrypted private key, read when signing
+ */
+export interface CredentialKeyWithSecret extends CredentialKeyEntity {
+  private_key_encrypted: string;
+}
+
+/**
+ * Credential key as shown to the organization
+ */
+export interface CredentialKeySummary extends CredentialKeyEntity {
+  /** DID URL of the key (verification method) */
+  verification_method: string;
+}
+
+/**
+ * Certificate details a credential is issued for
+ */
+export interface CredentialSubjectData {
+  verificationUrl: string;
+  certificateNumber: string;
+  recipientName: string;
+  recipientEmail: string | null;
+  achievementId: string;
+  achievementName: string;
+  achievementCategory: string;
+  issuedAt: Date;
+  expiresAt: Date | null;
+}
+
+/**
+ * Verify credential request (alternative to the verification token)
+ */
+export const credentialSchema = z.string().min(1).max(32768);
+
+/**
+ * Outcome of checking a credential's signature
+ */
+export type CredentialCheck =
+  | { valid: true; verificationToken: string; organizationId: string }
+  | { valid: false; reason: string };
+
+/**
+ * Outcome of checking a signed QR payload's signature
+ */
+export type QrPayloadCheck =
+  | { valid: true; organizationId: string; certificateNumber: string }
+  | { valid: false; reason: string };
+
+/**
+ * Revocation feed query (public)
+ * - since: changes at or after this time (inclusive; omit for a full sync)
+ * - cursor: next_cursor of the previous page
+ */
+export const revocationFeedQuerySchema = z.object({
+  since: z.string().datetime({ offset: true }).optional(),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(500),
+});
+
+export type RevocationFeedQuery = z.infer<typeof revocationFeedQuerySchema>;
+
+/**
+ * Certificate whose status entered or left 'revoked' / 'reissued'
+ * status is the current one: 'issued' or 'expired' after a reinstatement.
+ * Identified by ID only: certificate numbers are the first factor of the public number lookup.
+ */
+export interface CertificateStatusChange {
+  certificate_id: string;
+  status: 'issued' | 'expired' | 'revoked' | 'reissued';
+  changed_at: string;
+  /** Replacement certificate (reissued only) */
+  superseded_by_certificate_id: string | null;
+}
+
+/**
+ * Revocation feed page, the claims of its signed JWT
+ */
+export interface RevocationFeedPage {
+  iss: string;
+  organization_id: string;
+  since: string | null;
+  entries: CertificateStatusChange[];
+  /** Cursor of the next page, null on the last page */
+  next_cursor: string | null;
+  /** since for the next sync (last page only) */
+  next_since: string | null;
+}
@@ -0,0 +1,239 @@
+/**
+ * FONT REPOSITORY
+ *
+ * Data access layer for the organization font library.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FontEntity, FontFileEntity, FontStyle, FontWeight } from './types.js';
+import { ConflictError } from '../../lib/errors/handler.js';
+
+const FONT_COLUMNS = `
+  id,
+  organization_id,
+  family,
+  weight,
+  style,
+  file_id,
+  postscript_name,
+  glyph_count,
+  created_by_user_id,
+  created_at,
+  file:file_id (
+    bucket,
+    path,
+    original_name,
+    mime_type,
+    size_bytes
+  )
+`;
+
+export class FontRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Find all active fonts for an organization, ordered by family
+   */
+  async findAll(organizationId: string): Promise<FontEntity[]> {
+    const { data, error } = await this.supabase
+      .from('organization_fonts')
+      .select(FONT_COLUMNS)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .order('family', { ascending: true })
+      .order('weight', { ascending: true })
+      .order('style', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to find fonts: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find active font by ID
+   */
+  async findById(id: string, organizationId: string): Promise<FontEntity | null> {
+    const { data, error } = await this.supabase
+      .from('organization_fonts')
+      .select(FONT_COLUMNS)
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find font: ${error.message}`);
+    }
+
+    return data ? this.mapToEntity(data) : null;
+  }
+
+  /**
+   * Find active fonts of the given families (case-insensitive) with their storage paths
+   */
+  async findByFamilies(organizationId: string, families: string[]): Promise<FontFileEntity[]> {
+    if (families.length === 0) {
+      return [];
+    }
+
+    // Font libraries are small; match families in memory so the comparison
+    // is case-insensitive without building an ILIKE filter per family
+    const { data, error } = await this.supabase
+      .from('organization_fonts')
+      .select(FONT_COLUMNS)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null);
+
+    if (error) {
+      throw new Error(`Failed to find fonts: ${error.message}`);
+    }
+
+    const wanted = new Set(families.map((family) => family.trim().toLowerCase()));
+
+    return (data ?? [])
+      .filter((row: any) => wanted.has(String(row.family).toLowerCase()) && row.file)
+      .map((row: any) => ({
+        ...this.mapToEntity(row),
+        bucket: row.file.bucket,
+        path: row.file.path,
+      }));
+  }
+
+  /**
+   * Create font file registry entry
+   */
+  async createFile(
+    organizationId: string,
+    userId: string,
+    fileData: {
+      bucket: string;
+      path: string;
+      original_name: string;
+      mime_type: string;
+      size_bytes: number;
+      checksum_sha256: string;
+    }
+  ): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('files')
+      .insert({
+        organization_id: organizationId,
+        bucket: fileData.bucket,
+        path: fileData.path,
+        kind: 'other',
+        original_name: fileData.original_name,
+        mime_type: fileData.mime_type,
+        size_bytes: fileData.size_bytes,
+        checksum_sha256: fileData.checksum_sha256,
+        created_by_user_id: userId,
+      } as any)
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create font file entry: ${error.message}`);
+    }
+
+    return (data as { id: string }).id;
+  }
+
+  /**
+   * Delete file registry entry (cleanup after a failed upload)
+   */
+  async deleteFile(fileId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('files')
+      .delete()
+      .eq('id', fileId);
+
+    if (error) {
+      throw new Error(`Failed to delete font file entry: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create font
+   * @throws ConflictError if the organization already has this family/weight/style
+   */
+  async create(
+    organizationId: string,
+    userId: string,
+    font: {
+      family: string;
+      weight: FontWeight;
+      style: FontStyle;
+      file_id: string;
+      postscript_name: string | null;
+      glyph_count: number;
+    }
+  ): Promise<FontEntity> {
+    const { data, error } = await this.supabase
+      .from('organization_fonts')
+      .insert({
+        organization_id: organizationId,
+        family: font.family,
+        weight: font.weight,
+        style: font.style,
+        file_id: font.file_id,
+        postscript_name: font.postscript_name,
+        glyph_count: font.glyph_count,
+        created_by_user_id: userId,
+      } as any)
+      .select(FONT_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictError('A font with this family, weight and style already exists', {
+          code: 'FONT_ALREADY_EXISTS',
+          family: font.family,
+          weight: font.weight,
+          style: font.style,
+        });
+      }
+      throw new Error(`Failed to create font: ${error.message}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Soft delete font
+   * The font file is kept so certificates already issued with it stay reproducible
+   */
+  async softDelete(id: string, organizationId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('organization_fonts')
+      .update({ deleted_at: new Date().toISOString() } as any)
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null);
+
+    if (error) {
+      throw new Error(`Failed to delete font: ${error.message}`);
+    }
+  }
+
+  /**
+   * Map database row to entity
+   */
+  private mapToEntity(data: any): FontEntity {
+    return {
+      id: data.id,
+      organization_id: data.organization_id,
+      family: data.family,
+      weight: data.weight,
+      style: data.style,
+      file_id: data.file_id,
+      postscript_name: data.postscript_name ?? null,
+      glyph_count: data.glyph_count ?? null,
+      file_name: data.file?.original_name ?? null,
+      mime_type: data.file?.mime_type ?? null,
+      size_bytes: data.file?.size_bytes ?? null,
+      created_by_user_id: data.created_by_user_id ?? null,
+      created_at: data.created_at,
+    };
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * FONT SERVICE
+ *
+ * Business logic for the organization font library.
+ *
+ * Uploaded TTF/OTF fonts are stored under org_branding/<org_id>/fonts/ and
+ * registered in files. Template fields use them by family name
+ * (style.fontFamily); generation embeds them subset into each certificate.
+ */
+
+import fontkit, { type Font } from '@pdf-lib/fontkit';
+import type { FontRepository } from './repository.js';
+import type { FontEntity, FontFaceData, UploadFontDTO } from './types.js';
+import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { validateFileUpload } from '../../lib/uploads/validator.js';
+import { generateSecureFilename, sanitizeClientFilename } from '../../lib/uploads/filename.js';
+import { computeSHA256 } from '../../lib/uploads/checksum.js';
+import { validateStoragePath } from '../../lib/storage/path-validator.js';
+
+/**
+ * Client mimetypes accepted for font uploads (aliases are normalized by the validator)
+ */
+const FONT_MIME_TYPES = [
+  'font/ttf',
+  'font/otf',
+  'application/x-font-ttf',
+  'application/x-font-otf',
+  'application/x-font-opentype',
+] as const;
+
+/**
+ * CJK fonts are the largest we expect (~16MB)
+ */
+const MAX_FONT_FILE_SIZE = 20 * 1024 * 1024;
+
+export class FontService {
+  constructor(private readonly repository: FontRepository) {}
+
+  /**
+   * List the organization's fonts
+   */
+  async list(organizationId: string): Promise<FontEntity[]> {
+    return this.repository.findAll(organizationId);
+  }
+
+  /**
+   * Get font by ID
+   */
+  async getById(id: string, organizationId: string): Promise<FontEntity> {
+    const font = await this.repository.findById(id, organizationId);
+
+    if (!font) {
+      throw new NotFoundError('Font not found');
+    }
+
+    return font;
+  }
+
+  /**
+   * Upload a font to the organization library
+   * Uses magic byte validation for security (OWASP compliant)
+   */
+  async upload(
+    organizationId: string,
+    userId: string,
+    dto: UploadFontDTO,
+    file: { buffer: Buffer; mimetype: string; originalname: string }
+  ): Promise<FontEntity> {
+    if (file.buffer.length > MAX_FONT_FILE_SIZE) {
+      throw new ValidationError('Font file is too large', {
+        size_bytes: file.buffer.length,
+        max_size_bytes: MAX_FONT_FILE_SIZE,
+      });
+    }
+
+    // Step 1: Validate file using magic byte detection (prevents file spoofing)
+    const validationResult = await validateFileUpload(file.buffer, file.mimetype, FONT_MIME_TYPES);
+    const validatedMimetype = validationResult.detectedType;
+
+    // Step 2: Parse the font so broken files are rejected now rather than at generation time
+    let parsed: Font;
+    try {
+      parsed = fontkit.create(new Uint8Array(file.buffer));
+    } catch (error) {
+      throw new ValidationError('Font file could not be read', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const glyphCount = parsed.characterSet?.length ?? 0;
+    if (glyphCount === 0) {
+      throw new ValidationError('Font file does not contain any Unicode characters');
+    }
+
+    const family = dto.family ?? parsed.familyName?.trim();
+    if (!family) {
+      throw new ValidationError('Font family is required (the font file does not name its family)', {
+        field: 'family',
+      });
+    }
+
+    // Step 3: Upload file to storage
+    const supabase = getSupabaseClient();
+    const storagePath = `org_branding/${organizationId}/fonts/${generateSecureFilename(validatedMimetype)}`;
+    validateStoragePath(storagePath, 'org_branding');
+
+    const { error: uploadError } = await supabase.storage
+      .from('authentix')
+      .upload(storagePath, file.buffer, {
+        contentType: validatedMimetype,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload font file: ${uploadError.message}`);
+    }
+
+    // Step 4: Register the file and the font, removing both on failure
+    let fileId: string | null = null;
+    try {
+      fileId = await this.repository.createFile(organizationId, userId, {
+        bucket: 'authentix',
+        path: storagePath,
+        original_name: sanitizeClientFilename(file.originalname),
+        mime_type: validatedMimetype,
+        size_bytes: file.buffer.length,
+        checksum_sha256: computeSHA256(file.buffer),
+      });
+
+      const font = await this.repository.create(organizationId, userId, {
+        family,
+        weight: dto.weight,
+        style: dto.style,
+        file_id: fileId,
+        postscript_name: parsed.postscriptName ?? null,
+        glyph_count: glyphCount,
+      });
+
+      console.log('[FontService] Font uploaded:', {
+        font_id: font.id,
+        family: font.family,
+        weight: font.weight,
+        style: font.style,
+        glyph_count: glyphCount,
+      });
+
+      return font;
+    } catch (error) {
+      if (fileId) {
+        await this.repository.deleteFile(fileId).catch((cleanupError) => {
+          console.warn('[FontService] Failed to remove font file entry:', cleanupError);
+        });
+      }
+      await supabase.storage.from('authentix').remove([storagePath]);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a font from the library
+   * Fields still naming the family fall back to the default font
+   */
+  async delete(id: string, organizationId: string): Promise<void> {
+    await this.getById(id, organizationId);
+    await this.repository.softDelete(id, organizationId);
+  }
+
+  /**
+   * Download the font faces of the given families for certificate generation
+   * Faces whose file is missing from storage are skipped with a warning.
+   */
+  async loadFontFaces(organizationId: string, families: string[]): Promise<FontFaceData[]> {
+    const fonts = await this.repository.findByFamilies(organizationId, families);
+    const supabase = getSupabaseClient();
+
+    const faces = await Promise.all(
+      fonts.map(async (font): Promise<FontFaceData | null> => {
+        const { data, error } = await supabase.storage.from(font.bucket).download(font.path);
+
+        if (error || !data) {
+          console.warn('[FontService] Font file missing from storage:', {
+            font_id: font.id,
+            path: font.path,
+            error: error?.message,
+          });
+          return null;
+        }
+
+        return {
+          family: font.family,
+          weight: font.weight,
+          style: font.style,
+          bytes: new Uint8Array(await data.arrayBuffer()),
+        };
+      })
+    );
+
+    return faces.filter((face): face is FontFaceData => face !== null);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * FONT TYPES
+ *
+ * Domain types for the organization font library.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Font face weight and style
+ */
+export const fontWeightSchema = z.enum(['normal', 'bold']);
+export const fontStyleSchema = z.enum(['normal', 'italic']);
+
+export type FontWeight = z.infer<typeof fontWeightSchema>;
+export type FontStyle = z.infer<typeof fontStyleSchema>;
+
+/**
+ * Upload font DTO (multipart form fields next to the font file)
+ * family defaults to the family name stored in the font file
+ */
+export const uploadFontSchema = z.object({
+  family: z.string().trim().min(1).max(100).optional(),
+  weight: fontWeightSchema.default('normal'),
+  style: fontStyleSchema.default('normal'),
+});
+
+export type UploadFontDTO = z.infer<typeof uploadFontSchema>;
+
+/**
+ * Organization font entity
+ */
+export interface FontEntity {
+  id: string;
+  organization_id: string;
+  family: string;
+  weight: FontWeight;
+  style: FontStyle;
+  file_id: string;
+  postscript_name: string | null;
+  glyph_count: number | null;
+  file_name: string | null;
+  mime_type: string | null;
+  size_bytes: number | null;
+  created_by_user_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Font face with its storage location, used when loading font bytes for generation
+ */
+export interface FontFileEntity extends FontEntity {
+  bucket: string;
+  path: string;
+}
+
+/**
+ * Font face loaded for certificate generation
+ */
+export interface FontFaceData {
+  family: string;
+  weight: FontWeight;
+  style: FontStyle;
+  bytes: Uint8Array;
+}
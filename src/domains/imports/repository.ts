@@ -5,9 +5,16 @@
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { ImportJobEntity, ImportDataRowEntity, ImportJobStatus, ImportSourceType } from './types.js';
+import type { ImportJobEntity, ImportDataRowEntity, ImportImageEntity, ImportJobStatus, ImportSourceType } from './types.js';
 import { NotFoundError } from '../../lib/errors/handler.js';
 
+/**
+ * Storage folder holding the images uploaded for an import job
+ */
+export function getImportImageFolder(organizationId: string, importJobId: string): string {
+  return `file_imports/${organizationId}/${importJobId}/images`;
+}
+
 export class ImportRepository {
   constructor(private readonly supabase: SupabaseClient) {}
 
@@ -31,6 +38,7 @@ export class ImportRepository {
         row_count,
         success_count,
         failed_count,
+        generation_job_id,
         created_by_user_id,
         created_at,
         updated_at,
@@ -85,6 +93,7 @@ export class ImportRepository {
         row_count,
         success_count,
         failed_count,
+        generation_job_id,
         created_by_user_id,
         created_at,
         updated_at,
@@ -196,6 +205,8 @@ export class ImportRepository {
       status?: string;
       success_count?: number;
       failure_count?: number;
+      failed_count?: number;
+      generation_job_id?: string | null;
       processed_rows?: number;
       succeeded_rows?: number;
       failed_rows?: number;
@@ -232,6 +243,59 @@ export class ImportRepository {
     return this.mapToEntity(data);
   }
 
+  /**
+   * Point the import at a new generation job, only if it still points at expectedJobId
+   * Two concurrent generation requests for one import cannot both win.
+   *
+   * @returns false if another generation job was recorded on the import meanwhile
+   */
+  async claimForGeneration(
+    id: string,
+    organizationId: string,
+    expectedJobId: string | null,
+    generationJobId: string
+  ): Promise<boolean> {
+    let query = this.supabase
+      .from('file_import_jobs')
+      .update({
+        generation_job_id: generationJobId,
+        success_count: 0,
+        failed_count: 0,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null);
+
+    query = expectedJobId ? query.eq('generation_job_id', expectedJobId) : query.is('generation_job_id', null);
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw new Error(`Failed to claim import job for generation: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Record the outcome of a generation job on the import it was started from
+   * No-op when the job was not started from an import.
+   */
+  async updateGenerationCounts(
+    generationJobId: string,
+    counts: { success_count: number; failed_count: number }
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('file_import_jobs')
+      .update({ ...counts, updated_at: new Date().toISOString() })
+      .eq('generation_job_id', generationJobId);
+
+    if (error) {
+      throw new Error(`Failed to update import generation counts: ${error.message}`);
+    }
+  }
+
   /**
    * Store import data rows
    */
@@ -299,6 +363,51 @@ export class ImportRepository {
     };
   }
 
+  /**
+   * Register an image uploaded for an import job
+   */
+  async createImageFile(
+    organizationId: string,
+    userId: string,
+    fileData: {
+      path: string;
+      original_name: string;
+      mime_type: string;
+      size_bytes: number;
+      checksum_sha256: string;
+    }
+  ): Promise<ImportImageEntity> {
+    const { data, error } = await this.supabase
+      .from('files')
+      .insert({
+        organization_id: organizationId,
+        bucket: 'authentix',
+        path: fileData.path,
+        kind: 'other',
+        original_name: fileData.original_name,
+        mime_type: fileData.mime_type,
+        size_bytes: fileData.size_bytes,
+        checksum_sha256: fileData.checksum_sha256,
+        created_by_user_id: userId,
+      } as any)
+      .select('id, original_name, path, mime_type, size_bytes')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create import image file: ${error.message}`);
+    }
+
+    const row = data as { id: string; original_name: string; path: string; mime_type: string; size_bytes: number };
+
+    return {
+      file_id: row.id,
+      original_name: row.original_name,
+      path: row.path,
+      mime_type: row.mime_type,
+      size_bytes: row.size_bytes,
+    };
+  }
+
   /**
    * Map database row to entity
    */
@@ -313,6 +422,7 @@ export class ImportRepository {
       status: (row.status as ImportJobStatus) ?? 'pending',
       success_count: (row.success_count as number) ?? 0,
       failed_count: (row.failed_count as number) ?? 0,
+      generation_job_id: (row.generation_job_id as string | null) ?? null,
       total_rows: (row.total_rows as number) ?? 0,
       error_message: row.error_message as string | null,
       mapping: row.mapping as Record<string, unknown> | null,
@@ -6,11 +6,21 @@
 
 import * as XLSX from 'xlsx';
 import type { ImportRepository } from './repository.js';
-import type { ImportJobEntity, CreateImportJobDTO } from './types.js';
+import { getImportImageFolder } from './repository.js';
+import type { ImportJobEntity, ImportImageEntity, CreateImportJobDTO } from './types.js';
 import { getSupabaseClient } from '../../lib/supabase/client.js';
 import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
 import { validateFileUpload } from '../../lib/uploads/validator.js';
-import { generateSecureFilename } from '../../lib/uploads/filename.js';
+import { generateSecureFilename, sanitizeClientFilename } from '../../lib/uploads/filename.js';
+import { computeSHA256 } from '../../lib/uploads/checksum.js';
+import { validateStoragePath } from '../../lib/storage/path-validator.js';
+
+/**
+ * Image types accepted for import images (photos for image fields)
+ */
+const IMPORT_IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'] as const;
+
+const MAX_IMPORT_IMAGE_SIZE = 10 * 1024 * 1024;
 
 export class ImportService {
   constructor(private readonly repository: ImportRepository) {}
@@ -202,6 +212,58 @@ export class ImportService {
     };
   }
 
+  /**
+   * Upload an image for the import's image fields
+   * Rows reference it by file name; uploading the same name again replaces what rows resolve to.
+   */
+  async uploadImage(
+    importJobId: string,
+    organizationId: string,
+    userId: string,
+    file: { buffer: Buffer; mimetype: string; originalname: string }
+  ): Promise<ImportImageEntity> {
+    await this.getById(importJobId, organizationId);
+
+    if (file.buffer.length > MAX_IMPORT_IMAGE_SIZE) {
+      throw new ValidationError('Image is too large', {
+        file_name: file.originalname,
+        size_bytes: file.buffer.length,
+        max_size_bytes: MAX_IMPORT_IMAGE_SIZE,
+      });
+    }
+
+    const validationResult = await validateFileUpload(file.buffer, file.mimetype, IMPORT_IMAGE_MIME_TYPES);
+    const validatedMimetype = validationResult.detectedType;
+
+    const supabase = getSupabaseClient();
+    const storagePath = `${getImportImageFolder(organizationId, importJobId)}/${generateSecureFilename(validatedMimetype)}`;
+    validateStoragePath(storagePath, 'file_imports');
+
+    const { error: uploadError } = await supabase.storage
+      .from('authentix')
+      .upload(storagePath, file.buffer, {
+        contentType: validatedMimetype,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload image: ${uploadError.message}`);
+    }
+
+    try {
+      return await this.repository.createImageFile(organizationId, userId, {
+        path: storagePath,
+        original_name: sanitizeClientFilename(file.originalname),
+        mime_type: validatedMimetype,
+        size_bytes: file.buffer.length,
+        checksum_sha256: computeSHA256(file.buffer),
+      });
+    } catch (error) {
+      await supabase.storage.from('authentix').remove([storagePath]);
+      throw error;
+    }
+  }
+
   /**
    * Get signed URL for import file download
    */
@@ -52,6 +52,8 @@ export interface ImportJobEntity {
   status: ImportJobStatus;
   success_count: number;
   failed_count: number;
+  /** Latest generation job started from the stored rows */
+  generation_job_id: string | null;
   total_rows: number;
   error_message: string | null;
   mapping: Record<string, unknown> | null;
@@ -79,3 +81,15 @@ export interface ImportDataRowEntity {
   errors: Record<string, unknown> | null;
   created_at: string;
 }
+
+/**
+ * Image uploaded alongside an import for image fields
+ * Rows reference it by original_name in the mapped column.
+ */
+export interface ImportImageEntity {
+  file_id: string;
+  original_name: string;
+  path: string;
+  mime_type: string;
+  size_bytes: number;
+}
@@ -0,0 +1,149 @@
+/**
+ * CERTIFICATE NUMBER PATTERNS
+ *
+ * Parses and renders certificate number patterns such as {ORG}-{YYYY}-{SEQ:6}:
+ * - {ORG}: the scheme's organization code
+ * - {YYYY}, {YY}, {MM}: issue year and month in the template's timezone
+ * - {SEQ} / {SEQ:n}: the sequence, zero-padded to n digits
+ *
+ * The sequence must come last, right after a literal non-digit. The text before
+ * it (the prefix) then identifies the sequence a number belongs to, so patterns
+ * rendering different prefixes never produce the same number, and patterns
+ * rendering the same prefix share one sequence.
+ */
+
+import { toWallClock, DEFAULT_TIME_ZONE } from '../certificates/date-format.js';
+
+const MAX_PATTERN_LENGTH = 64;
+const MAX_SEQUENCE_WIDTH = 12;
+
+/**
+ * Literal characters allowed between tokens
+ */
+const LITERAL = /^[A-Za-z0-9\-_/.#]*$/;
+
+const TOKEN = /\{([A-Z]+)(?::(\d+))?\}/g;
+
+type TokenType = 'org' | 'year' | 'year2' | 'month';
+
+type PatternPart =
+  | { type: 'literal'; text: string }
+  | { type: TokenType };
+
+export interface ParsedPattern {
+  /** Everything before {SEQ} */
+  prefix: PatternPart[];
+  /** Minimum sequence digits (0: unpadded) */
+  width: number;
+  usesOrgCode: boolean;
+}
+
+const TOKEN_PARTS: Record<string, TokenType> = {
+  ORG: 'org',
+  YYYY: 'year',
+  YY: 'year2',
+  MM: 'month',
+};
+
+/**
+ * Parse a pattern
+ * @returns the parsed pattern, or the reason it is rejected
+ */
+export function parsePattern(pattern: string): { pattern: ParsedPattern } | { error: string } {
+  if (pattern.length === 0 || pattern.length > MAX_PATTERN_LENGTH) {
+    return { error: `Pattern must be 1 to ${MAX_PATTERN_LENGTH} characters` };
+  }
+
+  const prefix: PatternPart[] = [];
+  let width: number | null = null;
+  let lastIndex = 0;
+
+  for (const match of pattern.matchAll(TOKEN)) {
+    const literal = pattern.slice(lastIndex, match.index);
+    if (literal) {
+      prefix.push({ type: 'literal', text: literal });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const [token, name, size] = match;
+    if (width !== null) {
+      return { error: '{SEQ} must be at the end of the pattern' };
+    }
+
+    if (name === 'SEQ') {
+      width = size === undefined ? 0 : Number(size);
+      if (size !== undefined && (width < 1 || width > MAX_SEQUENCE_WIDTH)) {
+        return { error: `{SEQ:n} takes 1 to ${MAX_SEQUENCE_WIDTH} digits` };
+      }
+      continue;
+    }
+
+    const type = Object.prototype.hasOwnProperty.call(TOKEN_PARTS, name!) ? TOKEN_PARTS[name!] : undefined;
+    if (!type || size !== undefined) {
+      return { error: `Unknown token ${token}` };
+    }
+    prefix.push({ type });
+  }
+
+  const trailing = pattern.slice(lastIndex);
+  if (width === null) {
+    return { error: 'Pattern must contain {SEQ} or {SEQ:n}' };
+  }
+  if (trailing) {
+    return { error: '{SEQ} must be at the end of the pattern' };
+  }
+
+  const invalid = prefix.find((part) => part.type === 'literal' && !LITERAL.test(part.text));
+  if (invalid) {
+    return { error: 'Pattern may only contain letters, digits, - _ / . # and tokens' };
+  }
+
+  // A digit right before the sequence would make numbers ambiguous (e.g. "2026" + "15")
+  const last = prefix[prefix.length - 1];
+  if (last && (last.type !== 'literal' || /\d$/.test(last.text))) {
+    return { error: '{SEQ} must follow a separator or letter, e.g. {YYYY}-{SEQ}' };
+  }
+
+  return {
+    pattern: {
+      prefix,
+      width,
+      usesOrgCode: prefix.some((part) => part.type === 'org'),
+    },
+  };
+}
+
+/**
+ * Render the prefix of a number issued at a date
+ */
+export function renderPrefix(
+  pattern: ParsedPattern,
+  values: { orgCode: string | null; issuedAt: Date; timeZone?: string | null }
+): string {
+  const date = toWallClock(values.issuedAt, values.timeZone || DEFAULT_TIME_ZONE);
+  const year = String(date.getFullYear());
+
+  return pattern.prefix
+    .map((part) => {
+      switch (part.type) {
+        case 'literal':
+          return part.text;
+        case 'org':
+          return values.orgCode ?? '';
+        case 'year':
+          return year;
+        case 'year2':
+          return year.slice(-2);
+        case 'month':
+          return String(date.getMonth() + 1).padStart(2, '0');
+      }
+    })
+    .join('');
+}
+
+/**
+ * Format a certificate number from its prefix and sequence value
+ */
+export function formatNumber(prefix: string, width: number, value: number): string {
+  return `${prefix}${String(value).padStart(width, '0')}`;
+}
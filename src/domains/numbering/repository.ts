@@ -0,0 +1,179 @@
+/**
+ * NUMBERING REPOSITORY
+ *
+ * Data access layer for certificate number schemes and sequences.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NumberSchemeEntity, UpdateNumberSchemeDTO } from './types.js';
+
+const SCHEME_COLUMNS = 'id, organization_id, category_id, pattern, org_code, created_at, updated_at';
+
+export class NumberingRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Find all schemes of an organization (default first)
+   */
+  async findAll(organizationId: string): Promise<NumberSchemeEntity[]> {
+    const { data, error } = await this.supabase
+      .from('certificate_number_schemes')
+      .select(SCHEME_COLUMNS)
+      .eq('organization_id', organizationId)
+      .order('category_id', { ascending: true, nullsFirst: true });
+
+    if (error) {
+      throw new Error(`Failed to find number schemes: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => this.mapToEntity(row));
+  }
+
+  /**
+   * Find the scheme of a category: its override, otherwise the organization default
+   */
+  async findForCategory(organizationId: string, categoryId: string): Promise<NumberSchemeEntity | null> {
+    const { data, error } = await this.supabase
+      .from('certificate_number_schemes')
+      .select(SCHEME_COLUMNS)
+      .eq('organization_id', organizationId)
+      .or(`category_id.is.null,category_id.eq.${categoryId}`);
+
+    if (error) {
+      throw new Error(`Failed to find number scheme: ${error.message}`);
+    }
+
+    const rows = (data ?? []).map((row) => this.mapToEntity(row));
+    return rows.find((row) => row.category_id === categoryId) ?? rows.find((row) => row.category_id === null) ?? null;
+  }
+
+  /**
+   * Create or replace the default (categoryId null) or a category's scheme
+   */
+  async upsert(
+    organizationId: string,
+    categoryId: string | null,
+    userId: string,
+    dto: UpdateNumberSchemeDTO
+  ): Promise<NumberSchemeEntity> {
+    const existing = (await this.findAll(organizationId)).find((row) => row.category_id === categoryId);
+
+    const values = {
+      pattern: dto.pattern,
+      org_code: dto.org_code ?? null,
+      updated_at: new Date().toISOString(),
+    };
+
+    const query = existing
+      ? this.supabase
+          .from('certificate_number_schemes')
+          .update(values)
+          .eq('id', existing.id)
+          .eq('organization_id', organizationId)
+      : this.supabase
+          .from('certificate_number_schemes')
+          .insert({
+            ...values,
+            organization_id: organizationId,
+            category_id: categoryId,
+            created_by_user_id: userId,
+          } as any);
+
+    const { data, error } = await query.select(SCHEME_COLUMNS).single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save number scheme: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Delete the default (categoryId null) or a category's scheme
+   * @returns whether a scheme was deleted
+   */
+  async delete(organizationId: string, categoryId: string | null): Promise<boolean> {
+    let query = this.supabase
+      .from('certificate_number_schemes')
+      .delete()
+      .eq('organization_id', organizationId);
+
+    query = categoryId ? query.eq('category_id', categoryId) : query.is('category_id', null);
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete number scheme: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Next value of the sequence for a prefix (gap-free, safe under concurrency)
+   */
+  async nextSequence(organizationId: string, prefix: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('next_certificate_sequence', {
+      p_organization_id: organizationId,
+      p_prefix: prefix,
+    } as any);
+
+    if (error) {
+      throw new Error(`Failed to get certificate number: ${error.message}`);
+    }
+
+    if (data === null || data === undefined) {
+      throw new Error('Certificate number is null');
+    }
+
+    return Number(data);
+  }
+
+  /**
+   * Next number from the built-in numbering (organizations without a scheme)
+   */
+  async nextDefaultNumber(organizationId: string): Promise<string> {
+    const { data, error } = await this.supabase.rpc('next_certificate_number', {
+      p_organization_id: organizationId,
+    } as any);
+
+    if (error) {
+      throw new Error(`Failed to get certificate number: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Certificate number is null');
+    }
+
+    return String(data);
+  }
+
+  /**
+   * Return a number no certificate holds to its sequence
+   */
+  async releaseNumber(organizationId: string, certificateNumber: string): Promise<void> {
+    const { error } = await this.supabase.rpc('release_certificate_number', {
+      p_organization_id: organizationId,
+      p_certificate_number: certificateNumber,
+    } as any);
+
+    if (error) {
+      throw new Error(`Failed to release certificate number: ${error.message}`);
+    }
+  }
+
+  /**
+   * Map database row to entity
+   */
+  private mapToEntity(row: Record<string, unknown>): NumberSchemeEntity {
+    return {
+      id: row.id as string,
+      organization_id: row.organization_id as string,
+      category_id: (row.category_id as string | null) ?? null,
+      pattern: row.pattern as string,
+      org_code: (row.org_code as string | null) ?? null,
+      created_at: row.created_at as string,
+      updated_at: row.updated_at as string,
+    };
+  }
+}
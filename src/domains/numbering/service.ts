@@ -0,0 +1,141 @@
+/**
+ * NUMBERING SERVICE
+ *
+ * Business logic for certificate number schemes.
+ *
+ * Organizations set a default pattern (e.g. {ORG}-{YYYY}-{SEQ:6}) and optional
+ * per-category overrides; certificates of a category use its override, otherwise
+ * the default, otherwise the built-in numbering.
+ */
+
+import type { NumberingRepository } from './repository.js';
+import type { NumberSchemeEntity, UpdateNumberSchemeDTO } from './types.js';
+import { parsePattern, renderPrefix, formatNumber, type ParsedPattern } from './pattern.js';
+import { CatalogRepository } from '../catalog/repository.js';
+import { getSupabaseClient } from '../../lib/supabase/client.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+
+export class NumberingService {
+  constructor(private readonly repository: NumberingRepository) {}
+
+  /**
+   * List the organization's schemes with an example number each
+   */
+  async list(organizationId: string): Promise<NumberSchemeEntity[]> {
+    const schemes = await this.repository.findAll(organizationId);
+
+    return schemes.map((scheme) => ({ ...scheme, example: this.getExample(scheme) }));
+  }
+
+  /**
+   * Scheme used for certificates of a category (null: built-in numbering)
+   */
+  async getSchemeForCategory(organizationId: string, categoryId: string): Promise<NumberSchemeEntity | null> {
+    return this.repository.findForCategory(organizationId, categoryId);
+  }
+
+  /**
+   * Set the organization default (categoryId null) or a category override
+   * @throws ValidationError when the pattern could produce ambiguous numbers
+   */
+  async setScheme(
+    organizationId: string,
+    categoryId: string | null,
+    userId: string,
+    dto: UpdateNumberSchemeDTO
+  ): Promise<NumberSchemeEntity> {
+    const parsed = this.parse(dto.pattern);
+
+    if (parsed.usesOrgCode && !dto.org_code) {
+      throw new ValidationError('org_code is required when the pattern uses {ORG}', {
+        pattern: dto.pattern,
+      });
+    }
+
+    if (categoryId) {
+      const catalog = new CatalogRepository(getSupabaseClient());
+      if (!(await catalog.validateCategoryForOrganization(organizationId, categoryId))) {
+        throw new NotFoundError('Category not found');
+      }
+    }
+
+    const scheme = await this.repository.upsert(organizationId, categoryId, userId, {
+      pattern: dto.pattern,
+      org_code: parsed.usesOrgCode ? dto.org_code : null,
+    });
+
+    return { ...scheme, example: this.getExample(scheme) };
+  }
+
+  /**
+   * Remove the organization default (categoryId null) or a category override
+   */
+  async deleteScheme(organizationId: string, categoryId: string | null): Promise<void> {
+    const deleted = await this.repository.delete(organizationId, categoryId);
+
+    if (!deleted) {
+      throw new NotFoundError('Number scheme not found');
+    }
+  }
+
+  /**
+   * Take the next certificate number
+   * @param scheme - scheme of the certificate's category (null: built-in numbering)
+   * @param timeZone - timezone of {YYYY}/{YY}/{MM} (the template's)
+   */
+  async allocate(
+    organizationId: string,
+    scheme: NumberSchemeEntity | null,
+    issuedAt: Date,
+    timeZone: string | null
+  ): Promise<string> {
+    if (!scheme) {
+      return this.repository.nextDefaultNumber(organizationId);
+    }
+
+    const parsed = this.parse(scheme.pattern);
+    const prefix = renderPrefix(parsed, { orgCode: scheme.org_code, issuedAt, timeZone });
+    const value = await this.repository.nextSequence(organizationId, prefix);
+
+    return formatNumber(prefix, parsed.width, value);
+  }
+
+  /**
+   * Return the number of a certificate that was not issued, so the sequence stays gap-free
+   * Non-fatal: a number that cannot be released is only logged.
+   */
+  async release(organizationId: string, certificateNumber: string): Promise<void> {
+    try {
+      await this.repository.releaseNumber(organizationId, certificateNumber);
+    } catch (error) {
+      console.warn('[NumberingService] Failed to release certificate number (non-fatal):', {
+        organization_id: organizationId,
+        certificate_number: certificateNumber,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private parse(pattern: string): ParsedPattern {
+    const result = parsePattern(pattern);
+
+    if ('error' in result) {
+      throw new ValidationError(result.error, { pattern });
+    }
+
+    return result.pattern;
+  }
+
+  /**
+   * First number of a scheme for an issue date, without taking it from the sequence
+   * Used for sample certificates that are never issued.
+   */
+  preview(scheme: NumberSchemeEntity, issuedAt: Date, timeZone: string | null): string {
+    const parsed = this.parse(scheme.pattern);
+    return formatNumber(renderPrefix(parsed, { orgCode: scheme.org_code, issuedAt, timeZone }), parsed.width, 1);
+  }
+
+  private getExample(scheme: NumberSchemeEntity): string {
+    return this.preview(scheme, new Date(), null);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * NUMBERING TYPES
+ *
+ * Types for certificate number schemes.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Set a number scheme (organization default or category override)
+ * Pattern rules are checked by the service (see pattern.ts).
+ */
+export const updateNumberSchemeSchema = z.object({
+  pattern: z.string().trim().min(1).max(64),
+  org_code: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{1,12}$/, 'Organization code must be 1-12 letters or digits').optional().nullable(),
+});
+
+export type UpdateNumberSchemeDTO = z.infer<typeof updateNumberSchemeSchema>;
+
+/**
+ * Number scheme entity (category_id null: organization default)
+ */
+export interface NumberSchemeEntity {
+  id: string;
+  organization_id: string;
+  category_id: string | null;
+  pattern: string;
+  org_code: string | null;
+  created_at: string;
+  updated_at: string;
+  /** Number the scheme would issue next today (sequence value 1) */
+  example?: string;
+}
@@ -0,0 +1,134 @@
+/**
+ * SIGNING REPOSITORY
+ *
+ * Data access layer for organization signing keystores.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SigningCertificateEntity, SigningCertificateSummary, SigningKeystoreEntity } from './types.js';
+
+const CERTIFICATE_COLUMNS = `
+  id,
+  organization_id,
+  subject,
+  issuer,
+  serial_number,
+  not_before,
+  not_after,
+  fingerprint_sha256,
+  created_by_user_id,
+  created_at
+`;
+
+export class SigningRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Find the organization's active signing certificate
+   */
+  async findActive(organizationId: string): Promise<SigningCertificateEntity | null> {
+    const { data, error } = await this.supabase
+      .from('organization_signing_keystores')
+      .select(CERTIFICATE_COLUMNS)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find signing certificate: ${error.message}`);
+    }
+
+    return data ? this.mapToEntity(data) : null;
+  }
+
+  /**
+   * Find the organization's active keystore, key material included
+   */
+  async findActiveKeystore(organizationId: string): Promise<SigningKeystoreEntity | null> {
+    const { data, error } = await this.supabase
+      .from('organization_signing_keystores')
+      .select(`${CERTIFICATE_COLUMNS}, keystore_encrypted, password_encrypted`)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find signing keystore: ${error.message}`);
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const row = data as Record<string, unknown>;
+    return {
+      ...this.mapToEntity(row),
+      keystore_encrypted: row.keystore_encrypted as string,
+      password_encrypted: row.password_encrypted as string,
+    };
+  }
+
+  /**
+   * Store a keystore, replacing the organization's active one
+   */
+  async replace(
+    organizationId: string,
+    userId: string,
+    data: SigningCertificateSummary & { keystore_encrypted: string; password_encrypted: string }
+  ): Promise<SigningCertificateEntity> {
+    await this.softDelete(organizationId);
+
+    const { data: row, error } = await this.supabase
+      .from('organization_signing_keystores')
+      .insert({
+        ...data,
+        organization_id: organizationId,
+        created_by_user_id: userId,
+      } as any)
+      .select(CERTIFICATE_COLUMNS)
+      .single();
+
+    if (error || !row) {
+      throw new Error(`Failed to store signing keystore: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.mapToEntity(row);
+  }
+
+  /**
+   * Soft delete the organization's active keystore
+   * @returns whether a keystore was deleted
+   */
+  async softDelete(organizationId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('organization_signing_keystores')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete signing keystore: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Map database row to entity
+   */
+  private mapToEntity(row: Record<string, unknown>): SigningCertificateEntity {
+    return {
+      id: row.id as string,
+      organization_id: row.organization_id as string,
+      subject: row.subject as string,
+      issuer: row.issuer as string,
+      serial_number: row.serial_number as string,
+      not_before: row.not_before as string,
+      not_after: row.not_after as string,
+      fingerprint_sha256: row.fingerprint_sha256 as string,
+      created_by_user_id: (row.created_by_user_id as string | null) ?? null,
+      created_at: row.created_at as string,
+    };
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * SIGNING SERVICE
+ *
+ * Business logic for the certificates that sign generated PDFs.
+ *
+ * Organizations upload a PKCS#12 keystore (.p12 / .pfx) holding their X.509
+ * signing certificate and private key; it is stored encrypted. Organizations
+ * without one are signed with the platform keystore (PDF_SIGNING_KEYSTORE_PATH)
+ * when it is configured, otherwise their PDFs are not signed.
+ */
+
+import type { SigningRepository } from './repository.js';
+import type {
+  PdfSigner,
+  SigningCertificateEntity,
+  SigningCertificateSummary,
+  SigningStatus,
+  UploadSigningKeystoreDTO,
+} from './types.js';
+import {
+  loadPkcs12,
+  loadPkcs12File,
+  encryptSecret,
+  decryptSecret,
+  type SigningIdentity,
+} from '../../lib/signing/keystore.js';
+import { HttpTimestampClient, type TimestampClient } from '../../lib/signing/timestamp.js';
+import { NotFoundError, ValidationError } from '../../lib/errors/handler.js';
+import { config } from '../../lib/config/env.js';
+
+/**
+ * Keystores hold a certificate chain, a few KB in practice
+ */
+const MAX_KEYSTORE_FILE_SIZE = 256 * 1024;
+
+/**
+ * Read the platform keystore (once per process)
+ */
+let platformIdentityPromise: Promise<SigningIdentity> | null = null;
+
+function loadPlatformIdentity(path: string): Promise<SigningIdentity> {
+  platformIdentityPromise ??= loadPkcs12File(path, config.PDF_SIGNING_KEYSTORE_PASSWORD).catch((error) => {
+    // Retry on the next generation rather than caching the failure
+    platformIdentityPromise = null;
+    throw new Error(`Failed to load platform signing keystore: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  });
+
+  return platformIdentityPromise;
+}
+
+/**
+ * TSA client configured by PDF_SIGNING_TSA_URL (null: signatures are not timestamped)
+ */
+function createConfiguredTimestampClient(): TimestampClient | null {
+  if (!config.PDF_SIGNING_TSA_URL) {
+    return null;
+  }
+
+  const credentials = config.PDF_SIGNING_TSA_USERNAME
+    ? { username: config.PDF_SIGNING_TSA_USERNAME, password: config.PDF_SIGNING_TSA_PASSWORD ?? '' }
+    : undefined;
+
+  return new HttpTimestampClient(config.PDF_SIGNING_TSA_URL, credentials);
+}
+
+export class SigningService {
+  /**
+   * @param timestampClient - TSA used for signature timestamps; defaults to PDF_SIGNING_TSA_URL
+   */
+  constructor(
+    private readonly repository: SigningRepository,
+    private readonly timestampClient: TimestampClient | null = createConfiguredTimestampClient()
+  ) {}
+
+  /**
+   * Which certificate signs the organization's PDFs
+   */
+  async getStatus(organizationId: string): Promise<SigningStatus> {
+    const timestamping = this.timestampClient !== null;
+
+    const certificate = await this.repository.findActive(organizationId);
+    if (certificate) {
+      return { source: 'organization', certificate: this.toSummary(certificate), timestamping };
+    }
+
+    if (config.PDF_SIGNING_KEYSTORE_PATH) {
+      const identity = await loadPlatformIdentity(config.PDF_SIGNING_KEYSTORE_PATH);
+      return { source: 'platform', certificate: this.summarize(identity), timestamping };
+    }
+
+    return { source: null, certificate: null, timestamping: false };
+  }
+
+  /**
+   * Upload the organization's signing keystore, replacing the active one
+   * @throws ValidationError when the keystore cannot be read or its certificate is not valid now
+   */
+  async upload(
+    organizationId: string,
+    userId: string,
+    dto: UploadSigningKeystoreDTO,
+    file: { buffer: Buffer }
+  ): Promise<SigningCertificateEntity> {
+    const encryptionKey = this.getEncryptionKey();
+
+    if (file.buffer.length > MAX_KEYSTORE_FILE_SIZE) {
+      throw new ValidationError('Keystore file is too large', {
+        size_bytes: file.buffer.length,
+        max_size_bytes: MAX_KEYSTORE_FILE_SIZE,
+      });
+    }
+
+    let identity: SigningIdentity;
+    try {
+      identity = loadPkcs12(file.buffer, dto.password);
+    } catch (error) {
+      throw new ValidationError('Keystore could not be read (expected a PKCS#12 .p12/.pfx file and its password)', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const keyType = identity.privateKey.asymmetricKeyType;
+    if (keyType !== 'rsa' && keyType !== 'ec') {
+      throw new ValidationError('Signing key must be an RSA or EC key', { key_type: keyType ?? 'unknown' });
+    }
+
+    const now = new Date();
+    if (identity.notBefore > now || identity.notAfter <= now) {
+      throw new ValidationError('Signing certificate is not valid now', {
+        not_before: identity.notBefore.toISOString(),
+        not_after: identity.notAfter.toISOString(),
+      });
+    }
+
+    const certificate = await this.repository.replace(organizationId, userId, {
+      ...this.summarize(identity),
+      keystore_encrypted: encryptSecret(file.buffer, encryptionKey),
+      password_encrypted: encryptSecret(Buffer.from(dto.password, 'utf8'), encryptionKey),
+    });
+
+    console.log('[SigningService] Signing certificate uploaded:', {
+      organization_id: organizationId,
+      certificate_id: certificate.id,
+      subject: certificate.subject,
+      not_after: certificate.not_after,
+    });
+
+    return certificate;
+  }
+
+  /**
+   * Remove the organization's signing certificate
+   * PDFs generated afterwards use the platform certificate, if any
+   */
+  async delete(organizationId: string): Promise<void> {
+    const deleted = await this.repository.softDelete(organizationId);
+
+    if (!deleted) {
+      throw new NotFoundError('Signing certificate not found');
+    }
+  }
+
+  /**
+   * Signer for the organization's certificate PDFs
+   * @returns null when neither the organization nor the platform has a signing certificate
+   * @throws ValidationError when the organization's certificate has expired
+   */
+  async getSigner(organizationId: string): Promise<PdfSigner | null> {
+    const keystore = await this.repository.findActiveKeystore(organizationId);
+
+    let identity: SigningIdentity;
+    if (keystore) {
+      if (new Date(keystore.not_after) <= new Date()) {
+        throw new ValidationError('Signing certificate has expired; upload a new one or remove it', {
+          not_after: keystore.not_after,
+        });
+      }
+
+      const encryptionKey = this.getEncryptionKey();
+      identity = loadPkcs12(
+        decryptSecret(keystore.keystore_encrypted, encryptionKey),
+        decryptSecret(keystore.password_encrypted, encryptionKey).toString('utf8')
+      );
+    } else if (config.PDF_SIGNING_KEYSTORE_PATH) {
+      identity = await loadPlatformIdentity(config.PDF_SIGNING_KEYSTORE_PATH);
+    } else {
+      return null;
+    }
+
+    return { identity, timestampClient: this.timestampClient ?? undefined };
+  }
+
+  /**
+   * @throws ValidationError when organization keystores are not enabled
+   */
+  private getEncryptionKey(): Buffer {
+    if (!config.PDF_SIGNING_ENCRYPTION_KEY) {
+      throw new ValidationError('Organization signing certificates are not enabled (PDF_SIGNING_ENCRYPTION_KEY is not set)');
+    }
+
+    return Buffer.from(config.PDF_SIGNING_ENCRYPTION_KEY, 'base64');
+  }
+
+  private summarize(identity: SigningIdentity): SigningCertificateSummary {
+    return {
+      subject: identity.subject,
+      issuer: identity.issuer,
+      serial_number: identity.serialNumber,
+      not_before: identity.notBefore.toISOString(),
+      not_after: identity.notAfter.toISOString(),
+      fingerprint_sha256: identity.fingerprintSha256,
+    };
+  }
+
+  private toSummary(certificate: SigningCertificateEntity): SigningCertificateSummary {
+    return {
+      subject: certificate.subject,
+      issuer: certificate.issuer,
+      serial_number: certificate.serial_number,
+      not_before: certificate.not_before,
+      not_after: certificate.not_after,
+      fingerprint_sha256: certificate.fingerprint_sha256,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * SIGNING TYPES
+ *
+ * Types for the certificates used to sign generated PDFs.
+ */
+
+import { z } from 'zod';
+import type { SigningIdentity } from '../../lib/signing/keystore.js';
+import type { TimestampClient } from '../../lib/signing/timestamp.js';
+
+/**
+ * Upload keystore DTO (multipart form field next to the .p12 / .pfx file)
+ */
+export const uploadSigningKeystoreSchema = z.object({
+  password: z.string().max(256).default(''),
+});
+
+export type UploadSigningKeystoreDTO = z.infer<typeof uploadSigningKeystoreSchema>;
+
+/**
+ * X.509 certificate details shown to the organization
+ */
+export interface SigningCertificateSummary {
+  subject: string;
+  issuer: string;
+  serial_number: string;
+  not_before: string;
+  not_after: string;
+  fingerprint_sha256: string;
+}
+
+/**
+ * Organization signing certificate (key material excluded)
+ */
+export interface SigningCertificateEntity extends SigningCertificateSummary {
+  id: string;
+  organization_id: string;
+  created_by_user_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Encrypted keystore of an organization, read when signing
+ */
+export interface SigningKeystoreEntity extends SigningCertificateEntity {
+  keystore_encrypted: string;
+  password_encrypted: string;
+}
+
+/**
+ * Which certificate signs the organization's PDFs
+ * - organization: its uploaded certificate
+ * - platform: the platform certificate (PDF_SIGNING_KEYSTORE_PATH)
+ * - null: PDFs are not signed
+ */
+export interface SigningStatus {
+  source: 'organization' | 'platform' | null;
+  certificate: SigningCertificateSummary | null;
+  timestamping: boolean;
+}
+
+/**
+ * Key material and TSA used to sign an organization's PDFs
+ */
+export interface PdfSigner {
+  identity: SigningIdentity;
+  timestampClient?: TimestampClient;
+}
@@ -39,6 +39,8 @@ export class TemplateRepository {
         category_id,
         subcategory_id,
         latest_version_id,
+        locale,
+        timezone,
         created_by_user_id,
         created_at,
         updated_at,
@@ -127,6 +129,8 @@ export class TemplateRepository {
         category_id,
         subcategory_id,
         latest_version_id,
+        locale,
+        timezone,
         created_by_user_id,
         created_at,
         updated_at,
@@ -293,6 +297,14 @@ export class TemplateRepository {
       updateData.title = dto.name;
     }
 
+    // Locale and timezone for dates and numbers on certificates (null resets to en-US / UTC)
+    if (dto.locale !== undefined) {
+      updateData.locale = dto.locale;
+    }
+    if (dto.timezone !== undefined) {
+      updateData.timezone = dto.timezone;
+    }
+
     // Note: In new schema:
     // - fields are stored in certificate_template_fields (use updateFields endpoint)
     // - width/height are not stored on template (they're in the source file metadata)
@@ -517,6 +529,8 @@ export class TemplateRepository {
       created_at: row.created_at as string,
       updated_at: row.updated_at as string,
       deleted_at: row.deleted_at as string | null,
+      locale: null,
+      timezone: null,
     };
   }
 
@@ -581,6 +595,8 @@ export class TemplateRepository {
       created_at: row.created_at as string,
       updated_at: row.updated_at as string,
       deleted_at: row.deleted_at as string | null,
+      locale: (row.locale as string | null) ?? null,
+      timezone: (row.timezone as string | null) ?? null,
       // Add new schema fields as additional properties
       title: row.title as string,
       category_id: row.category_id as string,
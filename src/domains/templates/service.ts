@@ -11,6 +11,18 @@ import { getSupabaseClient } from '../../lib/supabase/client.js';
 import { getCachedSignedUrl, setCachedSignedUrl } from '../../lib/cache/signed-url-cache.js';
 import { validateFileUpload } from '../../lib/uploads/validator.js';
 import { generateSecureFilename } from '../../lib/uploads/filename.js';
+import { uuidSchema } from '../../lib/utils/validation.js';
+import { TEXT_OVERFLOW_MODES } from '../certificates/text-layout.js';
+import { IMAGE_FIT_MODES } from '../certificates/image-fit.js';
+import { IMAGE_SOURCES } from '../certificates/field-images.js';
+import {
+  BARCODE_ERROR_CORRECTION_LEVELS,
+  BARCODE_PAYLOADS,
+  BARCODE_SYMBOLOGIES,
+} from '../certificates/barcodes.js';
+import { ExpressionError, validateExpression } from '../certificates/expressions.js';
+import { getDateFormatError, isSupportedLocale, isValidTimeZone } from '../certificates/date-format.js';
+import { AssetRepository } from '../assets/repository.js';
 
 export class TemplateService {
   constructor(private readonly repository: TemplateRepository) {}
@@ -370,6 +382,19 @@ export class TemplateService {
     // Verify template exists
     await this.getById(id, organizationId);
 
+    if (dto.locale && !isSupportedLocale(dto.locale)) {
+      throw new ValidationError('locale must be a supported BCP 47 locale (e.g. en-US, fr, hi-IN)', {
+        field: 'locale',
+        locale: dto.locale,
+      });
+    }
+    if (dto.timezone && !isValidTimeZone(dto.timezone)) {
+      throw new ValidationError('timezone must be an IANA timezone (e.g. Asia/Kolkata)', {
+        field: 'timezone',
+        timezone: dto.timezone,
+      });
+    }
+
     return this.repository.update(id, organizationId, dto);
   }
 
@@ -1170,6 +1195,138 @@ export class TemplateService {
             style_size: styleSize,
           });
         }
+
+        // Validate text overflow settings
+        const { overflow, minFontSize, lineHeight } = field.style;
+        if (overflow !== undefined && !TEXT_OVERFLOW_MODES.includes(overflow as never)) {
+          throw new ValidationError(`style.overflow must be one of: ${TEXT_OVERFLOW_MODES.join(', ')}`, {
+            field: fieldPath,
+            overflow,
+          });
+        }
+        if (minFontSize !== undefined && (typeof minFontSize !== 'number' || minFontSize <= 0)) {
+          throw new ValidationError(`style.minFontSize must be a number > 0`, {
+            field: fieldPath,
+            minFontSize,
+          });
+        }
+        if (lineHeight !== undefined && (typeof lineHeight !== 'number' || lineHeight <= 0)) {
+          throw new ValidationError(`style.lineHeight must be a number > 0`, {
+            field: fieldPath,
+            lineHeight,
+          });
+        }
+
+        // Validate date formats (date-fns tokens)
+        for (const [key, direction] of [['dateFormat', 'output'], ['dateInputFormat', 'input']] as const) {
+          const pattern = field.style[key];
+          if (pattern === undefined) {
+            continue;
+          }
+          const formatError = typeof pattern === 'string' ? getDateFormatError(pattern, direction) : 'must be a string';
+          if (formatError) {
+            throw new ValidationError(`style.${key} is invalid: ${formatError}`, {
+              field: fieldPath,
+              [key]: pattern,
+            });
+          }
+        }
+
+        // Validate expressions now so mistakes surface at design time, not mid-batch
+        // Blank ones are ignored at render time (the field is drawn as usual), so accept them
+        for (const key of ['expression', 'condition'] as const) {
+          const source = field.style[key];
+          if (source === undefined) {
+            continue;
+          }
+          if (typeof source !== 'string') {
+            throw new ValidationError(`style.${key} must be a string`, {
+              field: fieldPath,
+              [key]: source,
+            });
+          }
+          if (!source.trim()) {
+            continue;
+          }
+          try {
+            validateExpression(source);
+          } catch (error) {
+            if (!(error instanceof ExpressionError)) {
+              throw error;
+            }
+            throw new ValidationError(`style.${key} is invalid: ${error.message}`, {
+              field: fieldPath,
+              [key]: source,
+              position: error.position ?? null,
+            });
+          }
+        }
+      }
+
+      // Validate image field settings (asset images must exist in the organization)
+      if (field.type === 'image') {
+        const { imageSource, assetFileId, imageFit } = field.style ?? {};
+        if (imageSource !== undefined && !IMAGE_SOURCES.includes(imageSource as never)) {
+          throw new ValidationError(`style.imageSource must be one of: ${IMAGE_SOURCES.join(', ')}`, {
+            field: fieldPath,
+            imageSource,
+          });
+        }
+        if (imageFit !== undefined && !IMAGE_FIT_MODES.includes(imageFit as never)) {
+          throw new ValidationError(`style.imageFit must be one of: ${IMAGE_FIT_MODES.join(', ')}`, {
+            field: fieldPath,
+            imageFit,
+          });
+        }
+        if (imageSource === 'asset') {
+          const asset = uuidSchema.safeParse(assetFileId).success
+            ? await new AssetRepository(getSupabaseClient()).findById(assetFileId as string, organizationId)
+            : null;
+          if (!asset) {
+            throw new ValidationError(`style.assetFileId must reference an asset of the organization`, {
+              field: fieldPath,
+              assetFileId: assetFileId ?? null,
+            });
+          }
+        }
+      }
+
+      // Validate barcode field settings
+      if (field.type === 'barcode') {
+        const { symbology = 'code128', barcodePayload, quietZone, errorCorrection } = field.style ?? {};
+        if (!BARCODE_SYMBOLOGIES.includes(symbology as never)) {
+          throw new ValidationError(`style.symbology must be one of: ${BARCODE_SYMBOLOGIES.join(', ')}`, {
+            field: fieldPath,
+            symbology,
+          });
+        }
+        if (barcodePayload !== undefined && !BARCODE_PAYLOADS.includes(barcodePayload as never)) {
+          throw new ValidationError(`style.barcodePayload must be one of: ${BARCODE_PAYLOADS.join(', ')}`, {
+            field: fieldPath,
+            barcodePayload,
+          });
+        }
+        if (quietZone !== undefined && (typeof quietZone !== 'number' || !Number.isInteger(quietZone) || quietZone < 0)) {
+          throw new ValidationError(`style.quietZone must be an integer >= 0 (modules)`, {
+            field: fieldPath,
+            quietZone,
+          });
+        }
+        if (errorCorrection !== undefined) {
+          const levels = BARCODE_ERROR_CORRECTION_LEVELS[symbology as keyof typeof BARCODE_ERROR_CORRECTION_LEVELS];
+          if (!levels) {
+            throw new ValidationError(`style.errorCorrection is not configurable for ${symbology}`, {
+              field: fieldPath,
+              errorCorrection,
+            });
+          }
+          if (!levels.includes(String(errorCorrection))) {
+            throw new ValidationError(`style.errorCorrection for ${symbology} must be one of: ${levels.join(', ')}`, {
+              field: fieldPath,
+              errorCorrection,
+            });
+          }
+        }
       }
     }
 
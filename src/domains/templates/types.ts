@@ -11,7 +11,7 @@ import { z } from 'zod';
  */
 export const certificateFieldSchema = z.object({
   id: z.string(),
-  type: z.enum(['name', 'course', 'date', 'start_date', 'end_date', 'custom', 'qr_code']),
+  type: z.enum(['name', 'course', 'date', 'start_date', 'end_date', 'custom', 'qr_code', 'image', 'barcode']),
   x: z.number(),
   y: z.number(),
   width: z.number(),
@@ -23,6 +23,20 @@ export const certificateFieldSchema = z.object({
   prefix: z.string().optional(),
   suffix: z.string().optional(),
   dateFormat: z.string().optional(),
+  // Format of date values in the data (date-fns tokens, e.g. dd/MM/yyyy, or 'excel'); detected when absent
+  dateInputFormat: z.string().optional(),
+  // Image fields: an organization asset or the image named by the mapped column
+  imageSource: z.enum(['asset', 'column']).optional(),
+  assetFileId: z.string().uuid().optional(),
+  imageFit: z.enum(['contain', 'cover']).optional(),
+  // Barcode fields: symbology, what to encode, quiet zone (modules) and error correction level
+  symbology: z.enum(['code128', 'datamatrix', 'pdf417', 'qrcode']).optional(),
+  barcodePayload: z.enum(['token', 'certificate_number', 'column']).optional(),
+  quietZone: z.number().int().min(0).optional(),
+  errorCorrection: z.string().optional(),
+  // Computed value and visibility condition (see certificates/expressions.ts)
+  expression: z.string().max(1000).optional(),
+  condition: z.string().max(1000).optional(),
 });
 
 export type CertificateField = z.infer<typeof certificateFieldSchema>;
@@ -62,6 +76,9 @@ export const updateTemplateSchema = z.object({
   fields: z.array(certificateFieldSchema).optional(),
   width: z.number().int().positive().optional(),
   height: z.number().int().positive().optional(),
+  // Dates and numbers on certificates: BCP 47 locale (e.g. 'fr', 'hi-IN') and IANA timezone
+  locale: z.string().min(2).max(35).nullable().optional(),
+  timezone: z.string().min(1).max(64).nullable().optional(),
 });
 
 export type UpdateTemplateDTO = z.infer<typeof updateTemplateSchema>;
@@ -87,6 +104,9 @@ export interface TemplateEntity {
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
+  // Dates and numbers on certificates (null: en-US, UTC)
+  locale: string | null;
+  timezone: string | null;
 }
 
 /**
@@ -95,7 +115,7 @@ export interface TemplateEntity {
 export const templateFieldDTOSchema = z.object({
   field_key: z.string().min(2).max(64).regex(/^[a-z0-9_]+$/, 'field_key must be lowercase alphanumeric with underscores only'),
   label: z.string().min(2).max(80),
-  type: z.enum(['text', 'date', 'qrcode', 'custom']),
+  type: z.enum(['text', 'date', 'qrcode', 'custom', 'image', 'barcode']),
   page_number: z.number().int().positive(),
   x: z.number().min(0),
   y: z.number().min(0),
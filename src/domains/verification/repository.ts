@@ -0,0 +1,226 @@
+/**
+ * BULK VERIFICATION REPOSITORY
+ *
+ * Data access layer for queued bulk verification jobs.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  BulkVerificationItem,
+  BulkVerificationItemResult,
+  BulkVerificationJobEntity,
+  BulkVerificationJobStatus,
+} from './types.js';
+
+const JOB_COLUMNS = `
+  id,
+  organization_id,
+  application_id,
+  status,
+  total_count,
+  processed_count,
+  valid_count,
+  report_path,
+  error,
+  created_at,
+  updated_at,
+  started_at,
+  completed_at
+`;
+
+export class BulkVerificationRepository {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  /**
+   * Queue a job
+   */
+  async create(organizationId: string, applicationId: string, items: BulkVerificationItem[]): Promise<BulkVerificationJobEntity> {
+    const { data, error } = await this.supabase
+      .from('bulk_verification_jobs')
+      .insert({
+        organization_id: organizationId,
+        application_id: applicationId,
+        status: 'queued',
+        items,
+        total_count: items.length,
+      } as any)
+      .select(JOB_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create bulk verification job: ${error?.message || 'Unknown error'}`);
+    }
+
+    return this.mapToEntity(data);
+  }
+
+  /**
+   * Find a job of the organization
+   */
+  async findById(id: string, organizationId: string): Promise<BulkVerificationJobEntity | null> {
+    const { data, error } = await this.supabase
+      .from('bulk_verification_jobs')
+      .select(JOB_COLUMNS)
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get bulk verification job: ${error.message}`);
+    }
+
+    return data ? this.mapToEntity(data) : null;
+  }
+
+  /**
+   * Items submitted with a job, and the results of those processed so far
+   */
+  async findItems(id: string): Promise<{ items: BulkVerificationItem[]; results: BulkVerificationItemResult[] }> {
+    const { data, error } = await this.supabase
+      .from('bulk_verification_jobs')
+      .select('items, results')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to get bulk verification items: ${error?.message || 'Unknown error'}`);
+    }
+
+    const row = data as { items: BulkVerificationItem[] | null; results: BulkVerificationItemResult[] | null };
+    return { items: row.items ?? [], results: row.results ?? [] };
+  }
+
+  /**
+   * Atomically claim the oldest queued job ('queued' → 'running')
+   */
+  async claimNextQueuedJob(): Promise<BulkVerificationJobEntity | null> {
+    const { data: candidates, error } = await this.supabase
+      .from('bulk_verification_jobs')
+      .select('id')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(5);
+
+    if (error) {
+      throw new Error(`Failed to find queued bulk verification jobs: ${error.message}`);
+    }
+
+    for (const candidate of (candidates ?? []) as Array<{ id: string }>) {
+      const now = new Date().toISOString();
+      const { data: claimed, error: claimError } = await this.supabase
+        .from('bulk_verification_jobs')
+        .update({ status: 'running', started_at: now, updated_at: now } as any)
+        .eq('id', candidate.id)
+        .eq('status', 'queued')
+        .select(JOB_COLUMNS)
+        .maybeSingle();
+
+      if (claimError) {
+        throw new Error(`Failed to claim bulk verification job: ${claimError.message}`);
+      }
+
+      if (claimed) {
+        return this.mapToEntity(claimed);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reclaim a running job whose heartbeat is older than staleBefore
+   */
+  async reclaimStaleJob(staleBefore: string): Promise<BulkVerificationJobEntity | null> {
+    const { data: candidates, error } = await this.supabase
+      .from('bulk_verification_jobs')
+      .select('id, updated_at')
+      .eq('status', 'running')
+      .lt('updated_at', staleBefore)
+      .order('updated_at', { ascending: true })
+      .limit(5);
+
+    if (error) {
+      throw new Error(`Failed to find stale bulk verification jobs: ${error.message}`);
+    }
+
+    for (const candidate of (candidates ?? []) as Array<{ id: string; updated_at: string }>) {
+      const { data: claimed, error: claimError } = await this.supabase
+        .from('bulk_verification_jobs')
+        .update({ updated_at: new Date().toISOString() } as any)
+        .eq('id', candidate.id)
+        .eq('status', 'running')
+        .eq('updated_at', candidate.updated_at)
+        .select(JOB_COLUMNS)
+        .maybeSingle();
+
+      if (claimError) {
+        throw new Error(`Failed to reclaim bulk verification job: ${claimError.message}`);
+      }
+
+      if (claimed) {
+        return this.mapToEntity(claimed);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Update job progress or outcome, only while the caller still holds the job
+   *
+   * The job must be 'running' with the heartbeat (updated_at) the caller last
+   * wrote, so a worker whose job was reclaimed as stale, or that lost a race,
+   * stops instead of overwriting the new holder's progress.
+   *
+   * @returns the new heartbeat, or null if the job is no longer held
+   */
+  async updateIfHeld(
+    id: string,
+    heartbeat: string,
+    updates: Partial<{
+      status: BulkVerificationJobStatus;
+      processed_count: number;
+      valid_count: number;
+      results: BulkVerificationItemResult[];
+      report_path: string;
+      error: string | null;
+      completed_at: string;
+    }>
+  ): Promise<string | null> {
+    const updatedAt = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('bulk_verification_jobs')
+      .update({ ...updates, updated_at: updatedAt } as any)
+      .eq('id', id)
+      .eq('status', 'running')
+      .eq('updated_at', heartbeat)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update bulk verification job: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0 ? updatedAt : null;
+  }
+
+  /**
+   * Map database row to entity
+   */
+  private mapToEntity(row: Record<string, unknown>): BulkVerificationJobEntity {
+    return {
+      id: row.id as string,
+      organization_id: row.organization_id as string,
+      application_id: row.application_id as string,
+      status: row.status as BulkVerificationJobStatus,
+      total_count: row.total_count as number,
+      processed_count: (row.processed_count as number) ?? 0,
+      valid_count: (row.valid_count as number) ?? 0,
+      report_path: (row.report_path as string | null) ?? null,
+      error: (row.error as string | null) ?? null,
+      created_at: row.created_at as string,
+      updated_at: row.updated_at as string,
+      started_at: (row.started_at as string | null) ?? null,
+      completed_at: (row.completed_at as string | null) ?? null,
+    };
+  }
+}
@@ -5,7 +5,34 @@
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { VerificationResult } from './types.js';
+import {
+  BULK_VERIFICATION_SYNC_LIMIT,
+  VERIFIABLE_FILE_TYPES,
+  type BulkVerificationItem,
+  type BulkVerificationItemResult,
+  type BulkVerificationJobDetail,
+  type BulkVerificationJobEntity,
+  type BulkVerificationResponse,
+  type BulkVerifyDTO,
+  type NumberVerificationResult,
+  type VerificationMethod,
+  type VerificationRequestInfo,
+  type VerificationResult,
+  type VerifyByNumberDTO,
+} from './types.js';
+import { BulkVerificationRepository } from './repository.js';
+import { CredentialRepository } from '../credentials/repository.js';
+import { CredentialService } from '../credentials/service.js';
+import { readCertificateMetadata } from '../certificates/pdf-archival.js';
+import { parseDateValue } from '../certificates/date-format.js';
+import { validateFileUpload } from '../../lib/uploads/validator.js';
+import { computeSHA256 } from '../../lib/uploads/checksum.js';
+import { NotFoundError } from '../../lib/errors/handler.js';
+
+/**
+ * Signed bulk verification report URL validity (seconds)
+ */
+const REPORT_URL_EXPIRY = 3600;
 
 export class VerificationService {
   constructor(private readonly supabase: SupabaseClient) {}
@@ -18,10 +45,7 @@ export class VerificationService {
    */
   async verifyCertificate(
     token: string,
-    requestInfo?: {
-      ip?: string;
-      userAgent?: string;
-    }
+    requestInfo?: VerificationRequestInfo
   ): Promise<VerificationResult> {
     // Try enhanced RPC function first, fallback to original
     let data: any;
@@ -68,8 +92,11 @@ export class VerificationService {
       await this.logVerification({
         certificate_id: cert.certificate_id,
         result,
+        method: requestInfo?.method ?? 'token',
         verifier_ip: requestInfo?.ip ?? null,
         verifier_user_agent: requestInfo?.userAgent ?? null,
+        verifier_organization_id: requestInfo?.verifierOrganizationId ?? null,
+        bulk_verification_job_id: requestInfo?.bulkJobId ?? null,
       });
     }
 
@@ -102,9 +129,16 @@ export class VerificationService {
     // Build enhanced response
     const response: VerificationResult = {
       valid: result === 'valid',
-      result: result as 'valid' | 'revoked' | 'expired' | 'not_found',
+      result: result as VerificationResult['result'],
       message: this.getVerificationMessage(result),
 
+      // Replacement of a reissued certificate
+      superseded_by: cert.superseded_by_certificate_id ? {
+        certificate_id: cert.superseded_by_certificate_id,
+        certificate_number: cert.superseded_by_certificate_number || '',
+        verification_path: cert.superseded_by_verification_path || null,
+      } : undefined,
+
       // Enhanced certificate details
       certificate: cert.certificate_id ? {
         id: cert.certificate_id,
@@ -146,14 +180,463 @@ export class VerificationService {
     return response;
   }
 
+  /**
+   * Verify certificate by its Open Badges credential (VC-JWT)
+   *
+   * Checks the credential's signature against the issuer's keys, then verifies
+   * the certificate it was issued for like its verification token.
+   */
+  async verifyCredential(
+    credential: string,
+    requestInfo?: {
+      ip?: string;
+      userAgent?: string;
+    }
+  ): Promise<VerificationResult> {
+    const check = await new CredentialService(new CredentialRepository(this.supabase)).checkCredential(credential);
+
+    if (!check.valid) {
+      return {
+        valid: false,
+        result: 'invalid_credential',
+        message: check.reason,
+      };
+    }
+
+    return this.verifyCertificate(check.verificationToken, { ...requestInfo, method: 'credential' });
+  }
+
+  /**
+   * Verify certificate by its signed QR payload
+   *
+   * Checks the payload's signature against the issuer's keys (as an offline
+   * verifier app does), then verifies the certificate it was signed for online.
+   */
+  async verifyQrPayload(
+    payload: string,
+    requestInfo?: VerificationRequestInfo
+  ): Promise<VerificationResult> {
+    const check = await new CredentialService(new CredentialRepository(this.supabase)).checkQrPayload(payload);
+
+    if (!check.valid) {
+      return {
+        valid: false,
+        result: 'invalid_payload',
+        message: check.reason,
+      };
+    }
+
+    const { data, error } = await this.supabase
+      .from('certificates')
+      .select('verification_path')
+      .eq('organization_id', check.organizationId)
+      .eq('certificate_number', check.certificateNumber)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up certificate: ${error.message}`);
+    }
+
+    const path = (data as { verification_path: string | null } | null)?.verification_path;
+    const token = path ? this.extractToken(path) : null;
+
+    if (!token) {
+      return {
+        valid: false,
+        result: 'not_found',
+        message: 'Certificate not found',
+      };
+    }
+
+    return this.verifyCertificate(token, { ...requestInfo, method: 'signed_qr' });
+  }
+
+  /**
+   * Verify certificate by its file (PDF or image)
+   *
+   * The file's SHA-256 is matched against the checksums stored when
+   * certificate files are generated, so only the exact issued file verifies.
+   * A PDF that does not match but still carries a certificate's metadata
+   * (see pdf-archival.ts) is reported as 'modified', with that certificate's details.
+   *
+   * @throws ValidationError when the file is not a PDF or supported image
+   */
+  async verifyFile(
+    file: { buffer: Buffer; mimetype: string },
+    requestInfo?: {
+      ip?: string;
+      userAgent?: string;
+    }
+  ): Promise<VerificationResult> {
+    const { detectedType } = await validateFileUpload(file.buffer, file.mimetype, VERIFIABLE_FILE_TYPES);
+    const checksum = computeSHA256(file.buffer);
+
+    const token = await this.findTokenByChecksum(checksum);
+    if (token) {
+      return this.verifyCertificate(token, { ...requestInfo, method: 'file' });
+    }
+
+    const metadata = detectedType === 'application/pdf'
+      ? await readCertificateMetadata(file.buffer)
+      : null;
+    const claimedToken = metadata?.verificationUrl ? this.extractToken(metadata.verificationUrl) : null;
+
+    if (claimedToken) {
+      const claimed = await this.verifyCertificate(claimedToken, { ...requestInfo, method: 'file' });
+
+      if (claimed.result !== 'not_found') {
+        return {
+          ...claimed,
+          valid: false,
+          result: 'modified',
+          message: this.getVerificationMessage('modified'),
+        };
+      }
+    }
+
+    return {
+      valid: false,
+      result: 'not_found',
+      message: 'No certificate matches this file',
+    };
+  }
+
+  /**
+   * Verify certificate by its number and a second factor (public lookup)
+   *
+   * For printed copies whose QR code cannot be scanned. The recipient's last
+   * name or date of birth must match; otherwise the answer is the same as for
+   * an unknown number, so lookups do not reveal which numbers exist.
+   * Mismatches are logged against the certificates with that number.
+   */
+  async verifyByNumber(
+    dto: VerifyByNumberDTO,
+    requestInfo?: VerificationRequestInfo
+  ): Promise<NumberVerificationResult> {
+    const { data, error } = await this.supabase
+      .from('certificates')
+      .select('id, recipient_name, recipient_data, verification_path')
+      .eq('certificate_number', dto.certificate_number)
+      .limit(10);
+
+    if (error) {
+      throw new Error(`Failed to look up certificate number: ${error.message}`);
+    }
+
+    // Numbers are unique per organization only
+    const candidates = (data ?? []) as Array<{
+      id: string;
+      recipient_name: string;
+      recipient_data: Record<string, unknown> | null;
+      verification_path: string | null;
+    }>;
+
+    const matches = candidates.filter((candidate) => dto.last_name
+      ? matchesLastName(candidate.recipient_name, dto.last_name)
+      : matchesDateOfBirth(candidate.recipient_data, dto.date_of_birth!));
+
+    const token = matches.length === 1 && matches[0]!.verification_path
+      ? this.extractToken(matches[0]!.verification_path)
+      : null;
+
+    if (!token) {
+      if (matches.length === 0) {
+        for (const candidate of candidates) {
+          await this.logVerification({
+            certificate_id: candidate.id,
+            result: 'second_factor_mismatch',
+            method: 'certificate_number',
+            verifier_ip: requestInfo?.ip ?? null,
+            verifier_user_agent: requestInfo?.userAgent ?? null,
+            verifier_organization_id: requestInfo?.verifierOrganizationId ?? null,
+            bulk_verification_job_id: requestInfo?.bulkJobId ?? null,
+          });
+        }
+      }
+
+      return {
+        valid: false,
+        result: 'not_found',
+        message: `No certificate matches this number and ${dto.last_name ? 'last name' : 'date of birth'}`,
+      };
+    }
+
+    const result = await this.verifyCertificate(token, { ...requestInfo, method: 'certificate_number' });
+
+    return this.toNumberResult(result);
+  }
+
+  /**
+   * Verify a batch of tokens and certificate numbers for an API client
+   *
+   * Up to BULK_VERIFICATION_SYNC_LIMIT items are answered in the request;
+   * larger batches (or async: true) are queued for the bulk verification
+   * worker, whose results are downloadable as a CSV report.
+   * Every item that resolves to a certificate is logged as a verification
+   * event attributed to the client's organization.
+   */
+  async verifyBulk(
+    client: { organizationId: string; applicationId: string },
+    dto: BulkVerifyDTO,
+    requestInfo?: VerificationRequestInfo
+  ): Promise<BulkVerificationResponse> {
+    if (dto.async || dto.items.length > BULK_VERIFICATION_SYNC_LIMIT) {
+      const job = await new BulkVerificationRepository(this.supabase)
+        .create(client.organizationId, client.applicationId, dto.items);
+
+      console.log('[VerificationService] Bulk verification queued:', {
+        job_id: job.id,
+        organization_id: client.organizationId,
+        total: job.total_count,
+      });
+
+      return { status: 'queued', job: await this.toBulkJobDetail(job) };
+    }
+
+    const results: BulkVerificationItemResult[] = [];
+    for (const [index, item] of dto.items.entries()) {
+      results.push(await this.verifyItem(item, index, {
+        ...requestInfo,
+        verifierOrganizationId: client.organizationId,
+      }));
+    }
+
+    return {
+      status: 'completed',
+      total_count: results.length,
+      valid_count: results.filter((result) => result.valid).length,
+      results,
+    };
+  }
+
+  /**
+   * Bulk verification job status, with its report URL once completed
+   */
+  async getBulkJob(jobId: string, organizationId: string): Promise<BulkVerificationJobDetail> {
+    const job = await new BulkVerificationRepository(this.supabase).findById(jobId, organizationId);
+
+    if (!job) {
+      throw new NotFoundError('Bulk verification job not found');
+    }
+
+    return this.toBulkJobDetail(job);
+  }
+
+  /**
+   * Process a claimed bulk verification job (worker)
+   *
+   * Each item's result is saved as soon as it is verified, so a resumed job
+   * continues after the last saved item without logging its events again.
+   * Stops without writing once the job is no longer held (reclaimed as stale).
+   */
+  async processBulkJob(job: BulkVerificationJobEntity): Promise<void> {
+    const repository = new BulkVerificationRepository(this.supabase);
+    let heartbeat: string | null = job.updated_at;
+
+    try {
+      const { items, results } = await repository.findItems(job.id);
+      let validCount = results.filter((result) => result.valid).length;
+
+      for (const [index, item] of items.entries()) {
+        if (index < results.length) {
+          continue;
+        }
+
+        const result = await this.verifyItem(item, index, {
+          verifierOrganizationId: job.organization_id,
+          bulkJobId: job.id,
+        });
+        results.push(result);
+        if (result.valid) {
+          validCount++;
+        }
+
+        heartbeat = await repository.updateIfHeld(job.id, heartbeat, {
+          processed_count: results.length,
+          valid_count: validCount,
+          results,
+        });
+
+        if (!heartbeat) {
+          console.log('[VerificationService] Bulk verification job no longer held, stopping:', job.id);
+          return;
+        }
+      }
+
+      const reportPath = this.getBulkReportPath(job.organization_id, job.id);
+      const { error: uploadError } = await this.supabase.storage
+        .from('authentix')
+        .upload(reportPath, Buffer.from(toCsvReport(results), 'utf8'), {
+          contentType: 'text/csv',
+          upsert: true,
+        });
+
+      if (uploadError) {
+        throw new Error(`Failed to upload bulk verification report: ${uploadError.message}`);
+      }
+
+      heartbeat = await repository.updateIfHeld(job.id, heartbeat, {
+        status: 'completed',
+        processed_count: results.length,
+        valid_count: validCount,
+        report_path: reportPath,
+        error: null,
+        completed_at: new Date().toISOString(),
+      });
+
+      if (!heartbeat) {
+        console.log('[VerificationService] Bulk verification job no longer held, not completing:', job.id);
+      }
+    } catch (error) {
+      if (heartbeat) {
+        await repository.updateIfHeld(job.id, heartbeat, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Bulk verification failed',
+          completed_at: new Date().toISOString(),
+        }).catch((updateError) => {
+          console.error('[VerificationService] Failed to mark bulk verification job as failed:', updateError);
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Verify one bulk item by token or by certificate number and second factor
+   */
+  private async verifyItem(
+    item: BulkVerificationItem,
+    index: number,
+    requestInfo: VerificationRequestInfo
+  ): Promise<BulkVerificationItemResult> {
+    const result = item.token
+      ? this.toNumberResult(await this.verifyCertificate(item.token, { ...requestInfo, method: 'token' }))
+      : await this.verifyByNumber({
+        certificate_number: item.certificate_number!,
+        last_name: item.last_name,
+        date_of_birth: item.date_of_birth,
+      }, requestInfo);
+
+    return {
+      index,
+      reference: item.reference ?? null,
+      token: item.token ?? null,
+      certificate_number: item.certificate_number ?? null,
+      ...result,
+    };
+  }
+
+  private async toBulkJobDetail(job: BulkVerificationJobEntity): Promise<BulkVerificationJobDetail> {
+    let reportUrl: string | null = null;
+
+    if (job.status === 'completed' && job.report_path) {
+      const { data } = await this.supabase.storage
+        .from('authentix')
+        .createSignedUrl(job.report_path, REPORT_URL_EXPIRY);
+      reportUrl = data?.signedUrl ?? null;
+    }
+
+    return {
+      job_id: job.id,
+      status: job.status,
+      total_count: job.total_count,
+      processed_count: job.processed_count,
+      valid_count: job.valid_count,
+      error: job.error,
+      created_at: job.created_at,
+      completed_at: job.completed_at,
+      report_url: reportUrl,
+      report_url_expires_at: reportUrl
+        ? new Date(Date.now() + REPORT_URL_EXPIRY * 1000).toISOString()
+        : null,
+    };
+  }
+
+  private getBulkReportPath(organizationId: string, jobId: string): string {
+    return `exports/${organizationId}/verifications/${jobId}.csv`;
+  }
+
+  /**
+   * Reduce a verification result to what a certificate number lookup returns
+   */
+  private toNumberResult(result: VerificationResult): NumberVerificationResult {
+    return {
+      valid: result.valid,
+      result: result.result,
+      message: result.message,
+      superseded_by: result.superseded_by
+        ? { certificate_number: result.superseded_by.certificate_number }
+        : undefined,
+      certificate: result.certificate
+        ? {
+          certificate_number: result.certificate.certificate_number,
+          recipient_name: result.certificate.recipient_name,
+          category_name: result.certificate.category_name,
+          subcategory_name: result.certificate.subcategory_name,
+          issued_at: result.certificate.issued_at,
+          expires_at: result.certificate.expires_at,
+          status: result.certificate.status,
+          revoked_at: result.certificate.revoked_at,
+          revoked_reason: result.certificate.revoked_reason,
+        }
+        : undefined,
+      organization: result.organization,
+    };
+  }
+
+  /**
+   * Verification token of the certificate whose issued file has this checksum
+   */
+  private async findTokenByChecksum(checksum: string): Promise<string | null> {
+    const { data: files, error: filesError } = await this.supabase
+      .from('files')
+      .select('id')
+      .eq('checksum_sha256', checksum)
+      .eq('kind', 'certificate_pdf')
+      .limit(10);
+
+    if (filesError) {
+      throw new Error(`Failed to look up file checksum: ${filesError.message}`);
+    }
+
+    const fileIds = (files ?? []).map((row: { id: string }) => row.id);
+    if (fileIds.length === 0) {
+      return null;
+    }
+
+    const { data: certificate, error: certificateError } = await this.supabase
+      .from('certificates')
+      .select('verification_path')
+      .in('certificate_file_id', fileIds)
+      .limit(1)
+      .maybeSingle();
+
+    if (certificateError) {
+      throw new Error(`Failed to look up certificate: ${certificateError.message}`);
+    }
+
+    const path = (certificate as { verification_path: string | null } | null)?.verification_path;
+    return path ? this.extractToken(path) : null;
+  }
+
+  /**
+   * Token of a verification URL or path (.../verify/<token>)
+   */
+  private extractToken(urlOrPath: string): string | null {
+    return /\/verify\/([^/?#]+)$/.exec(urlOrPath)?.[1] ?? null;
+  }
+
   /**
    * Log verification attempt
    */
   private async logVerification(log: {
     certificate_id: string;
     result: string;
+    method: VerificationMethod;
     verifier_ip: string | null;
     verifier_user_agent: string | null;
+    verifier_organization_id?: string | null;
+    bulk_verification_job_id?: string | null;
   }): Promise<void> {
     // Get organization_id from certificate
     const { data: cert } = await this.supabase
@@ -170,8 +653,11 @@ export class VerificationService {
       organization_id: cert.organization_id,
       certificate_id: log.certificate_id,
       result: log.result,
+      method: log.method,
       ip_hash: log.verifier_ip,
       user_agent: log.verifier_user_agent,
+      ...(log.verifier_organization_id ? { verifier_organization_id: log.verifier_organization_id } : {}),
+      ...(log.bulk_verification_job_id ? { bulk_verification_job_id: log.bulk_verification_job_id } : {}),
       scanned_at: new Date().toISOString(),
     });
   }
@@ -184,9 +670,118 @@ export class VerificationService {
       valid: 'This certificate is valid and authentic',
       revoked: 'This certificate has been revoked',
       expired: 'This certificate has expired',
+      superseded: 'This certificate has been replaced by a corrected certificate',
       not_found: 'Certificate not found or invalid token',
+      modified: 'This file has been modified since the certificate was issued; it is not the original certificate file',
     };
 
     return messages[result] ?? 'Unknown verification result';
   }
 }
+
+/**
+ * Column names holding a recipient's date of birth in row data
+ */
+const DATE_OF_BIRTH_KEYS = ['Date of Birth', 'date_of_birth', 'DOB', 'dob', 'Birth Date', 'birth_date', 'Birthdate', 'birthdate'];
+
+/**
+ * Numeric dates with day and month in either order (15/01/1990, 01-15-1990, 15.01.1990)
+ */
+const NUMERIC_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/;
+
+/**
+ * Whether a name ends with the given last name (case, accents and punctuation ignored)
+ * Multi-word last names ("van der Berg") match as a whole.
+ */
+function matchesLastName(recipientName: string, lastName: string): boolean {
+  const name = normalizeName(recipientName);
+  const surname = normalizeName(lastName);
+
+  return surname.length >= 2 && (name === surname || name.endsWith(` ${surname}`));
+}
+
+function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Whether the row data's date of birth is the given date (YYYY-MM-DD)
+ */
+function matchesDateOfBirth(recipientData: Record<string, unknown> | null, dateOfBirth: string): boolean {
+  const key = DATE_OF_BIRTH_KEYS.find((candidate) => recipientData?.[candidate] !== undefined && recipientData[candidate] !== '');
+  return key ? toCalendarDate(String(recipientData![key])) === dateOfBirth : false;
+}
+
+/**
+ * A stored date of birth as YYYY-MM-DD, or null when it cannot be read unambiguously
+ *
+ * Row data keeps the imported text, not the template's input format, so numeric
+ * dates are only read when day and month cannot be swapped (15/01/1990) and
+ * have a four-digit year; 01/02/1990 matches no date.
+ */
+function toCalendarDate(value: string): string | null {
+  const numeric = NUMERIC_DATE.exec(value.trim());
+
+  if (numeric) {
+    const [first, second, year] = numeric.slice(1).map(Number) as [number, number, number];
+    if (numeric[3]!.length !== 4 || (first !== second && first <= 12 && second <= 12)) {
+      return null;
+    }
+
+    const [month, day] = first > 12 ? [second, first] : [first, second];
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+      ? `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+      : null;
+  }
+
+  const date = parseDateValue(value);
+
+  if (!date) {
+    return null;
+  }
+
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * CSV report of a bulk verification, one line per item in submission order
+ */
+function toCsvReport(results: BulkVerificationItemResult[]): string {
+  const header = [
+    'index', 'reference', 'token', 'certificate_number', 'result', 'valid', 'message',
+    'recipient_name', 'certificate_status', 'issued_at', 'expires_at', 'organization_name',
+  ];
+
+  const lines = results.map((result) => [
+    String(result.index),
+    result.reference ?? '',
+    result.token ?? '',
+    result.certificate_number ?? '',
+    result.result,
+    result.valid ? 'true' : 'false',
+    result.message,
+    result.certificate?.recipient_name ?? '',
+    result.certificate?.status ?? '',
+    result.certificate?.issued_at ?? '',
+    result.certificate?.expires_at ?? '',
+    result.organization?.name ?? '',
+  ].map(toCsvCell).join(','));
+
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+/**
+ * Quote a CSV cell; values starting like a formula are prefixed so spreadsheets show them as text
+ */
+function toCsvCell(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -5,24 +5,112 @@
  */
 
 import { z } from 'zod';
+import { credentialSchema } from '../credentials/types.js';
 
 /**
  * Verify certificate request DTO
+ * - token: verification token from the QR code / verification URL
+ * - credential: Open Badges credential (VC-JWT) issued with the certificate
+ * - payload: signed QR payload, or the whole QR text carrying it (see lib/credentials/qr-payload.ts)
  */
 export const verifyCertificateSchema = z.object({
-  token: z.string().min(1),
+  token: z.string().min(1).optional(),
+  credential: credentialSchema.optional(),
+  payload: z.string().trim().min(1).max(2048).optional(),
+}).refine((body) => [body.token, body.credential, body.payload].filter(Boolean).length === 1, {
+  message: 'Provide one of token, credential or payload',
 });
 
 export type VerifyCertificateDTO = z.infer<typeof verifyCertificateSchema>;
 
+/**
+ * Verify by certificate number request DTO (public lookup for printed copies)
+ * A second factor is required: the recipient's last name or date of birth (YYYY-MM-DD).
+ */
+export const verifyByNumberSchema = z.object({
+  certificate_number: z.string().trim().min(1).max(100),
+  last_name: z.string().trim().min(2).max(100).optional(),
+  date_of_birth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date_of_birth must be YYYY-MM-DD').optional(),
+}).refine((body) => Boolean(body.last_name) !== Boolean(body.date_of_birth), {
+  message: 'Provide either last_name or date_of_birth',
+});
+
+export type VerifyByNumberDTO = z.infer<typeof verifyByNumberSchema>;
+
+/**
+ * Item of a bulk verification: a verification token, or a certificate number
+ * with the same second factor as the public lookup
+ */
+export const bulkVerificationItemSchema = z.object({
+  token: z.string().trim().min(1).max(200).optional(),
+  certificate_number: z.string().trim().min(1).max(100).optional(),
+  last_name: z.string().trim().min(2).max(100).optional(),
+  date_of_birth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date_of_birth must be YYYY-MM-DD').optional(),
+  // Caller's own identifier (e.g. candidate ID), echoed in results and the report
+  reference: z.string().trim().max(200).optional(),
+}).refine((item) => Boolean(item.token) !== Boolean(item.certificate_number), {
+  message: 'Provide either token or certificate_number',
+}).refine((item) => !item.certificate_number || Boolean(item.last_name) !== Boolean(item.date_of_birth), {
+  message: 'certificate_number requires either last_name or date_of_birth',
+});
+
+export type BulkVerificationItem = z.infer<typeof bulkVerificationItemSchema>;
+
+/**
+ * Bulk verification request DTO (API key clients)
+ * Batches over BULK_VERIFICATION_SYNC_LIMIT items, or with async: true, are queued.
+ */
+export const bulkVerifySchema = z.object({
+  items: z.array(bulkVerificationItemSchema).min(1).max(500),
+  async: z.boolean().default(false),
+});
+
+export type BulkVerifyDTO = z.infer<typeof bulkVerifySchema>;
+
+/**
+ * Largest batch answered in the request
+ */
+export const BULK_VERIFICATION_SYNC_LIMIT = 50;
+
+/**
+ * How a certificate was verified (certificate_verification_events.method)
+ */
+export type VerificationMethod = 'token' | 'credential' | 'file' | 'certificate_number' | 'signed_qr';
+
+/**
+ * Who asked for a verification, recorded on its verification event
+ */
+export interface VerificationRequestInfo {
+  ip?: string;
+  userAgent?: string;
+  method?: VerificationMethod;
+  /** Organization of the API client (bulk verification) */
+  verifierOrganizationId?: string;
+  bulkJobId?: string;
+}
+
+/**
+ * File types accepted by file verification (certificates are PDFs or template-format images)
+ */
+export const VERIFIABLE_FILE_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'] as const;
+
 /**
  * Verification result - Enhanced with full certificate and organization details
+ * 'modified': an uploaded file names a certificate but is not the file issued for it
+ * 'invalid_payload': a signed QR payload is malformed or its signature does not verify
  */
 export interface VerificationResult {
   valid: boolean;
-  result: 'valid' | 'revoked' | 'expired' | 'not_found';
+  result: 'valid' | 'revoked' | 'expired' | 'superseded' | 'not_found' | 'invalid_credential' | 'modified' | 'invalid_payload';
   message: string;
 
+  // Replacement certificate (only present when result is 'superseded')
+  superseded_by?: {
+    certificate_id: string;
+    certificate_number: string;
+    verification_path: string | null;
+  };
+
   // Certificate details (only present if found)
   certificate?: {
     id: string;
@@ -61,6 +149,74 @@ export interface VerificationResult {
   company_logo?: string | null;
 }
 
+/**
+ * Verification result of a certificate number lookup
+ * Leaves out what a number and a surname should not reveal: certificate ID,
+ * recipient email, preview and the replacement certificate's verification path.
+ */
+export type NumberVerificationResult = Pick<VerificationResult, 'valid' | 'result' | 'message' | 'organization'> & {
+  certificate?: Omit<NonNullable<VerificationResult['certificate']>, 'id' | 'recipient_email'>;
+  superseded_by?: { certificate_number: string };
+};
+
+/**
+ * Result of one bulk verification item (same details as a certificate number lookup)
+ */
+export type BulkVerificationItemResult = NumberVerificationResult & {
+  index: number;
+  reference: string | null;
+  token: string | null;
+  certificate_number: string | null;
+};
+
+/**
+ * Bulk verification job status
+ */
+export type BulkVerificationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Bulk verification job entity (items excluded)
+ */
+export interface BulkVerificationJobEntity {
+  id: string;
+  organization_id: string;
+  application_id: string;
+  status: BulkVerificationJobStatus;
+  total_count: number;
+  processed_count: number;
+  valid_count: number;
+  report_path: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+/**
+ * Bulk verification job as shown to the API client
+ */
+export interface BulkVerificationJobDetail {
+  job_id: string;
+  status: BulkVerificationJobStatus;
+  total_count: number;
+  processed_count: number;
+  valid_count: number;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+  /** Signed CSV report URL (completed jobs only) */
+  report_url: string | null;
+  report_url_expires_at: string | null;
+}
+
+/**
+ * Bulk verification response: results in the request, or a queued job
+ */
+export type BulkVerificationResponse =
+  | { status: 'completed'; total_count: number; valid_count: number; results: BulkVerificationItemResult[] }
+  | { status: 'queued'; job: BulkVerificationJobDetail };
+
 /**
  * Verification log entity
  */
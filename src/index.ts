@@ -7,6 +7,10 @@
 
 import 'dotenv/config';
 import { buildApp } from './server/app.js';
+import { config } from './lib/config/env.js';
+import { startGenerationWorker } from './jobs/generation-worker.js';
+import { startExpirySweeper } from './jobs/expiry-sweeper.js';
+import { startBulkVerificationWorker } from './jobs/bulk-verification-worker.js';
 
 // Build app instance (singleton)
 const appPromise = buildApp();
@@ -24,6 +28,24 @@ const start = async () => {
     const port = Number(process.env.PORT) || 3001;
     const host = process.env.HOST || '0.0.0.0';
 
+    // Long-running process: process queued generation jobs in the background
+    if (config.GENERATION_WORKER_ENABLED) {
+      const stopWorker = startGenerationWorker(app.log);
+      app.addHook('onClose', async () => stopWorker());
+    }
+
+    // Long-running process: process queued bulk verifications in the background
+    if (config.BULK_VERIFICATION_WORKER_ENABLED) {
+      const stopBulkWorker = startBulkVerificationWorker(app.log);
+      app.addHook('onClose', async () => stopBulkWorker());
+    }
+
+    // Long-running process: transition certificates past expires_at to 'expired'
+    if (config.EXPIRY_SWEEPER_ENABLED) {
+      const stopSweeper = startExpirySweeper(app.log);
+      app.addHook('onClose', async () => stopSweeper());
+    }
+
     await app.listen({ port, host });
     console.log(`🚀 Authentix Backend running on http://${host}:${port}`);
   } catch (err) {
@@ -0,0 +1,101 @@
+/**
+ * BULK VERIFICATION WORKER
+ *
+ * Background processor for queued bulk verification jobs (POST /verification/bulk).
+ *
+ * - Polls bulk_verification_jobs for the oldest 'queued' job
+ * - Claims it atomically ('queued' → 'running') so concurrent workers never share a job
+ * - Resumes 'running' jobs whose heartbeat (updated_at) is older than STALE_JOB_TIMEOUT
+ * - Processes one job at a time per process
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import { config } from '../lib/config/env.js';
+import { getSupabaseClient } from '../lib/supabase/client.js';
+import { BulkVerificationRepository } from '../domains/verification/repository.js';
+import { VerificationService } from '../domains/verification/service.js';
+import type { BulkVerificationJobEntity } from '../domains/verification/types.js';
+
+/**
+ * Seconds without progress before a running job is resumed
+ * Jobs report progress after every item
+ */
+const STALE_JOB_TIMEOUT = 300;
+
+/**
+ * Claim and process a single job, if one is available
+ *
+ * @returns true if a job was processed (the caller may poll again immediately)
+ */
+export async function runBulkVerificationWorkerOnce(logger: FastifyBaseLogger): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  const repository = new BulkVerificationRepository(supabase);
+
+  let job: BulkVerificationJobEntity | null = await repository.claimNextQueuedJob();
+
+  if (!job) {
+    const staleBefore = new Date(Date.now() - STALE_JOB_TIMEOUT * 1000).toISOString();
+    job = await repository.reclaimStaleJob(staleBefore);
+
+    if (job) {
+      logger.warn({ jobId: job.id, lastHeartbeat: job.updated_at }, '[BulkVerificationWorker] Resuming stale job');
+    }
+  }
+
+  if (!job) {
+    return false;
+  }
+
+  const service = new VerificationService(supabase);
+  const startedAt = Date.now();
+
+  logger.info({ jobId: job.id, organizationId: job.organization_id, total: job.total_count }, '[BulkVerificationWorker] Processing job');
+
+  try {
+    await service.processBulkJob(job);
+    logger.info({ jobId: job.id, durationMs: Date.now() - startedAt }, '[BulkVerificationWorker] Job finished');
+  } catch (error) {
+    logger.error({ err: error, jobId: job.id }, '[BulkVerificationWorker] Job failed');
+  }
+
+  return true;
+}
+
+/**
+ * Start polling for bulk verification jobs
+ *
+ * @returns Function that stops the worker after the current job finishes
+ */
+export function startBulkVerificationWorker(logger: FastifyBaseLogger): () => void {
+  const intervalMs = config.BULK_VERIFICATION_WORKER_POLL_INTERVAL * 1000;
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const poll = async (): Promise<void> => {
+    if (stopped) {
+      return;
+    }
+
+    let processed = false;
+    try {
+      processed = await runBulkVerificationWorkerOnce(logger);
+    } catch (error) {
+      logger.error({ err: error }, '[BulkVerificationWorker] Poll failed');
+    }
+
+    if (!stopped) {
+      // Drain the queue without waiting while there is work
+      timer = setTimeout(() => void poll(), processed ? 0 : intervalMs);
+    }
+  };
+
+  logger.info({ pollIntervalSeconds: config.BULK_VERIFICATION_WORKER_POLL_INTERVAL }, '[BulkVerificationWorker] Started');
+  timer = setTimeout(() => void poll(), 0);
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
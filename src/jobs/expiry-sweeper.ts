@@ -0,0 +1,80 @@
+/**
+ * CERTIFICATE EXPIRY SWEEPER
+ *
+ * Scheduled transition of issued certificates to 'expired'.
+ *
+ * - Runs every EXPIRY_SWEEPER_INTERVAL seconds (and once at startup)
+ * - Expires certificates whose expires_at has passed, EXPIRY_SWEEPER_BATCH_SIZE at a time
+ * - Queues "your certificate expires in N days" emails for each offset in EXPIRY_REMINDER_DAYS
+ * - Safe to run in several processes: the status guard makes each transition happen once
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import { config } from '../lib/config/env.js';
+import { getSupabaseClient } from '../lib/supabase/client.js';
+import { TemplateRepository } from '../domains/templates/repository.js';
+import { CertificateRepository } from '../domains/certificates/repository.js';
+import { CertificateService } from '../domains/certificates/service.js';
+
+/**
+ * Run a single expiry sweep
+ */
+export async function runExpirySweepOnce(logger: FastifyBaseLogger): Promise<void> {
+  const supabase = getSupabaseClient();
+  const service = new CertificateService(new TemplateRepository(supabase), new CertificateRepository(supabase));
+  const startedAt = Date.now();
+
+  const result = await service.sweepExpiredCertificates({
+    batchSize: config.EXPIRY_SWEEPER_BATCH_SIZE,
+    reminderDays: config.EXPIRY_REMINDER_DAYS,
+  });
+
+  if (result.expired_count > 0 || result.reminders_queued > 0) {
+    logger.info({
+      expired: result.expired_count,
+      remindersQueued: result.reminders_queued,
+      organizations: result.organization_ids.length,
+      durationMs: Date.now() - startedAt,
+    }, '[ExpirySweeper] Sweep finished');
+  }
+}
+
+/**
+ * Start the periodic expiry sweep
+ *
+ * @returns Function that stops the sweeper after the current sweep finishes
+ */
+export function startExpirySweeper(logger: FastifyBaseLogger): () => void {
+  const intervalMs = config.EXPIRY_SWEEPER_INTERVAL * 1000;
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const sweep = async (): Promise<void> => {
+    if (stopped) {
+      return;
+    }
+
+    try {
+      await runExpirySweepOnce(logger);
+    } catch (error) {
+      logger.error({ err: error }, '[ExpirySweeper] Sweep failed');
+    }
+
+    if (!stopped) {
+      timer = setTimeout(() => void sweep(), intervalMs);
+    }
+  };
+
+  logger.info({
+    intervalSeconds: config.EXPIRY_SWEEPER_INTERVAL,
+    reminderDays: config.EXPIRY_REMINDER_DAYS,
+  }, '[ExpirySweeper] Started');
+  timer = setTimeout(() => void sweep(), 0);
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * CERTIFICATE GENERATION WORKER
+ *
+ * Background processor for queued certificate generation jobs.
+ *
+ * - Polls certificate_generation_jobs for the oldest 'queued' job
+ * - Claims it atomically ('queued' → 'running') so concurrent workers never share a job
+ * - Resumes 'running' jobs whose heartbeat (updated_at) is older than GENERATION_JOB_STALE_TIMEOUT,
+ *   or that a time-limited worker yielded (yielded_at)
+ * - Processes one job at a time per process
+ */
+
+import type { FastifyBaseLogger } from 'fastify';
+import { config } from '../lib/config/env.js';
+import { getSupabaseClient } from '../lib/supabase/client.js';
+import { TemplateRepository } from '../domains/templates/repository.js';
+import { CertificateRepository } from '../domains/certificates/repository.js';
+import { CertificateService } from '../domains/certificates/service.js';
+import type { GenerationJobEntity } from '../domains/certificates/types.js';
+
+/**
+ * Claim and process a single job, if one is available
+ *
+ * @param deadline - epoch ms after which the job is yielded between recipients (time-limited callers)
+ * @returns true if a job was processed (the caller may poll again immediately)
+ */
+export async function runGenerationWorkerOnce(logger: FastifyBaseLogger, deadline?: number): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  const repository = new CertificateRepository(supabase);
+
+  let job: GenerationJobEntity | null = await repository.claimNextQueuedJob();
+
+  if (!job) {
+    const staleBefore = new Date(Date.now() - config.GENERATION_JOB_STALE_TIMEOUT * 1000).toISOString();
+    job = await repository.reclaimStaleJob(staleBefore);
+
+    if (job) {
+      logger.warn({ jobId: job.id, lastHeartbeat: job.updated_at }, '[GenerationWorker] Resuming stale or yielded job');
+    }
+  }
+
+  if (!job) {
+    return false;
+  }
+
+  const service = new CertificateService(new TemplateRepository(supabase), repository);
+  const appUrl = config.APP_URL ?? config.FRONTEND_URL;
+  const startedAt = Date.now();
+
+  logger.info({ jobId: job.id, organizationId: job.organization_id, total: job.total_count }, '[GenerationWorker] Processing job');
+
+  try {
+    await service.processGenerationJob(job, appUrl, deadline);
+    logger.info({ jobId: job.id, durationMs: Date.now() - startedAt }, '[GenerationWorker] Job finished');
+  } catch (error) {
+    logger.error({ err: error, jobId: job.id }, '[GenerationWorker] Job failed');
+  }
+
+  return true;
+}
+
+/**
+ * Start polling for generation jobs
+ *
+ * @returns Function that stops the worker after the current job finishes
+ */
+export function startGenerationWorker(logger: FastifyBaseLogger): () => void {
+  const intervalMs = config.GENERATION_WORKER_POLL_INTERVAL * 1000;
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const poll = async (): Promise<void> => {
+    if (stopped) {
+      return;
+    }
+
+    let processed = false;
+    try {
+      processed = await runGenerationWorkerOnce(logger);
+    } catch (error) {
+      logger.error({ err: error }, '[GenerationWorker] Poll failed');
+    }
+
+    if (!stopped) {
+      // Drain the queue without waiting while there is work
+      timer = setTimeout(() => void poll(), processed ? 0 : intervalMs);
+    }
+  };
+
+  logger.info({ pollIntervalSeconds: config.GENERATION_WORKER_POLL_INTERVAL }, '[GenerationWorker] Started');
+  timer = setTimeout(() => void poll(), 0);
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * API KEY MIDDLEWARE
+ *
+ * Authenticates programmatic clients by their organization's application ID
+ * and API key (X-Application-ID / X-API-Key headers).
+ *
+ * API clients act for an organization, not a user, so they get
+ * request.apiClient instead of request.auth / request.context.
+ */
+
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { UnauthorizedError } from './jwt-verifier.js';
+import { getSupabaseClient } from '../supabase/client.js';
+import { validateAPIKey, verifyAPIKey } from '../utils/ids.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    apiClient?: {
+      organizationId: string;
+      applicationId: string;
+    };
+  }
+}
+
+/**
+ * API key middleware
+ *
+ * @throws UnauthorizedError if the headers are missing or the key does not match
+ */
+export async function apiKeyAuthMiddleware(
+  request: FastifyRequest,
+  _reply: FastifyReply
+): Promise<void> {
+  const applicationId = request.headers['x-application-id'];
+  const apiKey = request.headers['x-api-key'];
+
+  if (typeof applicationId !== 'string' || typeof apiKey !== 'string' || !applicationId || !apiKey) {
+    throw new UnauthorizedError('X-Application-ID and X-API-Key headers are required');
+  }
+
+  if (applicationId.length > 64 || !validateAPIKey(apiKey)) {
+    throw new UnauthorizedError('Invalid application ID or API key');
+  }
+
+  const { data, error } = await getSupabaseClient()
+    .from('organizations')
+    .select('id, api_key_hash')
+    .eq('application_id', applicationId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up application: ${error.message}`);
+  }
+
+  const organization = data as { id: string; api_key_hash: string | null } | null;
+
+  if (!organization?.api_key_hash || !(await verifyAPIKey(apiKey, organization.api_key_hash))) {
+    throw new UnauthorizedError('Invalid application ID or API key');
+  }
+
+  request.apiClient = {
+    organizationId: organization.id,
+    applicationId,
+  };
+
+  request.log = request.log.child({
+    organizationId: organization.id,
+    applicationId,
+  });
+}
@@ -49,6 +49,34 @@ const envSchema = z.object({
   // Optional - Templates
   TEMPLATES_DEFAULT_INCLUDE_PREVIEW: z.string().transform(v => v === 'true').default('false'),
 
+  // Optional - Certificate Fonts
+  // Directory with the bundled Noto fallback fonts (see scripts/fetch-noto-fonts.sh)
+  FONT_FALLBACK_DIR: z.string().default('assets/fonts/noto'),
+
+  // Optional - PDF Signing (PAdES)
+  // Platform PKCS#12 keystore, used for organizations without their own signing certificate
+  PDF_SIGNING_KEYSTORE_PATH: z.string().optional(),
+  PDF_SIGNING_KEYSTORE_PASSWORD: z.string().default(''),
+  // 32-byte key (base64) encrypting organization keystores at rest; required to upload them
+  PDF_SIGNING_ENCRYPTION_KEY: z
+    .string()
+    .refine(v => Buffer.from(v, 'base64').length === 32, 'PDF_SIGNING_ENCRYPTION_KEY must be 32 bytes, base64-encoded')
+    .optional(),
+  // RFC 3161 timestamp authority for signature timestamps (optional)
+  PDF_SIGNING_TSA_URL: z.string().url().optional(),
+  PDF_SIGNING_TSA_USERNAME: z.string().optional(),
+  PDF_SIGNING_TSA_PASSWORD: z.string().optional(),
+
+  // Optional - Verifiable Credentials (Open Badges 3.0)
+  // Public base URL of this API (e.g. https://api.authentix.com); issuer DIDs are did:web under it.
+  // Credentials are issued with certificates only when this and CREDENTIALS_ENCRYPTION_KEY are set.
+  CREDENTIALS_ISSUER_URL: z.string().url().optional(),
+  // 32-byte key (base64) encrypting organization credential signing keys at rest
+  CREDENTIALS_ENCRYPTION_KEY: z
+    .string()
+    .refine(v => Buffer.from(v, 'base64').length === 32, 'CREDENTIALS_ENCRYPTION_KEY must be 32 bytes, base64-encoded')
+    .optional(),
+
   // Optional - Logging
   SLOW_REQUEST_THRESHOLD: z.string().transform(Number).pipe(z.number().int().positive()).default('500'),
   LOG_REDACTION_ENABLED: z.string().transform(v => v === 'true').default('true'),
@@ -59,6 +87,25 @@ const envSchema = z.object({
 
   // Optional - Pagination
   MAX_PAGE_LIMIT: z.string().transform(Number).pipe(z.number().int().positive()).default('100'),
+
+  // Optional - Background Jobs
+  GENERATION_WORKER_ENABLED: z.string().transform(v => v === 'true').default('true'),
+  GENERATION_WORKER_POLL_INTERVAL: z.string().transform(Number).pipe(z.number().int().positive()).default('5'),
+  GENERATION_JOB_STALE_TIMEOUT: z.string().transform(Number).pipe(z.number().int().positive()).default('600'),
+  BULK_VERIFICATION_WORKER_ENABLED: z.string().transform(v => v === 'true').default('true'),
+  BULK_VERIFICATION_WORKER_POLL_INTERVAL: z.string().transform(Number).pipe(z.number().int().positive()).default('5'),
+  // Serverless deployments: secret of the scheduled job endpoints (/api/v1/cron/*); unset disables them
+  CRON_SECRET: z.string().optional(),
+  CRON_TIME_BUDGET: z.string().transform(Number).pipe(z.number().int().positive()).default('50'),
+  EXPIRY_SWEEPER_ENABLED: z.string().transform(v => v === 'true').default('true'),
+  EXPIRY_SWEEPER_INTERVAL: z.string().transform(Number).pipe(z.number().int().positive()).default('3600'),
+  EXPIRY_SWEEPER_BATCH_SIZE: z.string().transform(Number).pipe(z.number().int().positive()).default('500'),
+  // Comma-separated days before expiry to queue reminder emails (e.g. "30,7"); empty disables reminders
+  EXPIRY_REMINDER_DAYS: z
+    .string()
+    .default('')
+    .transform(v => v.split(',').map(d => d.trim()).filter(Boolean).map(Number))
+    .pipe(z.array(z.number().int().positive())),
 });
 
 /**
@@ -0,0 +1,52 @@
+/**
+ * DID:WEB ISSUER IDENTIFIERS
+ *
+ * Each organization is a did:web issuer under the API's public URL:
+ *   https://api.example.com  →  did:web:api.example.com:api:v1:issuers:<organization_id>
+ * which resolves to https://api.example.com/api/v1/issuers/<organization_id>/did.json.
+ */
+
+const ISSUERS_PATH = ['api', 'v1', 'issuers'];
+
+/**
+ * DID of an organization
+ */
+export function getIssuerDid(baseUrl: string, organizationId: string): string {
+  const url = new URL(baseUrl);
+  const segments = [
+    // did:web percent-encodes the port separator
+    encodeURIComponent(url.host),
+    ...url.pathname.split('/').filter(Boolean).map(encodeURIComponent),
+    ...ISSUERS_PATH,
+    organizationId,
+  ];
+
+  return `did:web:${segments.join(':')}`;
+}
+
+/**
+ * HTTPS URL of an organization's issuer profile (its DID document is at <url>/did.json)
+ */
+export function getIssuerUrl(baseUrl: string, organizationId: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${ISSUERS_PATH.join('/')}/${organizationId}`;
+}
+
+/**
+ * Organization of a DID (or DID URL) issued under baseUrl
+ * @returns null when the DID belongs to another issuer
+ */
+export function parseIssuerDid(baseUrl: string, did: string): { organizationId: string; fragment: string | null } | null {
+  const [didPart, fragment] = did.split('#', 2) as [string, string | undefined];
+  const prefix = getIssuerDid(baseUrl, '');
+
+  if (!didPart.startsWith(prefix)) {
+    return null;
+  }
+
+  const organizationId = didPart.slice(prefix.length);
+  if (!/^[0-9a-f-]{36}$/i.test(organizationId)) {
+    return null;
+  }
+
+  return { organizationId, fragment: fragment ?? null };
+}
@@ -0,0 +1,83 @@
+/**
+ * COMPACT JWS (JWT)
+ *
+ * Signs and verifies VC-JWT credentials. Only EdDSA (Ed25519) is supported,
+ * the algorithm of organization credential keys.
+ */
+
+import crypto from 'node:crypto';
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: Record<string, unknown>;
+  /** base64url(header).base64url(payload), the signed bytes */
+  signingInput: string;
+  signature: Buffer;
+}
+
+/**
+ * Sign a JWT with an Ed25519 private key
+ */
+export function signJwt(header: JwtHeader, payload: Record<string, unknown>, privateKey: crypto.KeyObject): string {
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Split and parse a compact JWT without verifying it
+ * @throws Error when the token is not a well-formed JWT
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.trim().split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed JWT');
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = parts as [string, string, string];
+  let header: unknown;
+  let payload: unknown;
+  try {
+    header = JSON.parse(Buffer.from(headerSegment, 'base64url').toString('utf8'));
+    payload = JSON.parse(Buffer.from(payloadSegment, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Malformed JWT');
+  }
+
+  if (!isObject(header) || typeof header.alg !== 'string' || !isObject(payload)) {
+    throw new Error('Malformed JWT');
+  }
+
+  return {
+    header: header as unknown as JwtHeader,
+    payload,
+    signingInput: `${headerSegment}.${payloadSegment}`,
+    signature: Buffer.from(signatureSegment, 'base64url'),
+  };
+}
+
+/**
+ * Check a decoded JWT's EdDSA signature
+ */
+export function verifyJwtSignature(jwt: DecodedJwt, publicKey: crypto.KeyObject): boolean {
+  if (jwt.header.alg !== 'EdDSA' || publicKey.asymmetricKeyType !== 'ed25519') {
+    return false;
+  }
+
+  return crypto.verify(null, Buffer.from(jwt.signingInput), publicKey, jwt.signature);
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
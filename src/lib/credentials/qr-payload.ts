@@ -0,0 +1,116 @@
+/**
+ * SIGNED QR PAYLOAD
+ *
+ * Compact signed certificate summary carried in the certificate QR code, so a
+ * verifier app holding the issuer's public keys (JWKS) can check it offline:
+ *
+ *   AX1.<base64url(claims)>.<base64url(Ed25519 signature)>
+ *
+ * claims is a JSON array, positional to keep the QR small:
+ *   [organization_id, key_id, certificate_number, name_hash, issued_on, expires_on | null]
+ *
+ * The signature covers "AX1.<base64url(claims)>". Dates are YYYY-MM-DD (UTC).
+ * The QR code holds the verification URL with the payload as its fragment
+ * (https://.../verify/<token>#AX1....), so phones without the app still open
+ * the online verification page.
+ */
+
+import crypto from 'node:crypto';
+
+const PAYLOAD_PREFIX = 'AX1';
+
+export interface QrPayloadClaims {
+  organizationId: string;
+  keyId: string;
+  certificateNumber: string;
+  /** hashRecipientName() of the recipient name */
+  nameHash: string;
+  issuedOn: string;
+  expiresOn: string | null;
+}
+
+export interface DecodedQrPayload {
+  claims: QrPayloadClaims;
+  /** AX1.<base64url(claims)>, the signed bytes */
+  signingInput: string;
+  signature: Buffer;
+}
+
+/**
+ * Sign claims with an Ed25519 private key
+ */
+export function signQrPayload(claims: QrPayloadClaims, privateKey: crypto.KeyObject): string {
+  const encodedClaims = Buffer.from(JSON.stringify([
+    claims.organizationId,
+    claims.keyId,
+    claims.certificateNumber,
+    claims.nameHash,
+    claims.issuedOn,
+    claims.expiresOn,
+  ]), 'utf8').toString('base64url');
+
+  const signingInput = `${PAYLOAD_PREFIX}.${encodedClaims}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Parse a payload, or the QR text carrying it as URL fragment, without verifying it
+ * @throws Error when the text holds no well-formed payload
+ */
+export function decodeQrPayload(text: string): DecodedQrPayload {
+  const payload = text.trim().split('#').pop()!;
+  const parts = payload.split('.');
+
+  if (parts.length !== 3 || parts[0] !== PAYLOAD_PREFIX) {
+    throw new Error('Malformed QR payload');
+  }
+
+  let claims: unknown;
+  try {
+    claims = JSON.parse(Buffer.from(parts[1]!, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Malformed QR payload');
+  }
+
+  if (
+    !Array.isArray(claims) ||
+    claims.length !== 6 ||
+    !claims.slice(0, 5).every((claim) => typeof claim === 'string' && claim.length > 0) ||
+    (claims[5] !== null && typeof claims[5] !== 'string')
+  ) {
+    throw new Error('Malformed QR payload');
+  }
+
+  const [organizationId, keyId, certificateNumber, nameHash, issuedOn, expiresOn] = claims as [
+    string, string, string, string, string, string | null,
+  ];
+
+  return {
+    claims: { organizationId, keyId, certificateNumber, nameHash, issuedOn, expiresOn },
+    signingInput: `${parts[0]}.${parts[1]}`,
+    signature: Buffer.from(parts[2]!, 'base64url'),
+  };
+}
+
+/**
+ * Check a decoded payload's Ed25519 signature
+ */
+export function verifyQrPayloadSignature(payload: DecodedQrPayload, publicKey: crypto.KeyObject): boolean {
+  if (publicKey.asymmetricKeyType !== 'ed25519') {
+    return false;
+  }
+
+  return crypto.verify(null, Buffer.from(payload.signingInput), publicKey, payload.signature);
+}
+
+/**
+ * Recipient name hash: base64url of the first 16 bytes of SHA-256 over the
+ * name in Unicode NFKC, lowercased, with whitespace collapsed to single spaces
+ * Lets a verifier confirm the name on the certificate without the payload spelling it out.
+ */
+export function hashRecipientName(name: string): string {
+  const normalized = name.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+  return crypto.createHash('sha256').update(normalized, 'utf8').digest().subarray(0, 16).toString('base64url');
+}
@@ -132,6 +132,75 @@ export const uploadRateLimitConfig: Partial<RateLimitPluginOptions> = {
   },
 };
 
+/**
+ * Rate limit for bulk verification, per client IP
+ * Runs at onRequest, before the API key is checked, so it cannot trust the application ID header
+ */
+export const bulkVerificationRateLimitConfig: Partial<RateLimitPluginOptions> = {
+  max: 60,
+  timeWindow: '1 hour',
+  cache: 5000,
+  keyGenerator: (req: FastifyRequest) => {
+    // Use IP address (unauthenticated at this point)
+    return `bulk-verification:${req.ip}`;
+  },
+  errorResponseBuilder: (_req: FastifyRequest, context: any) => {
+    return {
+      success: false,
+      error: {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: 'Bulk verification limit reached. Please try again later.',
+        retryAfter: context.after,
+      },
+      meta: {
+        request_id: _req.id ?? 'unknown',
+        timestamp: new Date().toISOString(),
+      },
+    };
+  },
+};
+
+/**
+ * Rate limit for bulk verification, per authenticated API key client
+ * Checked with app.createRateLimit() after apiKeyAuthMiddleware has set request.apiClient
+ */
+export const bulkVerificationClientRateLimitConfig: Partial<RateLimitPluginOptions> = {
+  max: 30,
+  timeWindow: '1 hour',
+  keyGenerator: (req: FastifyRequest) => {
+    const applicationId = req.apiClient?.applicationId;
+    return applicationId ? `bulk-verification-client:${applicationId}` : `bulk-verification-client:${req.ip}`;
+  },
+};
+
+/**
+ * Strict rate limit for public certificate number lookups
+ * A number plus a surname or date of birth is guessable; keep guessing slow
+ */
+export const verificationLookupRateLimitConfig: Partial<RateLimitPluginOptions> = {
+  max: 10,
+  timeWindow: '15 minutes',
+  cache: 5000,
+  keyGenerator: (req: FastifyRequest) => {
+    // Use IP address (public endpoint)
+    return `verification-lookup:${req.ip}`;
+  },
+  errorResponseBuilder: (_req: FastifyRequest, context: any) => {
+    return {
+      success: false,
+      error: {
+        code: 'TOO_MANY_VERIFICATION_ATTEMPTS',
+        message: 'Too many verification attempts. Please try again in 15 minutes.',
+        retryAfter: context.after,
+      },
+      meta: {
+        request_id: _req.id ?? 'unknown',
+        timestamp: new Date().toISOString(),
+      },
+    };
+  },
+};
+
 /**
  * Rate limit for expensive operations (certificate generation)
  */
@@ -0,0 +1,122 @@
+/**
+ * CAdES SIGNATURES
+ *
+ * Builds detached CMS SignedData signatures in the CAdES baseline form PAdES
+ * expects (ETSI.CAdES.detached):
+ * - signed attributes: content type, message digest, signing certificate (v2)
+ * - no signing time attribute (the PDF signature dictionary carries it)
+ * - optional RFC 3161 signature timestamp as an unsigned attribute
+ */
+
+import crypto from 'node:crypto';
+import forge from 'node-forge';
+import type { SigningIdentity } from './keystore.js';
+import type { TimestampClient } from './timestamp.js';
+import { encode, sequence, setOf, contextTag, oid, integer, octetString, NULL } from './der.js';
+
+const OIDS = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  signatureTimeStampToken: '1.2.840.113549.1.9.16.2.14',
+  sha256WithRSAEncryption: '1.2.840.113549.1.1.11',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+};
+
+/**
+ * Sign content with a detached CAdES signature
+ * @returns the CMS ContentInfo (DER)
+ * @throws Error when the key type is not supported or timestamping fails
+ */
+export async function createCadesSignature(
+  content: Buffer,
+  identity: SigningIdentity,
+  timestampClient?: TimestampClient
+): Promise<Buffer> {
+  const { issuer, serialNumber } = readIssuerAndSerial(identity.certificate);
+  const signatureAlgorithm = getSignatureAlgorithm(identity.privateKey);
+
+  // ESSCertIDv2 (SHA-256 is the default hash algorithm, so it is omitted)
+  const signingCertificate = sequence(
+    sequence(
+      sequence(
+        octetString(sha256(identity.certificate)),
+        sequence(sequence(encode(0xa4, issuer)), serialNumber)
+      )
+    )
+  );
+
+  const signedAttributes = [
+    attribute(OIDS.contentType, oid(OIDS.data)),
+    attribute(OIDS.messageDigest, octetString(sha256(content))),
+    attribute(OIDS.signingCertificateV2, signingCertificate),
+  ].sort(Buffer.compare);
+
+  // Signed over the attributes as a SET (tag 0x31), stored as [0] IMPLICIT
+  const signature = crypto.sign('sha256', encode(0x31, ...signedAttributes), identity.privateKey);
+
+  const unsignedAttributes: Buffer[] = [];
+  if (timestampClient) {
+    const token = await timestampClient.timestamp(sha256(signature));
+    unsignedAttributes.push(attribute(OIDS.signatureTimeStampToken, token));
+  }
+
+  const signerInfo = sequence(
+    integer(1),
+    sequence(issuer, serialNumber),
+    sequence(oid(OIDS.sha256)),
+    contextTag(0, ...signedAttributes),
+    signatureAlgorithm,
+    octetString(signature),
+    ...(unsignedAttributes.length > 0 ? [contextTag(1, ...unsignedAttributes)] : [])
+  );
+
+  const signedData = sequence(
+    integer(1),
+    setOf(sequence(oid(OIDS.sha256))),
+    sequence(oid(OIDS.data)),
+    contextTag(0, identity.certificate, ...identity.chain),
+    setOf(signerInfo)
+  );
+
+  return sequence(oid(OIDS.signedData), contextTag(0, signedData));
+}
+
+function attribute(type: string, value: Buffer): Buffer {
+  return sequence(oid(type), setOf(value));
+}
+
+function sha256(data: Buffer): Buffer {
+  return crypto.createHash('sha256').update(data).digest();
+}
+
+function getSignatureAlgorithm(key: crypto.KeyObject): Buffer {
+  switch (key.asymmetricKeyType) {
+    case 'rsa':
+      return sequence(oid(OIDS.sha256WithRSAEncryption), NULL);
+    case 'ec':
+      return sequence(oid(OIDS.ecdsaWithSHA256));
+    default:
+      throw new Error(`Unsupported signing key type: ${key.asymmetricKeyType ?? 'unknown'}`);
+  }
+}
+
+/**
+ * Issuer Name and serial number INTEGER of a certificate, DER-encoded
+ */
+function readIssuerAndSerial(certificate: Buffer): { issuer: Buffer; serialNumber: Buffer } {
+  const asn1 = forge.asn1.fromDer(forge.util.createBuffer(certificate.toString('binary')));
+  const tbs = (asn1.value as forge.asn1.Asn1[])[0]!.value as forge.asn1.Asn1[];
+
+  // version is an optional [0] before the serial number
+  const offset = tbs[0]!.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC ? 1 : 0;
+  const toDer = (node: forge.asn1.Asn1) => Buffer.from(forge.asn1.toDer(node).getBytes(), 'binary');
+
+  return {
+    serialNumber: toDer(tbs[offset]!),
+    issuer: toDer(tbs[offset + 2]!),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * DER ENCODING
+ *
+ * Minimal DER writer for the CMS and RFC 3161 structures built when signing.
+ */
+
+import forge from 'node-forge';
+
+export function encode(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  return Buffer.concat([Buffer.from([tag]), encodeLength(body.length), body]);
+}
+
+export function sequence(...contents: Buffer[]): Buffer {
+  return encode(0x30, ...contents);
+}
+
+/**
+ * SET OF, with elements in DER order (sorted by encoding)
+ */
+export function setOf(...elements: Buffer[]): Buffer {
+  return encode(0x31, ...[...elements].sort(Buffer.compare));
+}
+
+/**
+ * [n] IMPLICIT (constructed) context tag
+ */
+export function contextTag(n: number, ...contents: Buffer[]): Buffer {
+  return encode(0xa0 + n, ...contents);
+}
+
+export function oid(value: string): Buffer {
+  return encode(0x06, Buffer.from(forge.asn1.oidToDer(value).getBytes(), 'binary'));
+}
+
+/**
+ * Non-negative INTEGER from its big-endian bytes
+ */
+export function integer(value: number | Buffer): Buffer {
+  let bytes = typeof value === 'number' ? Buffer.from([value]) : value;
+  while (bytes.length > 1 && bytes[0] === 0) {
+    bytes = bytes.subarray(1);
+  }
+  if (bytes[0]! & 0x80) {
+    bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  }
+  return encode(0x02, bytes);
+}
+
+export function octetString(value: Buffer): Buffer {
+  return encode(0x04, value);
+}
+
+export const NULL = Buffer.from([0x05, 0x00]);
+
+export const TRUE = Buffer.from([0x01, 0x01, 0xff]);
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
@@ -0,0 +1,122 @@
+/**
+ * SIGNING KEYSTORES
+ *
+ * Loads X.509 signing identities (private key + certificate chain) from PKCS#12
+ * keystores (.p12 / .pfx), and encrypts keystores stored for organizations.
+ *
+ * RSA and EC keys are supported. The signing certificate is the one matching
+ * the private key; the other certificates form its chain.
+ */
+
+import crypto from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import forge from 'node-forge';
+
+export interface SigningIdentity {
+  privateKey: crypto.KeyObject;
+  /** Signing certificate (DER) */
+  certificate: Buffer;
+  /** Intermediate / root certificates (DER), excluding the signing certificate */
+  chain: Buffer[];
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  notBefore: Date;
+  notAfter: Date;
+  fingerprintSha256: string;
+}
+
+/**
+ * Read a PKCS#12 keystore
+ * @throws Error when the keystore cannot be read (wrong password, no key, no matching certificate)
+ */
+export function loadPkcs12(bytes: Buffer, password: string): SigningIdentity {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    const der = forge.util.createBuffer(bytes.toString('binary'));
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(der), password);
+  } catch (error) {
+    throw new Error(`Cannot read keystore: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag!] ?? []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag!] ?? []),
+  ];
+  const keyBag = keyBags[0];
+  if (!keyBag) {
+    throw new Error('Keystore contains no private key');
+  }
+
+  // Unknown key types (EC) are left as PrivateKeyInfo ASN.1 by forge
+  const keyInfo = keyBag.key
+    ? forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(keyBag.key as forge.pki.rsa.PrivateKey))
+    : (keyBag as { asn1?: forge.asn1.Asn1 }).asn1;
+  if (!keyInfo) {
+    throw new Error('Keystore private key cannot be read');
+  }
+
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.from(forge.asn1.toDer(keyInfo).getBytes(), 'binary'),
+    format: 'der',
+    type: 'pkcs8',
+  });
+
+  const certificates: Buffer[] = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag!] ?? [])
+    .flatMap((bag) => {
+      // Certificates with EC keys are left as ASN.1 by forge
+      const asn1 = bag.cert ? forge.pki.certificateToAsn1(bag.cert) : (bag as { asn1?: forge.asn1.Asn1 }).asn1;
+      return asn1 ? [Buffer.from(forge.asn1.toDer(asn1).getBytes(), 'binary')] : [];
+    });
+
+  const signing = certificates
+    .map((der) => new crypto.X509Certificate(der))
+    .find((certificate) => certificate.checkPrivateKey(privateKey));
+  if (!signing) {
+    throw new Error('Keystore contains no certificate for its private key');
+  }
+
+  return {
+    privateKey,
+    certificate: signing.raw,
+    chain: certificates.filter((der) => !der.equals(signing.raw)),
+    subject: signing.subject,
+    issuer: signing.issuer,
+    serialNumber: signing.serialNumber,
+    notBefore: new Date(signing.validFrom),
+    notAfter: new Date(signing.validTo),
+    fingerprintSha256: signing.fingerprint256,
+  };
+}
+
+/**
+ * Read a PKCS#12 keystore file (platform keystore)
+ */
+export async function loadPkcs12File(path: string, password: string): Promise<SigningIdentity> {
+  return loadPkcs12(await readFile(path), password);
+}
+
+/**
+ * Encrypt a secret with AES-256-GCM
+ * @param key - 32-byte key
+ * @returns iv || tag || ciphertext, base64
+ */
+export function encryptSecret(plaintext: Buffer, key: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * @throws Error when the key is wrong or the data was modified
+ */
+export function decryptSecret(encrypted: string, key: Buffer): Buffer {
+  const data = Buffer.from(encrypted, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, data.subarray(0, 12));
+  decipher.setAuthTag(data.subarray(12, 28));
+
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+}
@@ -0,0 +1,94 @@
+/**
+ * RFC 3161 TIMESTAMPING
+ *
+ * Timestamp authority (TSA) clients. A signature timestamp proves the signature
+ * existed before the signing certificate expired or was revoked.
+ *
+ * TimestampClient is the extension point: HttpTimestampClient talks to any
+ * RFC 3161 TSA over HTTP; other clients (e.g. a cloud KMS-backed TSA) implement
+ * the same interface.
+ */
+
+import crypto from 'node:crypto';
+import forge from 'node-forge';
+import { sequence, oid, integer, octetString, NULL, TRUE } from './der.js';
+
+const SHA256_OID = '2.16.840.1.101.3.4.2.1';
+
+const TSA_TIMEOUT_MS = 15_000;
+
+export interface TimestampClient {
+  /**
+   * Timestamp a SHA-256 digest
+   * @returns the TimeStampToken (a CMS ContentInfo, DER)
+   */
+  timestamp(digest: Buffer): Promise<Buffer>;
+}
+
+/**
+ * RFC 3161 client for a TSA reached over HTTP(S)
+ */
+export class HttpTimestampClient implements TimestampClient {
+  constructor(
+    private readonly url: string,
+    private readonly credentials?: { username: string; password: string }
+  ) {}
+
+  async timestamp(digest: Buffer): Promise<Buffer> {
+    // TimeStampReq: version, messageImprint, nonce, certReq (TSA certificate in the token)
+    const request = sequence(
+      integer(1),
+      sequence(sequence(oid(SHA256_OID), NULL), octetString(digest)),
+      integer(crypto.randomBytes(8)),
+      TRUE
+    );
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/timestamp-query' };
+    if (this.credentials) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.credentials.username}:${this.credentials.password}`).toString('base64')}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers,
+        body: request,
+        signal: AbortSignal.timeout(TSA_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new Error(`Timestamp authority unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Timestamp authority returned HTTP ${response.status}`);
+    }
+
+    return parseTimestampResponse(Buffer.from(await response.arrayBuffer()));
+  }
+}
+
+/**
+ * Extract the token from a TimeStampResp
+ * @throws Error when the TSA did not grant the request
+ */
+function parseTimestampResponse(der: Buffer): Buffer {
+  let status: number;
+  let token: forge.asn1.Asn1 | undefined;
+  try {
+    const response = forge.asn1.fromDer(forge.util.createBuffer(der.toString('binary')));
+    const [statusInfo, tokenInfo] = response.value as forge.asn1.Asn1[];
+    const statusValue = (statusInfo!.value as forge.asn1.Asn1[])[0]!;
+    status = forge.asn1.derToInteger(forge.util.createBuffer(statusValue.value as string));
+    token = tokenInfo;
+  } catch (error) {
+    throw new Error(`Invalid timestamp response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  // 0 = granted, 1 = granted with modifications
+  if ((status !== 0 && status !== 1) || !token) {
+    throw new Error(`Timestamp authority rejected the request (status ${status})`);
+  }
+
+  return Buffer.from(forge.asn1.toDer(token).getBytes(), 'binary');
+}
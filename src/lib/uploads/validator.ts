@@ -39,6 +39,10 @@ export const ALLOWED_FILE_TYPES = {
     description: 'Excel spreadsheet',
   },
   'text/csv': { extension: 'csv', description: 'CSV file' },
+
+  // Fonts (organization font library)
+  'font/ttf': { extension: 'ttf', description: 'TrueType font' },
+  'font/otf': { extension: 'otf', description: 'OpenType font' },
 } as const;
 
 /**
@@ -209,13 +213,15 @@ export async function validateFileUpload(
 
 /**
  * Normalize mimetype for comparison
- * Handles common variations (e.g., image/jpg -> image/jpeg)
+ * Handles common variations (e.g., image/jpg -> image/jpeg, application/x-font-ttf -> font/ttf)
  */
 function normalizeMimeType(mimeType: string): string {
   const normalized = mimeType.toLowerCase().trim();
 
   // Common variations
   if (normalized === 'image/jpg') return 'image/jpeg';
+  if (normalized === 'application/x-font-ttf') return 'font/ttf';
+  if (normalized === 'application/x-font-otf' || normalized === 'application/x-font-opentype') return 'font/otf';
 
   return normalized;
 }